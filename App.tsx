@@ -2,23 +2,26 @@ import React, { useEffect, useState } from 'react';
 import { StatusBar } from 'expo-status-bar';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { PersistQueryClientProvider } from '@tanstack/react-query-persist-client';
 import * as SplashScreen from 'expo-splash-screen';
 import { RootNavigator } from './src/navigation/RootNavigator';
 import { ErrorBoundary } from './src/components/common';
 import { ToastContainer } from './src/components/common/Toast';
 import { useThemeStore } from './src/store/theme';
-import { config } from './src/constants/config';
 import { notificationService } from './src/services/notifications';
+import { queryClient, persistOptions } from './src/services/queryClient';
+import { setupOfflineSupport } from './src/services/offline';
+import { realtimeService } from './src/services/realtime';
+import { useOfflineSync } from './src/hooks/useOffline';
 
-const queryClient = new QueryClient({
-  defaultOptions: {
-    queries: {
-      staleTime: config.queryStaleTime,
-      retry: 1,
-    },
-  },
-});
+setupOfflineSupport();
+realtimeService.start();
+
+// Replays changes made offline once the connection is back
+function OfflineSync() {
+  useOfflineSync();
+  return null;
+}
 
 // Keep splash screen visible while app loads
 SplashScreen.preventAutoHideAsync();
@@ -59,11 +62,12 @@ export default function App() {
     <GestureHandlerRootView style={{ flex: 1 }}>
       <ErrorBoundary>
         <SafeAreaProvider>
-          <QueryClientProvider client={queryClient}>
+          <PersistQueryClientProvider client={queryClient} persistOptions={persistOptions}>
             <RootNavigator />
+            <OfflineSync />
             <ToastContainer />
             <StatusBar style={effectiveTheme === 'dark' ? 'light' : 'dark'} />
-          </QueryClientProvider>
+          </PersistQueryClientProvider>
         </SafeAreaProvider>
       </ErrorBoundary>
     </GestureHandlerRootView>
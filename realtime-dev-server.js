@@ -0,0 +1,87 @@
+// Local stand-in for the realtime endpoint.
+//
+//   npm run realtime:dev
+//   EXPO_PUBLIC_REALTIME_URL=ws://<your-lan-ip>:4001 npm start
+//
+// Push an event to every connected app (add ?campusId=... to target one campus):
+//   curl -X POST localhost:4001/events -H 'Content-Type: application/json' \
+//     -d '{"type":"booking.cancelled","bookingId":"abc","roomId":"room-1"}'
+
+const http = require('http');
+const { WebSocketServer } = require('ws');
+
+const PORT = Number(process.env.PORT) || 4001;
+// When set, connections must present exactly this token
+const DEV_TOKEN = process.env.REALTIME_DEV_TOKEN;
+const UNAUTHORIZED_CLOSE_CODE = 4001;
+const EVENT_TYPES = ['booking.created', 'booking.updated', 'booking.cancelled', 'room.updated', 'waitlist.updated'];
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  if (req.method !== 'POST' || url.pathname !== '/events') {
+    res.writeHead(404).end();
+    return;
+  }
+
+  let body = '';
+  req.on('data', (chunk) => (body += chunk));
+  req.on('end', () => {
+    let event;
+    try {
+      event = JSON.parse(body);
+    } catch {
+      res.writeHead(400).end('Body must be JSON\n');
+      return;
+    }
+    if (!EVENT_TYPES.includes(event.type)) {
+      res.writeHead(400).end(`type must be one of: ${EVENT_TYPES.join(', ')}\n`);
+      return;
+    }
+
+    const campusId = url.searchParams.get('campusId');
+    let sent = 0;
+    for (const client of wss.clients) {
+      if (client.readyState !== client.OPEN) continue;
+      if (campusId && client.campusId !== campusId) continue;
+      client.send(JSON.stringify(event));
+      sent++;
+    }
+    console.log(`${event.type} -> ${sent} client(s)`);
+    res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({ sent }) + '\n');
+  });
+});
+
+const wss = new WebSocketServer({ server });
+
+wss.on('connection', (socket, req) => {
+  const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+  if (!token || (DEV_TOKEN && token !== DEV_TOKEN)) {
+    console.log('Rejected connection without a valid token');
+    socket.close(UNAUTHORIZED_CLOSE_CODE, 'Unauthorized');
+    return;
+  }
+
+  socket.campusId = req.headers['x-campus-id'] || null;
+  socket.isAlive = true;
+  socket.on('pong', () => (socket.isAlive = true));
+  console.log(`Client connected (campus: ${socket.campusId || 'none'})`);
+  socket.on('close', () => console.log('Client disconnected'));
+});
+
+// Drop connections that stopped answering pings
+const heartbeat = setInterval(() => {
+  for (const socket of wss.clients) {
+    if (!socket.isAlive) {
+      socket.terminate();
+      continue;
+    }
+    socket.isAlive = false;
+    socket.ping();
+  }
+}, 30000);
+
+wss.on('close', () => clearInterval(heartbeat));
+
+server.listen(PORT, () => {
+  console.log(`Realtime dev server listening on ws://localhost:${PORT}`);
+});
@@ -0,0 +1,203 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { format, parseISO } from 'date-fns';
+import { z } from 'zod';
+import { useTheme } from '../../hooks/useTheme';
+import { useAuthStore } from '../../store/auth';
+import { useAttendeeFreeBusy, useDirectorySearch } from '../../hooks/useDirectory';
+import { Input } from '../common';
+import type { AttendeeInput } from '../../services/bookings';
+import type { AttendeeFreeBusy, DirectoryUser } from '../../services/directory';
+
+interface AttendeePickerProps {
+  value: AttendeeInput[];
+  onChange: (attendees: AttendeeInput[]) => void;
+  start: Date;
+  end: Date;
+  /** Booking being edited, so it isn't reported as its own conflict */
+  excludeBookingId?: string;
+}
+
+const emailSchema = z.string().email('Please enter a valid email address');
+
+function fullName(user: DirectoryUser): string {
+  return `${user.firstName} ${user.lastName}`.trim();
+}
+
+export function AttendeePicker({ value, onChange, start, end, excludeBookingId }: AttendeePickerProps) {
+  const { colors } = useTheme();
+  const currentUser = useAuthStore((state) => state.user);
+  const [query, setQuery] = useState('');
+  const [error, setError] = useState<string | undefined>();
+
+  const { data: searchData, isFetching: isSearching } = useDirectorySearch(query);
+  const emails = useMemo(() => value.map((a) => a.email), [value]);
+  const { data: freeBusyData } = useAttendeeFreeBusy(emails, start, end);
+
+  const selected = new Set(emails.map((email) => email.toLowerCase()));
+  const results = query.trim().length >= 2
+    ? (searchData?.data || []).filter(
+        (user) => !selected.has(user.email.toLowerCase()) && user.id !== currentUser?.id
+      )
+    : [];
+
+  // Existing bookings per attendee that overlap the requested time
+  const conflictsByEmail = useMemo(() => {
+    const map = new Map<string, AttendeeFreeBusy['busy']>();
+    for (const entry of freeBusyData?.data || []) {
+      const busy = entry.busy.filter((block) => block.bookingId !== excludeBookingId);
+      if (busy.length > 0) map.set(entry.email.toLowerCase(), busy);
+    }
+    return map;
+  }, [freeBusyData, excludeBookingId]);
+
+  const add = (attendee: AttendeeInput) => {
+    if (selected.has(attendee.email.toLowerCase())) {
+      setError('Already added');
+      return;
+    }
+    onChange([...value, attendee]);
+    setQuery('');
+    setError(undefined);
+  };
+
+  const remove = (email: string) => {
+    onChange(value.filter((a) => a.email !== email));
+  };
+
+  const addTypedEmail = () => {
+    const email = query.trim();
+    if (!email) return;
+    const result = emailSchema.safeParse(email);
+    if (!result.success) {
+      setError(result.error.issues[0].message);
+      return;
+    }
+    const match = results.find((user) => user.email.toLowerCase() === email.toLowerCase());
+    add(match ? { email: match.email, name: fullName(match) } : { email });
+  };
+
+  const typedIsEmail = emailSchema.safeParse(query.trim()).success;
+  const typedIsKnown = results.some((user) => user.email.toLowerCase() === query.trim().toLowerCase());
+
+  return (
+    <View style={styles.container}>
+      <Input
+        label="Attendees"
+        placeholder="Search people or type an email"
+        leftIcon="person-add-outline"
+        value={query}
+        onChangeText={(text) => {
+          setQuery(text);
+          setError(undefined);
+        }}
+        onSubmitEditing={addTypedEmail}
+        autoCapitalize="none"
+        autoCorrect={false}
+        keyboardType="email-address"
+        returnKeyType="done"
+        error={error}
+        containerStyle={styles.inputContainer}
+      />
+
+      {query.trim().length >= 2 && (
+        <View style={[styles.results, { borderColor: colors.border, backgroundColor: colors.surface }]}>
+          {isSearching && results.length === 0 ? (
+            <ActivityIndicator style={styles.resultsLoading} size="small" color={colors.primary} />
+          ) : (
+            results.slice(0, 5).map((user) => (
+              <TouchableOpacity
+                key={user.id}
+                onPress={() => add({ email: user.email, name: fullName(user) })}
+                style={[styles.resultRow, { borderBottomColor: colors.border }]}
+              >
+                <Ionicons name="person-circle-outline" size={22} color={colors.primary} />
+                <View style={{ flex: 1 }}>
+                  <Text style={[styles.resultName, { color: colors.text }]} numberOfLines={1}>
+                    {fullName(user)}
+                  </Text>
+                  <Text style={[styles.resultMeta, { color: colors.textSecondary }]} numberOfLines={1}>
+                    {user.email}{user.department ? ` • ${user.department}` : ''}
+                  </Text>
+                </View>
+              </TouchableOpacity>
+            ))
+          )}
+          {typedIsEmail && !typedIsKnown && (
+            <TouchableOpacity onPress={addTypedEmail} style={styles.resultRow}>
+              <Ionicons name="mail-outline" size={20} color={colors.primary} />
+              <Text style={[styles.resultName, { color: colors.primary, flex: 1 }]} numberOfLines={1}>
+                Add {query.trim()} (external)
+              </Text>
+            </TouchableOpacity>
+          )}
+          {!isSearching && results.length === 0 && !typedIsEmail && (
+            <Text style={[styles.noResults, { color: colors.textSecondary }]}>
+              No matches. Type a full email to invite someone external.
+            </Text>
+          )}
+        </View>
+      )}
+
+      {value.map((attendee) => {
+        const conflicts = conflictsByEmail.get(attendee.email.toLowerCase());
+        return (
+          <View
+            key={attendee.email}
+            style={[
+              styles.attendeeRow,
+              {
+                backgroundColor: conflicts ? colors.warningLight : colors.surfaceSecondary,
+              },
+            ]}
+          >
+            <Ionicons
+              name={conflicts ? 'warning-outline' : attendee.name ? 'person-outline' : 'mail-outline'}
+              size={18}
+              color={conflicts ? colors.warning : colors.textSecondary}
+            />
+            <View style={{ flex: 1 }}>
+              <Text style={[styles.attendeeName, { color: colors.text }]} numberOfLines={1}>
+                {attendee.name || attendee.email}
+              </Text>
+              {attendee.name && (
+                <Text style={[styles.attendeeEmail, { color: colors.textTertiary }]} numberOfLines={1}>
+                  {attendee.email}
+                </Text>
+              )}
+              {conflicts && (
+                <Text style={[styles.conflictText, { color: colors.warning }]} numberOfLines={2}>
+                  Busy {conflicts
+                    .map((block) => `${format(parseISO(block.startTime), 'h:mm')}-${format(parseISO(block.endTime), 'h:mm a')}`)
+                    .join(', ')}
+                </Text>
+              )}
+            </View>
+            <TouchableOpacity
+              onPress={() => remove(attendee.email)}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <Ionicons name="close-circle" size={20} color={colors.textTertiary} />
+            </TouchableOpacity>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { marginBottom: 16 },
+  inputContainer: { marginBottom: 8 },
+  results: { borderWidth: 1, borderRadius: 12, marginBottom: 8, overflow: 'hidden' },
+  resultsLoading: { padding: 12 },
+  resultRow: { flexDirection: 'row', alignItems: 'center', gap: 10, paddingHorizontal: 12, paddingVertical: 10, borderBottomWidth: StyleSheet.hairlineWidth },
+  resultName: { fontSize: 14, fontWeight: '500' },
+  resultMeta: { fontSize: 12, marginTop: 1 },
+  noResults: { fontSize: 13, padding: 12 },
+  attendeeRow: { flexDirection: 'row', alignItems: 'center', gap: 10, borderRadius: 10, paddingHorizontal: 12, paddingVertical: 10, marginBottom: 6 },
+  attendeeName: { fontSize: 14, fontWeight: '500' },
+  attendeeEmail: { fontSize: 12, marginTop: 1 },
+  conflictText: { fontSize: 12, marginTop: 2 },
+});
@@ -0,0 +1,84 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../../hooks/useTheme';
+import { Button } from '../common';
+import { formatBookingDate, formatBookingTime } from '../../utils/date';
+import type { PendingAction } from '../../services/aiTools';
+import type { ActionStatus } from '../../hooks/useAIChat';
+
+interface BookingActionCardProps {
+  action: PendingAction;
+  status: ActionStatus;
+  onConfirm: () => void;
+  onDecline: () => void;
+  disabled?: boolean;
+}
+
+/**
+ * Shows a booking change the assistant wants to make and asks the user to approve it
+ */
+export function BookingActionCard({ action, status, onConfirm, onDecline, disabled }: BookingActionCardProps) {
+  const { colors } = useTheme();
+  const isCancel = action.kind === 'cancel_booking';
+  const booking = action.booking;
+  const roomName = action.kind === 'create_booking' ? action.roomName : action.booking.room.name;
+  const accent = isCancel ? colors.error : colors.primary;
+
+  const rows: { icon: keyof typeof Ionicons.glyphMap; text: string }[] = [
+    { icon: 'business-outline', text: roomName },
+    { icon: 'calendar-outline', text: formatBookingDate(booking.startTime) },
+    { icon: 'time-outline', text: formatBookingTime(booking.startTime, booking.endTime) },
+  ];
+  if (isCancel && action.booking.recurrenceRule) {
+    rows.push({ icon: 'repeat-outline', text: 'Only this occurrence' });
+  }
+
+  return (
+    <View style={[styles.card, { backgroundColor: colors.surface, borderColor: accent }]}>
+      <View style={styles.header}>
+        <Ionicons name={isCancel ? 'close-circle-outline' : 'add-circle-outline'} size={20} color={accent} />
+        <Text style={[styles.heading, { color: accent }]}>{isCancel ? 'Cancel booking' : 'New booking'}</Text>
+      </View>
+      <Text style={[styles.title, { color: colors.text }]} numberOfLines={2}>
+        {booking.title}
+      </Text>
+      {rows.map((row) => (
+        <View key={row.icon} style={styles.row}>
+          <Ionicons name={row.icon} size={16} color={colors.textSecondary} />
+          <Text style={[styles.rowText, { color: colors.textSecondary }]}>{row.text}</Text>
+        </View>
+      ))}
+
+      {status === 'pending' ? (
+        <View style={styles.actions}>
+          <Button title="Not now" variant="outline" size="sm" onPress={onDecline} disabled={disabled} style={styles.action} />
+          <Button
+            title={isCancel ? 'Cancel it' : 'Book it'}
+            variant={isCancel ? 'destructive' : 'primary'}
+            size="sm"
+            onPress={onConfirm}
+            disabled={disabled}
+            style={styles.action}
+          />
+        </View>
+      ) : (
+        <Text style={[styles.status, { color: status === 'confirmed' ? colors.success : colors.textTertiary }]}>
+          {status === 'confirmed' ? 'Confirmed' : 'Not done'}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: { borderWidth: 1, borderRadius: 16, padding: 14, marginTop: 8, width: '85%' },
+  header: { flexDirection: 'row', alignItems: 'center', gap: 6, marginBottom: 6 },
+  heading: { fontSize: 13, fontWeight: '600', textTransform: 'uppercase' },
+  title: { fontSize: 16, fontWeight: '600', marginBottom: 8 },
+  row: { flexDirection: 'row', alignItems: 'center', gap: 8, marginBottom: 4 },
+  rowText: { fontSize: 14 },
+  actions: { flexDirection: 'row', gap: 8, marginTop: 10 },
+  action: { flex: 1 },
+  status: { fontSize: 13, fontWeight: '500', marginTop: 8 },
+});
@@ -0,0 +1,136 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { format, parseISO } from 'date-fns';
+import { useTheme } from '../../hooks/useTheme';
+import type { BusyBlock, TimeSlot } from '../../utils/availability';
+import type { Room } from '../../types';
+
+interface ConflictPanelProps {
+  isChecking: boolean;
+  isError?: boolean;
+  conflicts: BusyBlock[];
+  suggestedSlots: TimeSlot[];
+  alternativeRooms: Room[];
+  onSelectSlot: (slot: TimeSlot) => void;
+  /** Omit to hide room suggestions (e.g. when editing, the room can't change) */
+  onSelectRoom?: (room: Room) => void;
+}
+
+export function ConflictPanel({
+  isChecking,
+  isError = false,
+  conflicts,
+  suggestedSlots,
+  alternativeRooms,
+  onSelectSlot,
+  onSelectRoom,
+}: ConflictPanelProps) {
+  const { colors } = useTheme();
+
+  if (isChecking) {
+    return (
+      <View style={[styles.statusRow, { backgroundColor: colors.surfaceSecondary }]}>
+        <ActivityIndicator size="small" color={colors.primary} />
+        <Text style={[styles.statusText, { color: colors.textSecondary }]}>Checking availability...</Text>
+      </View>
+    );
+  }
+
+  if (isError) {
+    return (
+      <View style={[styles.statusRow, { backgroundColor: colors.surfaceSecondary }]}>
+        <Ionicons name="cloud-offline-outline" size={18} color={colors.textSecondary} />
+        <Text style={[styles.statusText, { color: colors.textSecondary }]}>
+          Couldn't check availability. The server will confirm when you book.
+        </Text>
+      </View>
+    );
+  }
+
+  if (conflicts.length === 0) {
+    return (
+      <View style={[styles.statusRow, { backgroundColor: colors.successLight }]}>
+        <Ionicons name="checkmark-circle" size={18} color={colors.success} />
+        <Text style={[styles.statusText, { color: colors.success }]}>Room is free at this time</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.panel, { backgroundColor: colors.errorLight, borderColor: colors.error }]}>
+      <View style={styles.headerRow}>
+        <Ionicons name="alert-circle" size={18} color={colors.error} />
+        <Text style={[styles.headerText, { color: colors.error }]}>
+          Overlaps {conflicts.length} existing booking{conflicts.length === 1 ? '' : 's'}
+        </Text>
+      </View>
+
+      {conflicts.map((block) => (
+        <View key={block.id} style={styles.conflictRow}>
+          <Text style={[styles.conflictTime, { color: colors.text }]}>
+            {format(parseISO(block.startTime), 'h:mm a')} - {format(parseISO(block.endTime), 'h:mm a')}
+          </Text>
+          <Text style={[styles.conflictTitle, { color: colors.textSecondary }]} numberOfLines={1}>
+            {block.title} • {block.bookedBy}
+          </Text>
+        </View>
+      ))}
+
+      {suggestedSlots.length > 0 && (
+        <>
+          <Text style={[styles.sectionLabel, { color: colors.text }]}>Nearest free times</Text>
+          <View style={styles.chipRow}>
+            {suggestedSlots.map((slot) => (
+              <TouchableOpacity
+                key={slot.start.toISOString()}
+                onPress={() => onSelectSlot(slot)}
+                style={[styles.chip, { backgroundColor: colors.surface, borderColor: colors.border }]}
+              >
+                <Ionicons name="time-outline" size={14} color={colors.primary} />
+                <Text style={[styles.chipText, { color: colors.text }]}>
+                  {format(slot.start, 'h:mm a')} - {format(slot.end, 'h:mm a')}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </>
+      )}
+
+      {onSelectRoom && alternativeRooms.length > 0 && (
+        <>
+          <Text style={[styles.sectionLabel, { color: colors.text }]}>Free rooms at this time</Text>
+          <View style={styles.chipRow}>
+            {alternativeRooms.map((room) => (
+              <TouchableOpacity
+                key={room.id}
+                onPress={() => onSelectRoom(room)}
+                style={[styles.chip, { backgroundColor: colors.surface, borderColor: colors.border }]}
+              >
+                <Ionicons name="business-outline" size={14} color={colors.primary} />
+                <Text style={[styles.chipText, { color: colors.text }]}>
+                  {room.name} ({room.capacity})
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  statusRow: { flexDirection: 'row', alignItems: 'center', gap: 8, borderRadius: 12, padding: 12, marginBottom: 16 },
+  statusText: { flex: 1, fontSize: 13, fontWeight: '500' },
+  panel: { borderWidth: 1, borderRadius: 12, padding: 12, marginBottom: 16 },
+  headerRow: { flexDirection: 'row', alignItems: 'center', gap: 8, marginBottom: 8 },
+  headerText: { fontSize: 14, fontWeight: '600' },
+  conflictRow: { paddingVertical: 4, paddingLeft: 26 },
+  conflictTime: { fontSize: 13, fontWeight: '600' },
+  conflictTitle: { fontSize: 12, marginTop: 1 },
+  sectionLabel: { fontSize: 13, fontWeight: '600', marginTop: 12, marginBottom: 8 },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  chip: { flexDirection: 'row', alignItems: 'center', gap: 6, borderWidth: 1, borderRadius: 20, paddingHorizontal: 12, paddingVertical: 7 },
+  chipText: { fontSize: 13, fontWeight: '500' },
+});
@@ -0,0 +1,102 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../../hooks/useTheme';
+import { Button, Card } from '../common';
+import type { Booking } from '../../types';
+import { EXTEND_MINUTES, type BriefingActionKind, type BriefingNote } from '../../utils/dailyBriefing';
+
+interface DailyBriefingCardProps {
+  summary: string;
+  isAISummary: boolean;
+  isSummarizing: boolean;
+  notes: BriefingNote[];
+  onAction: (note: BriefingNote, kind: BriefingActionKind) => void;
+  onOpenBooking: (booking: Booking) => void;
+  /** An action is already running */
+  busy?: boolean;
+}
+
+const ACTION_LABELS: Record<BriefingActionKind, string> = {
+  check_in: 'Check in',
+  extend: `Extend ${EXTEND_MINUTES} min`,
+  find_room: 'Find nearby room',
+  cancel: 'Cancel',
+};
+
+const NOTE_ICONS: Record<BriefingNote['kind'], keyof typeof Ionicons.glyphMap> = {
+  not_checked_in: 'log-in-outline',
+  overlap: 'warning-outline',
+  building_change: 'walk-outline',
+  back_to_back: 'swap-horizontal-outline',
+  gap: 'cafe-outline',
+};
+
+/**
+ * The assistant's overview of today, with one-tap fixes for anything that needs attention
+ */
+export function DailyBriefingCard({
+  summary,
+  isAISummary,
+  isSummarizing,
+  notes,
+  onAction,
+  onOpenBooking,
+  busy,
+}: DailyBriefingCardProps) {
+  const { colors } = useTheme();
+
+  return (
+    <Card style={styles.card} variant="outlined">
+      <View style={styles.header}>
+        <Ionicons name="sparkles-outline" size={18} color={colors.accent} />
+        <Text style={[styles.heading, { color: colors.text }]}>Your Day</Text>
+        {isSummarizing ? (
+          <ActivityIndicator size="small" color={colors.textTertiary} />
+        ) : (
+          <Text style={[styles.source, { color: colors.textTertiary }]}>{isAISummary ? 'Assistant' : 'Schedule'}</Text>
+        )}
+      </View>
+      <Text style={[styles.summary, { color: colors.textSecondary }]}>{summary}</Text>
+
+      {notes.map((note, index) => (
+        <View key={`${note.kind}-${note.booking.id}-${index}`} style={[styles.note, { borderTopColor: colors.border }]}>
+          <TouchableOpacity style={styles.noteRow} onPress={() => onOpenBooking(note.booking)} activeOpacity={0.7}>
+            <Ionicons
+              name={NOTE_ICONS[note.kind]}
+              size={16}
+              color={note.kind === 'overlap' || note.kind === 'not_checked_in' ? colors.warning : colors.primary}
+            />
+            <Text style={[styles.noteText, { color: colors.text }]}>{note.text}</Text>
+          </TouchableOpacity>
+          {note.actions.length > 0 && (
+            <View style={styles.actions}>
+              {note.actions.map((kind) => (
+                <Button
+                  key={kind}
+                  title={ACTION_LABELS[kind]}
+                  variant={kind === 'cancel' ? 'ghost' : 'outline'}
+                  size="sm"
+                  onPress={() => onAction(note, kind)}
+                  disabled={busy}
+                />
+              ))}
+            </View>
+          )}
+        </View>
+      ))}
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: { marginHorizontal: 16, marginBottom: 24 },
+  header: { flexDirection: 'row', alignItems: 'center', gap: 8, marginBottom: 8 },
+  heading: { flex: 1, fontSize: 16, fontWeight: '600' },
+  source: { fontSize: 12 },
+  summary: { fontSize: 14, lineHeight: 20 },
+  note: { borderTopWidth: StyleSheet.hairlineWidth, marginTop: 12, paddingTop: 12 },
+  noteRow: { flexDirection: 'row', alignItems: 'flex-start', gap: 8 },
+  noteText: { flex: 1, fontSize: 14, lineHeight: 20 },
+  actions: { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginTop: 8, marginLeft: 24 },
+});
@@ -0,0 +1,57 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { useTheme } from '../../hooks/useTheme';
+import { alertExtendResult, useExtendMeeting } from '../../hooks/useExtendMeeting';
+import { EXTEND_OPTIONS } from '../../utils/extendMeeting';
+import type { Booking, Room } from '../../types';
+
+interface ExtendMeetingActionsProps {
+  booking: Booking;
+  /** Opens a booking for the overrun in another room */
+  onMoveToRoom: (room: Room, startTime: string, endTime: string) => void;
+  /** White pills for use on a coloured banner */
+  onBanner?: boolean;
+}
+
+/**
+ * "+15 / +30 / +60 min" buttons that extend a meeting when its room is free
+ * afterwards, and otherwise offer a free room nearby for the extra time
+ */
+export function ExtendMeetingActions({ booking, onMoveToRoom, onBanner = false }: ExtendMeetingActionsProps) {
+  const { colors } = useTheme();
+  const extend = useExtendMeeting();
+
+  const handleExtend = (minutes: number) => {
+    extend.mutate({ booking, minutes }, { onSuccess: (result) => alertExtendResult(booking, minutes, result, onMoveToRoom) });
+  };
+
+  const pillColor = onBanner ? 'rgba(255,255,255,0.2)' : colors.primaryLight;
+  const textColor = onBanner ? '#FFF' : colors.primary;
+
+  return (
+    <View style={styles.row}>
+      <Text style={[styles.label, { color: onBanner ? 'rgba(255,255,255,0.8)' : colors.textSecondary }]}>Extend</Text>
+      {EXTEND_OPTIONS.map((minutes) => (
+        <TouchableOpacity
+          key={minutes}
+          style={[styles.pill, { backgroundColor: pillColor }]}
+          onPress={() => handleExtend(minutes)}
+          disabled={extend.isPending}
+        >
+          {extend.isPending && extend.variables?.minutes === minutes ? (
+            <ActivityIndicator size="small" color={textColor} />
+          ) : (
+            <Text style={[styles.pillText, { color: textColor }]}>+{minutes} min</Text>
+          )}
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  label: { fontSize: 13, fontWeight: '500', marginRight: 2 },
+  pill: { flex: 1, alignItems: 'center', paddingVertical: 8, borderRadius: 16, minHeight: 34, justifyContent: 'center' },
+  pillText: { fontSize: 13, fontWeight: '600' },
+});
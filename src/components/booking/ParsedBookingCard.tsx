@@ -0,0 +1,28 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../../hooks/useTheme';
+import { summarizeParsedBooking, type ParsedBooking } from '../../utils/parsedBooking';
+
+interface ParsedBookingCardProps {
+  booking: ParsedBooking;
+}
+
+/**
+ * Readable version of a booking request the assistant replied with as JSON
+ */
+export function ParsedBookingCard({ booking }: ParsedBookingCardProps) {
+  const { colors } = useTheme();
+
+  return (
+    <View style={[styles.card, { backgroundColor: colors.surfaceSecondary }]}>
+      <Ionicons name="sparkles-outline" size={18} color={colors.primary} />
+      <Text style={[styles.summary, { color: colors.text }]}>{summarizeParsedBooking(booking)}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: { flexDirection: 'row', gap: 10, maxWidth: '85%', padding: 14, borderRadius: 16, marginTop: 6 },
+  summary: { flex: 1, fontSize: 15, lineHeight: 21 },
+});
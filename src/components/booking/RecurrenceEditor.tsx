@@ -0,0 +1,351 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Platform } from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { Ionicons } from '@expo/vector-icons';
+import { addMonths, format } from 'date-fns';
+import { useTheme } from '../../hooks/useTheme';
+import {
+  WEEKDAYS,
+  WEEKDAY_LABELS,
+  describeNthWeekday,
+  describeRecurrence,
+  expandRecurrence,
+  formatExDate,
+  isLastWeekdayOfMonth,
+  nthWeekdayOf,
+  weekdayOf,
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+  type Weekday,
+} from '../../utils/recurrence';
+
+interface RecurrenceEditorProps {
+  value: RecurrenceRule | null;
+  onChange: (rule: RecurrenceRule | null) => void;
+  /** Start of the first occurrence (date and time) */
+  startDate: Date;
+}
+
+type EndMode = 'never' | 'until' | 'count';
+
+const FREQUENCY_OPTIONS: { value: RecurrenceFrequency | 'NONE'; label: string }[] = [
+  { value: 'NONE', label: 'Never' },
+  { value: 'DAILY', label: 'Daily' },
+  { value: 'WEEKLY', label: 'Weekly' },
+  { value: 'MONTHLY', label: 'Monthly' },
+];
+
+const UNIT_LABELS: Record<RecurrenceFrequency, string> = {
+  DAILY: 'day',
+  WEEKLY: 'week',
+  MONTHLY: 'month',
+};
+
+const WORKWEEK: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR'];
+
+const PREVIEW_LIMIT = 12;
+
+export function RecurrenceEditor({ value, onChange, startDate }: RecurrenceEditorProps) {
+  const { colors } = useTheme();
+  const [showUntilPicker, setShowUntilPicker] = useState(false);
+
+  const endMode: EndMode = value?.count ? 'count' : value?.until ? 'until' : 'never';
+
+  const preview = useMemo(
+    () => (value ? expandRecurrence(value, startDate, { limit: PREVIEW_LIMIT, includeExcluded: true }) : []),
+    [value, startDate]
+  );
+
+  const totalOccurrences = useMemo(
+    () => (value && endMode !== 'never' ? expandRecurrence(value, startDate, { limit: 500 }).length : null),
+    [value, startDate, endMode]
+  );
+
+  const update = (changes: Partial<RecurrenceRule>) => {
+    if (!value) return;
+    onChange({ ...value, ...changes });
+  };
+
+  const selectFrequency = (freq: RecurrenceFrequency | 'NONE') => {
+    if (freq === 'NONE') {
+      onChange(null);
+      return;
+    }
+    onChange({
+      freq,
+      interval: 1,
+      byDay: freq === 'WEEKLY' ? [{ weekday: weekdayOf(startDate) }] : [],
+      until: value?.until,
+      count: value?.count,
+      exDates: [],
+    });
+  };
+
+  const toggleWeekday = (weekday: Weekday) => {
+    if (!value) return;
+    const selected = value.byDay.some((d) => d.weekday === weekday);
+    const byDay = selected
+      ? value.byDay.filter((d) => d.weekday !== weekday)
+      : [...value.byDay, { weekday }];
+    // A weekly rule always needs at least one day
+    if (byDay.length === 0) return;
+    update({ byDay });
+  };
+
+  const setEndMode = (mode: EndMode) => {
+    if (mode === 'never') update({ until: undefined, count: undefined });
+    if (mode === 'until') update({ until: addMonths(startDate, 3), count: undefined });
+    if (mode === 'count') update({ until: undefined, count: 10 });
+  };
+
+  const toggleException = (occurrence: Date) => {
+    if (!value) return;
+    const key = formatExDate(occurrence);
+    update({
+      exDates: value.exDates.includes(key)
+        ? value.exDates.filter((d) => d !== key)
+        : [...value.exDates, key],
+    });
+  };
+
+  const renderChip = (label: string, selected: boolean, onPress: () => void, key?: string) => (
+    <TouchableOpacity
+      key={key ?? label}
+      onPress={onPress}
+      style={[
+        styles.chip,
+        {
+          backgroundColor: selected ? colors.primaryLight : colors.surfaceSecondary,
+          borderColor: selected ? colors.primary : 'transparent',
+        },
+      ]}
+    >
+      <Text style={[styles.chipText, { color: selected ? colors.primary : colors.textSecondary }]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderStepper = (amount: number, min: number, onStep: (next: number) => void, suffix: string) => (
+    <View style={styles.stepperRow}>
+      <TouchableOpacity
+        onPress={() => onStep(Math.max(min, amount - 1))}
+        style={[styles.stepperButton, { borderColor: colors.border }]}
+      >
+        <Ionicons name="remove" size={16} color={colors.text} />
+      </TouchableOpacity>
+      <Text style={[styles.stepperValue, { color: colors.text }]}>{amount}</Text>
+      <TouchableOpacity
+        onPress={() => onStep(amount + 1)}
+        style={[styles.stepperButton, { borderColor: colors.border }]}
+      >
+        <Ionicons name="add" size={16} color={colors.text} />
+      </TouchableOpacity>
+      <Text style={[styles.stepperSuffix, { color: colors.textSecondary }]}>{suffix}</Text>
+    </View>
+  );
+
+  const nth = nthWeekdayOf(startDate);
+  const weekday = weekdayOf(startDate);
+  const isLastWeek = isLastWeekdayOfMonth(startDate);
+  const monthlyByWeekday = value?.freq === 'MONTHLY' && value.byDay.length > 0;
+  const isWorkweek =
+    value?.byDay.length === WORKWEEK.length && WORKWEEK.every((w) => value.byDay.some((d) => d.weekday === w));
+
+  return (
+    <View>
+      <View style={styles.chipRow}>
+        {FREQUENCY_OPTIONS.map((option) =>
+          renderChip(
+            option.label,
+            (value?.freq ?? 'NONE') === option.value,
+            () => selectFrequency(option.value),
+            option.value
+          )
+        )}
+      </View>
+
+      {value && (
+        <View style={[styles.panel, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+          {/* Interval */}
+          <Text style={[styles.panelLabel, { color: colors.textSecondary }]}>Repeat every</Text>
+          {renderStepper(
+            value.interval,
+            1,
+            (interval) => update({ interval }),
+            `${UNIT_LABELS[value.freq]}${value.interval === 1 ? '' : 's'}`
+          )}
+
+          {/* Daily: weekdays only */}
+          {value.freq === 'DAILY' && (
+            <TouchableOpacity
+              onPress={() => update({ byDay: isWorkweek ? [] : WORKWEEK.map((w) => ({ weekday: w })) })}
+              style={styles.checkboxRow}
+            >
+              <Ionicons
+                name={isWorkweek ? 'checkbox' : 'square-outline'}
+                size={20}
+                color={isWorkweek ? colors.primary : colors.textTertiary}
+              />
+              <Text style={[styles.checkboxText, { color: colors.text }]}>Weekdays only</Text>
+            </TouchableOpacity>
+          )}
+
+          {/* Weekly: day selection */}
+          {value.freq === 'WEEKLY' && (
+            <>
+              <Text style={[styles.panelLabel, { color: colors.textSecondary }]}>On</Text>
+              <View style={styles.weekdayRow}>
+                {WEEKDAYS.map((w) => {
+                  const selected = value.byDay.some((d) => d.weekday === w);
+                  return (
+                    <TouchableOpacity
+                      key={w}
+                      onPress={() => toggleWeekday(w)}
+                      style={[
+                        styles.weekdayButton,
+                        { backgroundColor: selected ? colors.primary : colors.surfaceSecondary },
+                      ]}
+                    >
+                      <Text style={[styles.weekdayText, { color: selected ? '#FFF' : colors.textSecondary }]}>
+                        {WEEKDAY_LABELS[w].short[0]}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </>
+          )}
+
+          {/* Monthly: day of month or nth weekday */}
+          {value.freq === 'MONTHLY' && (
+            <>
+              <Text style={[styles.panelLabel, { color: colors.textSecondary }]}>On</Text>
+              <View style={styles.chipRow}>
+                {renderChip(`Day ${startDate.getDate()}`, !monthlyByWeekday, () =>
+                  update({ byDay: [], byMonthDay: undefined })
+                )}
+                {nth <= 4 &&
+                  renderChip(
+                    describeNthWeekday(nth, weekday),
+                    monthlyByWeekday && value.byDay[0].nth === nth,
+                    () => update({ byDay: [{ weekday, nth }], byMonthDay: undefined })
+                  )}
+                {isLastWeek &&
+                  renderChip(
+                    describeNthWeekday(-1, weekday),
+                    monthlyByWeekday && value.byDay[0].nth === -1,
+                    () => update({ byDay: [{ weekday, nth: -1 }], byMonthDay: undefined })
+                  )}
+              </View>
+            </>
+          )}
+
+          {/* End condition */}
+          <Text style={[styles.panelLabel, { color: colors.textSecondary }]}>Ends</Text>
+          <View style={styles.chipRow}>
+            {renderChip('Never', endMode === 'never', () => setEndMode('never'))}
+            {renderChip('On date', endMode === 'until', () => setEndMode('until'))}
+            {renderChip('After', endMode === 'count', () => setEndMode('count'))}
+          </View>
+
+          {endMode === 'until' && value.until && (
+            <>
+              <TouchableOpacity
+                onPress={() => setShowUntilPicker(true)}
+                style={[styles.untilButton, { borderColor: colors.border }]}
+              >
+                <Ionicons name="calendar-outline" size={16} color={colors.primary} />
+                <Text style={[styles.untilText, { color: colors.text }]}>
+                  {format(value.until, 'EEE, MMM d, yyyy')}
+                </Text>
+              </TouchableOpacity>
+              {showUntilPicker && (
+                <DateTimePicker
+                  value={value.until}
+                  mode="date"
+                  display={Platform.OS === 'ios' ? 'inline' : 'default'}
+                  minimumDate={startDate}
+                  onChange={(_, date) => {
+                    setShowUntilPicker(Platform.OS === 'ios');
+                    if (date) update({ until: date });
+                  }}
+                />
+              )}
+            </>
+          )}
+
+          {endMode === 'count' &&
+            renderStepper(value.count ?? 1, 1, (count) => update({ count }), 'occurrences')}
+
+          {/* Preview */}
+          <View style={[styles.previewHeader, { borderTopColor: colors.border }]}>
+            <Ionicons name="repeat-outline" size={16} color={colors.primary} />
+            <Text style={[styles.summaryText, { color: colors.text }]}>
+              {describeRecurrence(value, startDate)}
+            </Text>
+          </View>
+          <Text style={[styles.previewHint, { color: colors.textTertiary }]}>
+            {totalOccurrences !== null
+              ? `${totalOccurrences} booking${totalOccurrences === 1 ? '' : 's'} will be created. `
+              : 'Repeats with no end date. '}
+            Tap a date to skip it.
+          </Text>
+          {preview.map((occurrence) => {
+            const skipped = value.exDates.includes(formatExDate(occurrence));
+            return (
+              <TouchableOpacity
+                key={occurrence.toISOString()}
+                onPress={() => toggleException(occurrence)}
+                style={styles.occurrenceRow}
+              >
+                <Ionicons
+                  name={skipped ? 'close-circle-outline' : 'checkmark-circle-outline'}
+                  size={16}
+                  color={skipped ? colors.textTertiary : colors.success}
+                />
+                <Text
+                  style={[
+                    styles.occurrenceText,
+                    { color: skipped ? colors.textTertiary : colors.text },
+                    skipped && styles.occurrenceSkipped,
+                  ]}
+                >
+                  {format(occurrence, 'EEE, MMM d, yyyy • h:mm a')}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+          {preview.length >= PREVIEW_LIMIT && (
+            <Text style={[styles.previewHint, { color: colors.textTertiary }]}>…and more</Text>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  chip: { paddingHorizontal: 14, paddingVertical: 8, borderRadius: 20, borderWidth: 1.5 },
+  chipText: { fontSize: 13, fontWeight: '500' },
+  panel: { marginTop: 12, borderWidth: 1, borderRadius: 12, padding: 14 },
+  panelLabel: { fontSize: 12, fontWeight: '600', marginTop: 12, marginBottom: 8, textTransform: 'uppercase' },
+  stepperRow: { flexDirection: 'row', alignItems: 'center', gap: 10 },
+  stepperButton: { width: 32, height: 32, borderRadius: 8, borderWidth: 1, justifyContent: 'center', alignItems: 'center' },
+  stepperValue: { fontSize: 16, fontWeight: '600', minWidth: 24, textAlign: 'center' },
+  stepperSuffix: { fontSize: 14 },
+  checkboxRow: { flexDirection: 'row', alignItems: 'center', gap: 8, marginTop: 12 },
+  checkboxText: { fontSize: 14 },
+  weekdayRow: { flexDirection: 'row', justifyContent: 'space-between' },
+  weekdayButton: { width: 36, height: 36, borderRadius: 18, justifyContent: 'center', alignItems: 'center' },
+  weekdayText: { fontSize: 13, fontWeight: '600' },
+  untilButton: { flexDirection: 'row', alignItems: 'center', gap: 8, borderWidth: 1, borderRadius: 10, padding: 10, marginTop: 10 },
+  untilText: { fontSize: 14, fontWeight: '500' },
+  previewHeader: { flexDirection: 'row', alignItems: 'center', gap: 8, borderTopWidth: 1, marginTop: 16, paddingTop: 12 },
+  summaryText: { flex: 1, fontSize: 14, fontWeight: '600' },
+  previewHint: { fontSize: 12, marginTop: 4, marginBottom: 6 },
+  occurrenceRow: { flexDirection: 'row', alignItems: 'center', gap: 8, paddingVertical: 5 },
+  occurrenceText: { fontSize: 13 },
+  occurrenceSkipped: { textDecorationLine: 'line-through' },
+});
@@ -0,0 +1,75 @@
+import React from 'react';
+import { View, Text, Modal, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../../hooks/useTheme';
+import type { SeriesScope } from '../../services/bookings';
+
+interface SeriesScopeModalProps {
+  visible: boolean;
+  title: string;
+  message?: string;
+  /** Style the options as a destructive action (e.g. cancelling) */
+  destructive?: boolean;
+  onSelect: (scope: SeriesScope) => void;
+  onClose: () => void;
+}
+
+const SCOPE_OPTIONS: { value: SeriesScope; label: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { value: 'this', label: 'This occurrence', icon: 'ellipse-outline' },
+  { value: 'following', label: 'This and following', icon: 'play-forward-outline' },
+  { value: 'all', label: 'Whole series', icon: 'repeat-outline' },
+];
+
+export function SeriesScopeModal({
+  visible,
+  title,
+  message,
+  destructive = false,
+  onSelect,
+  onClose,
+}: SeriesScopeModalProps) {
+  const { colors } = useTheme();
+  const accent = destructive ? colors.error : colors.primary;
+
+  return (
+    <Modal visible={visible} animationType="fade" transparent onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={[styles.content, { backgroundColor: colors.background }]}>
+          <Text style={[styles.title, { color: colors.text }]}>{title}</Text>
+          {message && (
+            <Text style={[styles.message, { color: colors.textSecondary }]}>{message}</Text>
+          )}
+
+          {SCOPE_OPTIONS.map((option) => (
+            <TouchableOpacity
+              key={option.value}
+              onPress={() => onSelect(option.value)}
+              style={[styles.option, { borderColor: colors.border }]}
+            >
+              <Ionicons name={option.icon} size={18} color={accent} />
+              <Text style={[styles.optionText, { color: accent }]}>{option.label}</Text>
+            </TouchableOpacity>
+          ))}
+
+          <TouchableOpacity
+            onPress={onClose}
+            style={[styles.closeButton, { backgroundColor: colors.surfaceSecondary }]}
+          >
+            <Text style={[styles.closeText, { color: colors.text }]}>Go back</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: { flex: 1, backgroundColor: 'rgba(0,0,0,0.5)', justifyContent: 'center', alignItems: 'center', padding: 20 },
+  content: { width: '100%', maxWidth: 400, borderRadius: 16, padding: 24 },
+  title: { fontSize: 20, fontWeight: '700', marginBottom: 8 },
+  message: { fontSize: 14, lineHeight: 20, marginBottom: 16 },
+  option: { flexDirection: 'row', alignItems: 'center', gap: 10, borderWidth: 1, borderRadius: 12, padding: 14, marginBottom: 10 },
+  optionText: { fontSize: 15, fontWeight: '600' },
+  closeButton: { paddingVertical: 14, borderRadius: 12, alignItems: 'center', marginTop: 6 },
+  closeText: { fontSize: 16, fontWeight: '600' },
+});
@@ -0,0 +1,42 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../../hooks/useTheme';
+import { useIsOnline, useOfflineQueue } from '../../hooks/useOffline';
+import { formatRelativeTime } from '../../utils/date';
+
+interface OfflineBannerProps {
+  /** When the data on screen was last fetched (a query's dataUpdatedAt) */
+  updatedAt?: number;
+}
+
+export function OfflineBanner({ updatedAt }: OfflineBannerProps) {
+  const { colors } = useTheme();
+  const isOnline = useIsOnline();
+  const queued = useOfflineQueue();
+
+  if (isOnline && queued.length === 0) return null;
+
+  const pending = queued.length > 0
+    ? `${queued.length} change${queued.length === 1 ? '' : 's'} waiting to sync`
+    : null;
+  const stale = !isOnline
+    ? updatedAt
+      ? `Offline • showing data from ${formatRelativeTime(new Date(updatedAt).toISOString())}`
+      : 'Offline • showing saved data'
+    : null;
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.warningLight }]}>
+      <Ionicons name={isOnline ? 'sync-outline' : 'cloud-offline-outline'} size={16} color={colors.warning} />
+      <Text style={[styles.text, { color: colors.warning }]} numberOfLines={2}>
+        {[stale, pending].filter(Boolean).join('\n')}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flexDirection: 'row', alignItems: 'center', gap: 8, marginHorizontal: 16, marginBottom: 8, paddingHorizontal: 12, paddingVertical: 8, borderRadius: 10 },
+  text: { flex: 1, fontSize: 13, fontWeight: '500' },
+});
@@ -2,7 +2,7 @@ import React from 'react';
 import { View, Text, ViewStyle } from 'react-native';
 import { useTheme } from '../../hooks/useTheme';
 
-type StatusType = 'CONFIRMED' | 'CANCELLED' | 'PENDING' | 'WAITING' | 'NOTIFIED' | 'BOOKED' | 'EXPIRED' | 'ACTIVE' | 'INACTIVE';
+type StatusType = 'CONFIRMED' | 'CANCELLED' | 'PENDING' | 'REJECTED' | 'NO_SHOW' | 'WAITING' | 'NOTIFIED' | 'BOOKED' | 'EXPIRED' | 'ACTIVE' | 'INACTIVE';
 
 interface StatusBadgeProps {
   status: StatusType;
@@ -22,6 +22,7 @@ export function StatusBadge({ status, size = 'md', showIcon = false }: StatusBad
           icon: 'checkmark-circle'
         };
       case 'CANCELLED':
+      case 'REJECTED':
         return {
           bg: isDark ? colors.destructiveLight : '#FEF2F2',
           text: colors.statusCancelled,
@@ -47,6 +48,7 @@ export function StatusBadge({ status, size = 'md', showIcon = false }: StatusBad
           icon: 'checkmark-done'
         };
       case 'EXPIRED':
+      case 'NO_SHOW':
         return {
           bg: isDark ? '#1f1f1f' : '#F3F4F6',
           text: colors.textTertiary,
@@ -82,6 +84,8 @@ export function StatusBadge({ status, size = 'md', showIcon = false }: StatusBad
       case 'CONFIRMED': return 'Confirmed';
       case 'CANCELLED': return 'Cancelled';
       case 'PENDING': return 'Pending';
+      case 'REJECTED': return 'Rejected';
+      case 'NO_SHOW': return 'No-show';
       case 'WAITING': return 'Waiting';
       case 'NOTIFIED': return 'Available';
       case 'BOOKED': return 'Booked';
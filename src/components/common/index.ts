@@ -7,3 +7,4 @@ export { ErrorBoundary } from './ErrorBoundary';
 export { Header } from './Header';
 export { EmptyState } from './EmptyState';
 export { ErrorState } from './ErrorState';
+export { OfflineBanner } from './OfflineBanner';
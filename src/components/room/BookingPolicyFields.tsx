@@ -0,0 +1,66 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Input } from '../common';
+import type { PolicyFormValues } from '../../utils/bookingPolicy';
+
+interface BookingPolicyFieldsProps {
+  values: PolicyFormValues;
+  errors?: Partial<PolicyFormValues>;
+  onChange: (values: PolicyFormValues) => void;
+  /** Shown in blank fields, e.g. the campus defaults a room falls back to */
+  placeholders?: Partial<PolicyFormValues>;
+}
+
+/**
+ * Inputs for a room or campus booking policy; blank fields don't limit
+ */
+export function BookingPolicyFields({ values, errors = {}, onChange, placeholders = {} }: BookingPolicyFieldsProps) {
+  const field = (key: keyof PolicyFormValues) => ({
+    value: values[key],
+    onChangeText: (text: string) => onChange({ ...values, [key]: text.replace(/[^0-9]/g, '') }),
+    error: errors[key],
+    placeholder: placeholders[key] || 'No limit',
+    keyboardType: 'number-pad' as const,
+    maxLength: 4,
+  });
+
+  return (
+    <View>
+      <View style={styles.row}>
+        <Input label="Max length (min)" leftIcon="hourglass-outline" containerStyle={styles.half} {...field('maxDurationMinutes')} />
+        <Input label="Days ahead" leftIcon="calendar-outline" containerStyle={styles.half} {...field('maxAdvanceDays')} />
+      </View>
+      <View style={styles.row}>
+        <Input label="Opens (hour)" leftIcon="sunny-outline" containerStyle={styles.half} {...field('openHour')} />
+        <Input label="Closes (hour)" leftIcon="moon-outline" containerStyle={styles.half} {...field('closeHour')} />
+      </View>
+      <View style={styles.row}>
+        <Input
+          label="Setup (min)"
+          leftIcon="construct-outline"
+          containerStyle={styles.half}
+          {...field('bufferBeforeMinutes')}
+          placeholder={placeholders.bufferBeforeMinutes || '0'}
+        />
+        <Input
+          label="Teardown (min)"
+          leftIcon="refresh-outline"
+          containerStyle={styles.half}
+          {...field('bufferAfterMinutes')}
+          placeholder={placeholders.bufferAfterMinutes || '0'}
+        />
+      </View>
+      <Input
+        label="Check-in grace (min)"
+        leftIcon="log-in-outline"
+        {...field('checkInGraceMinutes')}
+        placeholder={placeholders.checkInGraceMinutes || 'Never release'}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: { flexDirection: 'row', gap: 12 },
+  half: { flex: 1 },
+});
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -7,8 +7,12 @@ import {
   TouchableOpacity,
   ScrollView,
   TextInput,
+  Switch,
+  Platform,
 } from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
 import { Ionicons } from '@expo/vector-icons';
+import { format, parseISO } from 'date-fns';
 import { useTheme } from '../../hooks/useTheme';
 import { Button } from '../common';
 import { config } from '../../constants/config';
@@ -18,6 +22,27 @@ export interface RoomFilterValues {
   building?: string;
   floor?: string;
   amenities?: string[];
+  /** Only show rooms free for this whole window */
+  timeWindow?: RoomTimeWindow;
+}
+
+export interface RoomTimeWindow {
+  /** ISO start of the window */
+  start: string;
+  durationMinutes: number;
+}
+
+const DURATION_OPTIONS = [30, 60, 90, 120];
+
+function defaultWindowStart(): Date {
+  const start = new Date();
+  start.setHours(start.getHours() + 1, 0, 0, 0);
+  return start;
+}
+
+function formatDuration(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  return minutes % 60 === 0 ? `${minutes / 60} hr` : `${Math.floor(minutes / 60)} hr ${minutes % 60} min`;
 }
 
 interface RoomFilterModalProps {
@@ -42,6 +67,39 @@ export function RoomFilterModal({
   const [selectedAmenities, setSelectedAmenities] = useState<string[]>(
     initialFilters.amenities || []
   );
+  const [findFree, setFindFree] = useState(!!initialFilters.timeWindow);
+  const [windowStart, setWindowStart] = useState(() =>
+    initialFilters.timeWindow ? parseISO(initialFilters.timeWindow.start) : defaultWindowStart()
+  );
+  const [duration, setDuration] = useState(initialFilters.timeWindow?.durationMinutes || 60);
+  const [showDatePicker, setShowDatePicker] = useState(false);
+  const [showTimePicker, setShowTimePicker] = useState(false);
+
+  // Filters can also change outside the modal (e.g. clearing the time window banner)
+  useEffect(() => {
+    if (!visible) return;
+    setCapacity(initialFilters.capacity?.toString() || '');
+    setBuilding(initialFilters.building || '');
+    setFloor(initialFilters.floor || '');
+    setSelectedAmenities(initialFilters.amenities || []);
+    setFindFree(!!initialFilters.timeWindow);
+    if (initialFilters.timeWindow) {
+      setWindowStart(parseISO(initialFilters.timeWindow.start));
+      setDuration(initialFilters.timeWindow.durationMinutes);
+    }
+  }, [visible]);
+
+  const updateWindowDate = (date: Date) => {
+    const next = new Date(date);
+    next.setHours(windowStart.getHours(), windowStart.getMinutes(), 0, 0);
+    setWindowStart(next);
+  };
+
+  const updateWindowTime = (time: Date) => {
+    const next = new Date(windowStart);
+    next.setHours(time.getHours(), time.getMinutes(), 0, 0);
+    setWindowStart(next);
+  };
 
   const toggleAmenity = (amenity: string) => {
     setSelectedAmenities((prev) =>
@@ -57,6 +115,9 @@ export function RoomFilterModal({
     if (building.trim()) filters.building = building.trim();
     if (floor.trim()) filters.floor = floor.trim();
     if (selectedAmenities.length > 0) filters.amenities = selectedAmenities;
+    if (findFree) {
+      filters.timeWindow = { start: windowStart.toISOString(), durationMinutes: duration };
+    }
     onApply(filters);
     onClose();
   };
@@ -66,6 +127,9 @@ export function RoomFilterModal({
     setBuilding('');
     setFloor('');
     setSelectedAmenities([]);
+    setFindFree(false);
+    setWindowStart(defaultWindowStart());
+    setDuration(60);
     onApply({});
     onClose();
   };
@@ -87,6 +151,106 @@ export function RoomFilterModal({
         </View>
 
         <ScrollView contentContainerStyle={styles.content}>
+          {/* Time Window */}
+          <View style={styles.section}>
+            <View style={styles.switchRow}>
+              <View style={{ flex: 1 }}>
+                <Text style={[styles.sectionTitle, { color: colors.text, marginBottom: 2 }]}>
+                  Find me a room
+                </Text>
+                <Text style={[styles.hintText, { color: colors.textSecondary }]}>
+                  Only show rooms free for the whole time
+                </Text>
+              </View>
+              <Switch
+                value={findFree}
+                onValueChange={setFindFree}
+                trackColor={{ false: colors.border, true: colors.primary }}
+              />
+            </View>
+
+            {findFree && (
+              <>
+                <View style={styles.windowRow}>
+                  <TouchableOpacity
+                    onPress={() => setShowDatePicker(true)}
+                    style={[styles.inputContainer, styles.windowButton, { borderColor: colors.border, backgroundColor: colors.surface }]}
+                  >
+                    <Ionicons name="calendar-outline" size={18} color={colors.primary} />
+                    <Text style={[styles.windowText, { color: colors.text }]}>
+                      {format(windowStart, 'EEE, MMM d')}
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => setShowTimePicker(true)}
+                    style={[styles.inputContainer, styles.windowButton, { borderColor: colors.border, backgroundColor: colors.surface }]}
+                  >
+                    <Ionicons name="time-outline" size={18} color={colors.primary} />
+                    <Text style={[styles.windowText, { color: colors.text }]}>
+                      {format(windowStart, 'h:mm a')}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+                {showDatePicker && (
+                  <DateTimePicker
+                    value={windowStart}
+                    mode="date"
+                    display={Platform.OS === 'ios' ? 'inline' : 'default'}
+                    minimumDate={new Date()}
+                    onChange={(_, date) => {
+                      setShowDatePicker(Platform.OS === 'ios');
+                      if (date) updateWindowDate(date);
+                    }}
+                  />
+                )}
+                {showTimePicker && (
+                  <DateTimePicker
+                    value={windowStart}
+                    mode="time"
+                    display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                    minuteInterval={15}
+                    onChange={(_, time) => {
+                      setShowTimePicker(Platform.OS === 'ios');
+                      if (time) updateWindowTime(time);
+                    }}
+                  />
+                )}
+
+                <View style={styles.amenitiesGrid}>
+                  {DURATION_OPTIONS.map((minutes) => {
+                    const isSelected = duration === minutes;
+                    return (
+                      <TouchableOpacity
+                        key={minutes}
+                        onPress={() => setDuration(minutes)}
+                        style={[
+                          styles.amenityChip,
+                          {
+                            backgroundColor: isSelected ? colors.primaryLight : colors.surfaceSecondary,
+                            borderColor: isSelected ? colors.primary : 'transparent',
+                            borderWidth: isSelected ? 1.5 : 0,
+                          },
+                        ]}
+                      >
+                        <Text
+                          style={[
+                            styles.amenityChipText,
+                            { color: isSelected ? colors.primary : colors.textSecondary },
+                          ]}
+                        >
+                          {formatDuration(minutes)}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+                <Text style={[styles.hintText, { color: colors.textSecondary, marginTop: 10 }]}>
+                  Results are ranked by fit: favorites, closest capacity, then matching amenities.
+                </Text>
+              </>
+            )}
+          </View>
+
           {/* Capacity */}
           <View style={styles.section}>
             <Text style={[styles.sectionTitle, { color: colors.text }]}>
@@ -237,6 +401,11 @@ const styles = StyleSheet.create({
     gap: 8,
   },
   input: { flex: 1, paddingVertical: 12, fontSize: 16 },
+  switchRow: { flexDirection: 'row', alignItems: 'center', gap: 12, marginBottom: 12 },
+  hintText: { fontSize: 13 },
+  windowRow: { flexDirection: 'row', gap: 10, marginBottom: 12 },
+  windowButton: { flex: 1, paddingVertical: 12 },
+  windowText: { fontSize: 15, fontWeight: '500' },
   amenitiesGrid: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
   amenityChip: {
     flexDirection: 'row',
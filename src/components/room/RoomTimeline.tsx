@@ -0,0 +1,147 @@
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { addMinutes, differenceInMinutes, format, isAfter, isToday, parseISO, setHours, startOfDay } from 'date-fns';
+import { useTheme } from '../../hooks/useTheme';
+import {
+  DEFAULT_DAY_END_HOUR,
+  DEFAULT_DAY_START_HOUR,
+  DEFAULT_SLOT_STEP_MINUTES,
+  findFreeGaps,
+  type BusyBlock,
+  type TimeSlot,
+} from '../../utils/availability';
+
+interface RoomTimelineProps {
+  date: Date;
+  bookings: BusyBlock[];
+  onSelectGap: (slot: TimeSlot) => void;
+  dayStartHour?: number;
+  dayEndHour?: number;
+}
+
+const HOUR_HEIGHT = 56;
+const LABEL_WIDTH = 56;
+// Gaps shorter than this are too small to tap or book
+const MIN_GAP_MINUTES = 15;
+
+function roundUpToStep(date: Date): Date {
+  const remainder = date.getMinutes() % DEFAULT_SLOT_STEP_MINUTES;
+  const rounded = new Date(date);
+  rounded.setSeconds(0, 0);
+  return remainder === 0 ? rounded : addMinutes(rounded, DEFAULT_SLOT_STEP_MINUTES - remainder);
+}
+
+export function RoomTimeline({
+  date,
+  bookings,
+  onSelectGap,
+  dayStartHour = DEFAULT_DAY_START_HOUR,
+  dayEndHour = DEFAULT_DAY_END_HOUR,
+}: RoomTimelineProps) {
+  const { colors } = useTheme();
+  const dayStart = setHours(startOfDay(date), dayStartHour);
+  const now = new Date();
+  const showNow = isToday(date) && now.getHours() >= dayStartHour && now.getHours() < dayEndHour;
+
+  const offsetFor = (time: Date) => (differenceInMinutes(time, dayStart) / 60) * HOUR_HEIGHT;
+
+  // Free gaps, with today's gaps trimmed so they never start in the past
+  const gaps = useMemo(() => {
+    const earliest = roundUpToStep(new Date());
+    return findFreeGaps(bookings, date, { dayStartHour, dayEndHour })
+      .map((gap) => (isAfter(earliest, gap.start) ? { ...gap, start: earliest } : gap))
+      .filter((gap) => differenceInMinutes(gap.end, gap.start) >= MIN_GAP_MINUTES);
+  }, [bookings, date, dayStartHour, dayEndHour]);
+
+  const hours = Array.from({ length: dayEndHour - dayStartHour + 1 }, (_, i) => dayStartHour + i);
+
+  return (
+    <View style={[styles.container, { height: (dayEndHour - dayStartHour) * HOUR_HEIGHT + 12 }]}>
+      {hours.map((hour) => (
+        <View key={hour} style={[styles.hourRow, { top: (hour - dayStartHour) * HOUR_HEIGHT }]}>
+          <Text style={[styles.hourLabel, { color: colors.textTertiary }]}>
+            {format(setHours(startOfDay(date), hour), 'h a')}
+          </Text>
+          <View style={[styles.hourLine, { backgroundColor: colors.border }]} />
+        </View>
+      ))}
+
+      {gaps.map((gap) => (
+        <TouchableOpacity
+          key={gap.start.toISOString()}
+          onPress={() => onSelectGap(gap)}
+          activeOpacity={0.7}
+          style={[
+            styles.block,
+            styles.freeBlock,
+            {
+              top: offsetFor(gap.start),
+              height: Math.max(offsetFor(gap.end) - offsetFor(gap.start), 20),
+              borderColor: colors.success,
+              backgroundColor: colors.successLight,
+            },
+          ]}
+        >
+          <Ionicons name="add-circle-outline" size={14} color={colors.success} />
+          <Text style={[styles.freeText, { color: colors.success }]} numberOfLines={1}>
+            Free {format(gap.start, 'h:mm')} - {format(gap.end, 'h:mm a')}
+          </Text>
+        </TouchableOpacity>
+      ))}
+
+      {bookings.map((booking) => {
+        const start = parseISO(booking.startTime);
+        const end = parseISO(booking.endTime);
+        const top = Math.max(offsetFor(start), 0);
+        const bottom = Math.min(offsetFor(end), (dayEndHour - dayStartHour) * HOUR_HEIGHT);
+        if (bottom <= top) return null;
+
+        return (
+          <View
+            key={booking.id}
+            style={[
+              styles.block,
+              {
+                top,
+                height: Math.max(bottom - top, 20),
+                backgroundColor: colors.primaryLight,
+                borderLeftColor: colors.primary,
+                borderLeftWidth: 3,
+              },
+            ]}
+          >
+            <Text style={[styles.busyTitle, { color: colors.text }]} numberOfLines={1}>
+              {booking.title}
+            </Text>
+            {bottom - top >= 36 && (
+              <Text style={[styles.busyMeta, { color: colors.textSecondary }]} numberOfLines={1}>
+                {format(start, 'h:mm')} - {format(end, 'h:mm a')} • {booking.bookedBy}
+              </Text>
+            )}
+          </View>
+        );
+      })}
+
+      {showNow && (
+        <View style={[styles.nowLine, { top: offsetFor(now), backgroundColor: colors.error }]}>
+          <View style={[styles.nowDot, { backgroundColor: colors.error }]} />
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { position: 'relative', marginTop: 4 },
+  hourRow: { position: 'absolute', left: 0, right: 0, flexDirection: 'row', alignItems: 'center' },
+  hourLabel: { width: LABEL_WIDTH, fontSize: 11, marginTop: -6 },
+  hourLine: { flex: 1, height: 1 },
+  block: { position: 'absolute', left: LABEL_WIDTH + 4, right: 0, borderRadius: 8, paddingHorizontal: 10, paddingVertical: 4, overflow: 'hidden' },
+  freeBlock: { flexDirection: 'row', alignItems: 'center', gap: 6, borderWidth: 1, borderStyle: 'dashed' },
+  freeText: { fontSize: 12, fontWeight: '600' },
+  busyTitle: { fontSize: 13, fontWeight: '600' },
+  busyMeta: { fontSize: 11, marginTop: 2 },
+  nowLine: { position: 'absolute', left: LABEL_WIDTH, right: 0, height: 2 },
+  nowDot: { position: 'absolute', left: -4, top: -3, width: 8, height: 8, borderRadius: 4 },
+});
@@ -1,8 +1,13 @@
 const API_URL = process.env.EXPO_PUBLIC_API_URL || 'https://boardroom-booking-tan.vercel.app/api/v1';
+const REALTIME_URL = process.env.EXPO_PUBLIC_REALTIME_URL || `${API_URL.replace(/^http/, 'ws')}/realtime`;
 
 export const config = {
   apiUrl: API_URL,
+  realtimeUrl: REALTIME_URL,
+  // Must match "scheme" in app.json
+  appScheme: 'boardroom-booking',
   queryStaleTime: 1000 * 60 * 5, // 5 minutes
+  offlineCacheMaxAge: 1000 * 60 * 60 * 24, // 24 hours
   amenities: [
     'projector',
     'whiteboard',
@@ -1,100 +1,205 @@
-import { useState, useCallback } from 'react';
-import * as SecureStore from 'expo-secure-store';
-import { claudeAIService, ParsedBooking, AIResponse } from '../services/claudeAI';
-
-interface Message {
-  id: string;
-  role: 'user' | 'assistant';
-  content: string;
-  parsedData?: ParsedBooking;
-  isBooking?: boolean;
-}
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { claudeAIService, AIResponse, type StreamOptions } from '../services/claudeAI';
+import { useAuthStore } from '../store/auth';
+import { useAIConversationStore, type AIConversation, type Message } from '../store/aiConversations';
+import { useAIContext } from './useAIContext';
+
+export type { ActionStatus, Message } from '../store/aiConversations';
 
 interface UseAIChatReturn {
   messages: Message[];
   isLoading: boolean;
   error: string | null;
-  sendMessage: (content: string, context?: any) => Promise<void>;
+  /** The user's saved conversations, newest first */
+  conversations: AIConversation[];
+  conversationId: string;
+  sendMessage: (content: string) => Promise<void>;
+  resolveAction: (messageId: string, approved: boolean) => Promise<void>;
+  stopGeneration: () => void;
+  /** Start a new conversation; the current one stays saved */
   clearChat: () => void;
-  getBookingDetails: () => ParsedBooking | null;
+  resumeConversation: (conversation: AIConversation) => void;
+  deleteConversation: (id: string) => void;
+}
+
+const NO_CONVERSATIONS: AIConversation[] = [];
+
+function newConversationId(): string {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function conversationTitle(messages: Message[]): string {
+  const first = messages.find(m => m.role === 'user')?.content.trim() || 'New conversation';
+  return first.length > 60 ? `${first.slice(0, 57)}...` : first;
 }
 
 export const useAIChat = (): UseAIChatReturn => {
+  const queryClient = useQueryClient();
+  const getContext = useAIContext();
+  const userId = useAuthStore(state => state.user?.id);
+  const conversations = useAIConversationStore(state => (userId && state.conversations[userId]) || NO_CONVERSATIONS);
+  const saveConversation = useAIConversationStore(state => state.save);
+  const removeConversation = useAIConversationStore(state => state.remove);
+  const [conversationId, setConversationId] = useState(newConversationId);
   const [messages, setMessages] = useState<Message[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [lastBookingData, setLastBookingData] = useState<ParsedBooking | null>(null);
-
-  const sendMessage = useCallback(async (content: string, context?: any) => {
-    const userMessage: Message = {
-      id: Date.now().toString(),
-      role: 'user',
-      content
-    };
-
-    setMessages(prev => [...prev, userMessage]);
+  const abortRef = useRef<AbortController | null>(null);
+  // Replies that land after the user switched conversations are dropped
+  const conversationIdRef = useRef(conversationId);
+  conversationIdRef.current = conversationId;
+  // Just-resumed messages aren't re-saved, so opening a conversation doesn't move it to the top
+  const resumedRef = useRef<Message[] | null>(null);
+
+  // Ask the assistant something and stream its reply into a new message
+  const run = useCallback(async (request: (options: StreamOptions) => Promise<AIResponse>) => {
+    const replyId = (Date.now() + 1).toString();
+    const startedIn = conversationIdRef.current;
+    const isCurrent = () => conversationIdRef.current === startedIn;
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsLoading(true);
     setError(null);
 
     try {
-      // Get API key from secure storage
-      const apiKey = await SecureStore.getItemAsync('claude_api_key');
-
-      if (!apiKey) {
-        throw new Error('Claude API key not configured. Please add your API key in settings.');
+      setMessages(prev => [...prev, { id: replyId, role: 'assistant', content: '', isStreaming: true }]);
+
+      const response = await request({
+        signal: controller.signal,
+        onText: text => {
+          if (isCurrent()) setMessages(prev => prev.map(m => (m.id === replyId ? { ...m, content: text } : m)));
+        },
+      });
+
+      if (response.bookingsChanged) {
+        queryClient.invalidateQueries({ queryKey: ['bookings'] });
+        queryClient.invalidateQueries({ queryKey: ['rooms'] });
       }
-
-      const response: AIResponse = await claudeAIService.sendMessage(
-        content,
-        apiKey,
-        context
-      );
+      if (!isCurrent()) return;
 
       const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
+        id: replyId,
         role: 'assistant',
         content: response.message,
         parsedData: response.parsedData,
-        isBooking: response.parsedData?.action === 'book'
+        action: response.pendingAction,
+        actionStatus: response.pendingAction ? 'pending' : undefined,
+        stopped: response.stopped,
       };
 
-      if (response.parsedData) {
-        setLastBookingData(response.parsedData);
-      }
-
-      setMessages(prev => [...prev, assistantMessage]);
+      setMessages(prev => prev.map(m => (m.id === replyId ? assistantMessage : m)));
     } catch (err: any) {
+      if (!isCurrent()) return;
       setError(err.message || 'Failed to get response');
 
       const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
+        id: replyId,
         role: 'assistant',
         content: err.message || 'Something went wrong. Please try again.'
       };
 
-      setMessages(prev => [...prev, errorMessage]);
+      setMessages(prev => [...prev.filter(m => m.id !== replyId), errorMessage]);
     } finally {
-      setIsLoading(false);
+      if (abortRef.current === controller) abortRef.current = null;
+      if (isCurrent()) setIsLoading(false);
     }
+  }, [queryClient]);
+
+  const stopGeneration = useCallback(() => {
+    abortRef.current?.abort();
   }, []);
 
+  const sendMessage = useCallback(async (content: string) => {
+    const userMessage: Message = {
+      id: Date.now().toString(),
+      role: 'user',
+      content
+    };
+
+    // Moving on without answering a confirmation declines it
+    setMessages(prev => [
+      ...prev.map(m => (m.actionStatus === 'pending' ? { ...m, actionStatus: 'declined' as const } : m)),
+      userMessage,
+    ]);
+    await run(options => claudeAIService.sendMessage(content, getContext(), options));
+  }, [run, getContext]);
+
+  const resolveAction = useCallback(async (messageId: string, approved: boolean) => {
+    setMessages(prev =>
+      prev.map(m => (m.id === messageId ? { ...m, actionStatus: approved ? 'confirmed' : 'declined' } : m))
+    );
+    await run(options => claudeAIService.resolvePendingAction(approved, getContext(), options));
+  }, [run, getContext]);
+
   const clearChat = useCallback(() => {
+    abortRef.current?.abort();
+    setConversationId(newConversationId());
     setMessages([]);
     setError(null);
-    setLastBookingData(null);
+    setIsLoading(false);
     claudeAIService.clearHistory();
   }, []);
 
-  const getBookingDetails = useCallback(() => {
-    return lastBookingData;
-  }, [lastBookingData]);
+  const resumeConversation = useCallback((conversation: AIConversation) => {
+    abortRef.current?.abort();
+    setConversationId(conversation.id);
+    // A confirmation from an earlier session can't be answered any more
+    const resumed = conversation.messages.map(m =>
+      m.actionStatus === 'pending' ? { ...m, actionStatus: 'declined' as const } : m
+    );
+    resumedRef.current = resumed;
+    setMessages(resumed);
+    setError(null);
+    setIsLoading(false);
+    claudeAIService.loadHistory(conversation.history);
+  }, []);
+
+  const deleteConversation = useCallback((id: string) => {
+    if (!userId) return;
+    removeConversation(userId, id);
+    if (id === conversationIdRef.current) clearChat();
+  }, [userId, removeConversation, clearChat]);
+
+  // Reopen the latest conversation once saved ones have loaded from storage
+  useEffect(() => {
+    if (!userId) return;
+    const resumeLatest = () => {
+      const latest = useAIConversationStore.getState().conversations[userId]?.[0];
+      if (latest) resumeConversation(latest);
+    };
+    if (useAIConversationStore.persist.hasHydrated()) {
+      resumeLatest();
+      return;
+    }
+    return useAIConversationStore.persist.onFinishHydration(resumeLatest);
+  }, [userId, resumeConversation]);
+
+  // Save after every finished exchange
+  useEffect(() => {
+    if (!userId || isLoading || messages.length === 0) return;
+    if (!useAIConversationStore.persist.hasHydrated()) return;
+    if (messages === resumedRef.current) return;
+    saveConversation(userId, {
+      id: conversationId,
+      title: conversationTitle(messages),
+      updatedAt: Date.now(),
+      messages: messages.filter(m => !m.isStreaming),
+      history: claudeAIService.getHistory(),
+    });
+  }, [userId, conversationId, messages, isLoading, saveConversation]);
 
   return {
     messages,
     isLoading,
     error,
+    conversations,
+    conversationId,
     sendMessage,
+    resolveAction,
+    stopGeneration,
     clearChat,
-    getBookingDetails
+    resumeConversation,
+    deleteConversation
   };
 };
@@ -0,0 +1,29 @@
+import { useCallback } from 'react';
+import { useRooms } from './useRooms';
+import { useMyBookings } from './useBookings';
+import { formatAIContext } from '../utils/aiContext';
+import { getUtcDateRange } from '../utils/date';
+
+/**
+ * Returns a function that builds the assistant's context from the cached room
+ * catalogue and the user's upcoming bookings, stamped with the time it's called
+ */
+export function useAIContext(): () => string {
+  // Same queries as the Dashboard, so these are usually already cached
+  const { data: roomsData } = useRooms({ limit: 100 });
+  const { data: bookingsData } = useMyBookings(getUtcDateRange(30));
+
+  const rooms = roomsData?.data;
+  const bookings = bookingsData?.data;
+
+  return useCallback(
+    () =>
+      formatAIContext({
+        now: new Date(),
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        rooms: rooms || [],
+        bookings: bookings || [],
+      }),
+    [rooms, bookings]
+  );
+}
@@ -0,0 +1,45 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { adminApi } from '../services/admin';
+import { Alert } from 'react-native';
+
+// Under 'bookings' so realtime booking events refresh the queue too
+const PENDING_APPROVALS_KEY = ['bookings', 'approvals'];
+
+export function usePendingApprovals(enabled: boolean = true) {
+  return useQuery({
+    queryKey: PENDING_APPROVALS_KEY,
+    queryFn: () => adminApi.getPendingBookings(),
+    enabled,
+  });
+}
+
+export function useApproveBooking() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (bookingId: string) => adminApi.approveBooking(bookingId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['bookings'] });
+    },
+    onError: (error: any) => {
+      const message = error.response?.data?.message || 'Failed to approve booking';
+      Alert.alert('Error', message);
+    },
+  });
+}
+
+export function useRejectBooking() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ bookingId, reason }: { bookingId: string; reason: string }) =>
+      adminApi.rejectBooking(bookingId, reason),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['bookings'] });
+    },
+    onError: (error: any) => {
+      const message = error.response?.data?.message || 'Failed to reject booking';
+      Alert.alert('Error', message);
+    },
+  });
+}
@@ -1,6 +1,22 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { bookingsApi, type BookingFilters, type CreateBookingData, type UpdateBookingData } from '../services/bookings';
+import { bookingsApi, type BookingFilters, type CreateBookingData, type UpdateBookingData, type SeriesScope } from '../services/bookings';
+import { notificationService } from '../services/notifications';
+import { isQueued, sendOrQueue, type QueuedResponse } from '../services/offline';
 import { Alert } from 'react-native';
+import type { QueryClient } from '@tanstack/react-query';
+import type { ApiResponse, Booking } from '../types';
+
+// Single-booking endpoints return one booking, series endpoints return all affected
+function affectedBookings(data: Booking | Booking[] | undefined): Booking[] {
+  if (!data) return [];
+  return Array.isArray(data) ? data : [data];
+}
+
+// Used to label queued offline actions; falls back when the booking isn't cached
+export function cachedBookingTitle(queryClient: QueryClient, id: string): string {
+  const cached = queryClient.getQueryData<ApiResponse<Booking>>(['bookings', id]);
+  return cached?.data?.title || 'Booking';
+}
 
 export function useMyBookings(filters: Omit<BookingFilters, 'userId'> = {}) {
   return useQuery({
@@ -28,9 +44,20 @@ export function useCreateBooking() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: (data: CreateBookingData) => bookingsApi.create(data),
-    onSuccess: () => {
+    mutationFn: (data: CreateBookingData) =>
+      sendOrQueue({ type: 'create', data }, data.title, () => bookingsApi.create(data)),
+    // Run while offline too, so the request can be queued instead of paused
+    networkMode: 'always',
+    onSuccess: (response) => {
+      if (isQueued(response)) {
+        Alert.alert('Saved Offline', response.message);
+        return;
+      }
       queryClient.invalidateQueries({ queryKey: ['bookings'] });
+      if (response.data?.status === 'PENDING') {
+        Alert.alert('Request Sent', "This room needs approval. We'll let you know when an admin decides.");
+        return;
+      }
       Alert.alert('Success', 'Booking created successfully!');
     },
     onError: (error: any) => {
@@ -44,10 +71,28 @@ export function useCancelBooking() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: (id: string) => bookingsApi.cancel(id),
-    onSuccess: () => {
+    mutationFn: ({ id, scope = 'this' }: { id: string; scope?: SeriesScope }): Promise<ApiResponse<Booking | Booking[]> | QueuedResponse> =>
+      sendOrQueue<Booking | Booking[]>(
+        { type: 'cancel', bookingId: id, scope },
+        cachedBookingTitle(queryClient, id),
+        () => (scope === 'this' ? bookingsApi.cancel(id) : bookingsApi.cancelSeries(id, scope))
+      ),
+    networkMode: 'always',
+    onSuccess: async (response, { id, scope = 'this' }) => {
+      if (isQueued(response)) {
+        Alert.alert('Saved Offline', response.message);
+        return;
+      }
       queryClient.invalidateQueries({ queryKey: ['bookings'] });
-      Alert.alert('Success', 'Booking cancelled successfully.');
+      const affected = affectedBookings(response.data);
+      const ids = affected.length > 0 ? affected.map((b) => b.id) : [id];
+      await Promise.all(ids.map((bookingId) => notificationService.cancelBookingReminders(bookingId)));
+      Alert.alert(
+        'Success',
+        scope === 'this'
+          ? 'Booking cancelled successfully.'
+          : `${ids.length} booking${ids.length === 1 ? '' : 's'} cancelled successfully.`
+      );
     },
     onError: (error: any) => {
       const message = error.response?.data?.message || 'Failed to cancel booking';
@@ -60,10 +105,19 @@ export function useUpdateBooking() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: ({ id, data }: { id: string; data: UpdateBookingData }) =>
-      bookingsApi.update(id, data),
-    onSuccess: () => {
+    mutationFn: ({
+      id,
+      data,
+      scope = 'this',
+    }: {
+      id: string;
+      data: UpdateBookingData;
+      scope?: SeriesScope;
+    }): Promise<ApiResponse<Booking | Booking[]>> =>
+      scope === 'this' ? bookingsApi.update(id, data) : bookingsApi.updateSeries(id, data, scope),
+    onSuccess: async (response) => {
       queryClient.invalidateQueries({ queryKey: ['bookings'] });
+      await notificationService.rescheduleBookingReminders(affectedBookings(response.data));
       Alert.alert('Success', 'Booking updated successfully!');
     },
     onError: (error: any) => {
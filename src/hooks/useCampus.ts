@@ -0,0 +1,32 @@
+import { useQuery } from '@tanstack/react-query';
+import { campusesApi, MY_CAMPUS_QUERY_KEY } from '../services/campuses';
+import { useAuthStore } from '../store/auth';
+import { effectivePolicy } from '../utils/bookingPolicy';
+import type { Room } from '../types';
+
+export function useMyCampus() {
+  const campusId = useAuthStore((state) => state.user?.campusId);
+  return useQuery({
+    queryKey: MY_CAMPUS_QUERY_KEY,
+    queryFn: campusesApi.getMy,
+    enabled: !!campusId,
+  });
+}
+
+export function useCampus(campusId: string | undefined) {
+  return useQuery({
+    queryKey: ['campuses', campusId],
+    queryFn: () => campusesApi.getById(campusId!),
+    enabled: !!campusId,
+  });
+}
+
+/**
+ * The booking rules for a room, falling back to its campus defaults
+ */
+export function useRoomPolicy(room: Room | undefined) {
+  const { data: myCampus } = useMyCampus();
+  const isMyCampus = !!room && room.campusId === myCampus?.id;
+  const { data: otherCampus } = useCampus(room && !isMyCampus && !room.policy ? room.campusId : undefined);
+  return effectivePolicy(room, isMyCampus ? myCampus : otherCampus);
+}
@@ -1,13 +1,27 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { checkInsApi } from '../services/checkins';
+import { isQueued, sendOrQueue } from '../services/offline';
+import { notificationService } from '../services/notifications';
+import { cachedBookingTitle } from './useBookings';
 import { Alert } from 'react-native';
 
 export function useCheckIn() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: (bookingId: string) => checkInsApi.checkIn(bookingId),
-    onSuccess: () => {
+    mutationFn: (bookingId: string) =>
+      sendOrQueue(
+        { type: 'checkIn', bookingId },
+        cachedBookingTitle(queryClient, bookingId),
+        () => checkInsApi.checkIn(bookingId)
+      ),
+    networkMode: 'always',
+    onSuccess: (response, bookingId) => {
+      if (isQueued(response)) {
+        Alert.alert('Saved Offline', response.message);
+        return;
+      }
+      notificationService.cancelReleaseWarning(bookingId);
       queryClient.invalidateQueries({ queryKey: ['checkins'] });
       queryClient.invalidateQueries({ queryKey: ['bookings'] });
       Alert.alert('Checked In!', 'You have successfully checked in.');
@@ -19,6 +33,51 @@ export function useCheckIn() {
   });
 }
 
+export function useCheckOut() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (bookingId: string) => checkInsApi.checkOut(bookingId),
+    onSuccess: (response, bookingId) => {
+      notificationService.cancelBookingReminders(bookingId);
+      queryClient.invalidateQueries({ queryKey: ['checkins'] });
+      queryClient.invalidateQueries({ queryKey: ['bookings'] });
+      queryClient.invalidateQueries({ queryKey: ['rooms'] });
+      queryClient.invalidateQueries({ queryKey: ['waitlist'] });
+      const notified = response.data?.waitlistNotified ?? 0;
+      Alert.alert(
+        'Meeting Ended',
+        notified > 0
+          ? `The room is free again. ${notified} waiting ${notified === 1 ? 'person was' : 'people were'} told.`
+          : 'The room is free again for anyone who needs it.'
+      );
+    },
+    onError: (error: any) => {
+      const message = error.response?.data?.message || 'Failed to end the meeting';
+      Alert.alert('Error', message);
+    },
+  });
+}
+
+// Organizer checking in someone on their behalf; any check-in keeps the room from being released
+export function useCheckInAttendee() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ bookingId, email }: { bookingId: string; email: string }) =>
+      checkInsApi.checkInAttendee(bookingId, email),
+    onSuccess: (_response, { bookingId }) => {
+      notificationService.cancelReleaseWarning(bookingId);
+      queryClient.invalidateQueries({ queryKey: ['checkins', bookingId] });
+      queryClient.invalidateQueries({ queryKey: ['bookings'] });
+    },
+    onError: (error: any) => {
+      const message = error.response?.data?.message || 'Failed to check them in';
+      Alert.alert('Error', message);
+    },
+  });
+}
+
 export function useCheckInStatus(bookingId: string) {
   return useQuery({
     queryKey: ['checkins', bookingId],
@@ -27,10 +86,11 @@ export function useCheckInStatus(bookingId: string) {
   });
 }
 
-export function useMyCheckInsToday() {
+export function useMyCheckInsToday(enabled: boolean = true) {
   return useQuery({
     queryKey: ['checkins', 'my', 'today'],
     queryFn: () => checkInsApi.getMyCheckInsToday(),
+    enabled,
   });
 }
 
@@ -0,0 +1,88 @@
+import { useMemo } from 'react';
+import { useRoom, useRoomAvailability, useRooms, useRoomsAvailability } from './useRooms';
+import { useRoomPolicy } from './useCampus';
+import { findConflicts, suggestNearestSlots } from '../utils/availability';
+import { bufferedConflicts, slotOptions, withBuffers } from '../utils/bookingPolicy';
+import { formatDateForQuery } from '../utils/date';
+
+interface ConflictCheckParams {
+  roomId: string;
+  start: Date;
+  end: Date;
+  /** The booking being edited, so it doesn't conflict with itself */
+  excludeBookingId?: string;
+  /** Also look for other rooms free at the same time */
+  suggestRooms?: boolean;
+}
+
+// How many similarly-sized rooms to probe for availability
+const MAX_ROOM_CANDIDATES = 8;
+
+export function useConflictCheck({
+  roomId,
+  start,
+  end,
+  excludeBookingId,
+  suggestRooms = true,
+}: ConflictCheckParams) {
+  const date = formatDateForQuery(start);
+  const startMs = start.getTime();
+  const endMs = end.getTime();
+
+  const { data: roomData } = useRoom(roomId);
+  const { data: availabilityData, isLoading, isError } = useRoomAvailability(roomId, date);
+  const { data: roomsData } = useRooms({ limit: 100 });
+
+  const room = roomData?.data;
+  const busy = availabilityData?.data?.bookings;
+  const policy = useRoomPolicy(room);
+
+  // Setup and teardown time counts as busy
+  const conflicts = useMemo(
+    () => (busy && endMs > startMs ? bufferedConflicts(busy, policy, new Date(startMs), new Date(endMs), excludeBookingId) : []),
+    [busy, policy, startMs, endMs, excludeBookingId]
+  );
+
+  const suggestedSlots = useMemo(
+    () =>
+      busy && conflicts.length > 0
+        ? suggestNearestSlots(withBuffers(busy, policy), new Date(startMs), new Date(endMs), {
+            ...slotOptions(policy),
+            excludeBookingId,
+            notBefore: new Date(),
+          })
+        : [],
+    [busy, policy, conflicts.length, startMs, endMs, excludeBookingId]
+  );
+
+  // Rooms at least as large as this one, closest in size first
+  const candidateRooms = useMemo(() => {
+    if (!suggestRooms || !room || conflicts.length === 0) return [];
+    return (roomsData?.data || [])
+      .filter((r) => r.id !== room.id && r.isActive && r.capacity >= room.capacity)
+      .sort((a, b) => a.capacity - b.capacity)
+      .slice(0, MAX_ROOM_CANDIDATES);
+  }, [suggestRooms, room, conflicts.length, roomsData?.data]);
+
+  const candidateAvailability = useRoomsAvailability(
+    candidateRooms.map((r) => r.id),
+    date
+  );
+
+  const alternativeRooms = candidateRooms
+    .filter((_, index) => {
+      const bookings = candidateAvailability[index]?.data?.data?.bookings;
+      return bookings !== undefined && findConflicts(bookings, start, end).length === 0;
+    })
+    .slice(0, 3);
+
+  return {
+    policy,
+    isChecking: isLoading,
+    isError,
+    hasConflict: conflicts.length > 0,
+    conflicts,
+    suggestedSlots,
+    alternativeRooms,
+  };
+}
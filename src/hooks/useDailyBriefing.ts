@@ -0,0 +1,76 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Alert } from 'react-native';
+import { format, parseISO } from 'date-fns';
+import { claudeAIService } from '../services/claudeAI';
+import { roomsApi } from '../services/rooms';
+import { useAISettingsStore } from '../store/aiSettings';
+import { useMyCheckInsToday } from './useCheckins';
+import { buildDailyBriefing } from '../utils/dailyBriefing';
+import { findConflicts, rankRooms } from '../utils/availability';
+import type { Booking } from '../types';
+
+// How often the briefing is re-read against the clock while the Dashboard is open
+const REFRESH_INTERVAL_MS = 60000;
+
+/**
+ * The user's day at a glance, when they've turned the briefing on. The
+ * overview comes from the assistant when one is available and otherwise from
+ * the schedule itself; the notes and their actions never depend on the model.
+ */
+export function useDailyBriefing(bookings: Booking[] | undefined) {
+  const enabled = useAISettingsStore((state) => state.dailyBriefing);
+  const { data: checkIns } = useMyCheckInsToday(enabled);
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    if (!enabled) return;
+    const interval = setInterval(() => setNow(new Date()), REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [enabled]);
+
+  const briefing = useMemo(() => {
+    const checkedInIds = new Set((checkIns?.data || []).map((checkIn) => checkIn.booking.id));
+    return buildDailyBriefing(bookings || [], checkedInIds, now);
+  }, [bookings, checkIns?.data, now]);
+
+  // Keyed on the facts, so the model is only asked again when something changes
+  const { data: aiSummary, isFetching } = useQuery({
+    queryKey: ['briefing', briefing.facts],
+    queryFn: ({ signal }) => claudeAIService.summarizeDay(briefing.facts, signal),
+    enabled: enabled && briefing.meetings.length > 0,
+    staleTime: Infinity,
+  });
+
+  return {
+    enabled,
+    briefing,
+    summary: aiSummary || briefing.summary,
+    isAISummary: !!aiSummary,
+    isSummarizing: isFetching,
+  };
+}
+
+/**
+ * Free rooms in a building for the whole of a meeting, best fit first
+ */
+export function useFindNearbyRooms() {
+  return useMutation({
+    mutationFn: async ({ booking, building }: { booking: Booking; building: string }) => {
+      const start = parseISO(booking.startTime);
+      const end = parseISO(booking.endTime);
+      const response = await roomsApi.getAll({ building, isActive: true, limit: 100 });
+      const rooms = (response.data || []).filter((room) => room.id !== booking.roomId);
+      if (rooms.length === 0) return [];
+
+      const availability = await roomsApi.getBulkAvailability(rooms.map((room) => room.id), format(start, 'yyyy-MM-dd'));
+      const busyByRoom = new Map((availability.data || []).map((a) => [a.roomId, a.bookings]));
+      const free = rooms.filter((room) => findConflicts(busyByRoom.get(room.id) || [], start, end, booking.id).length === 0);
+      return rankRooms(free, { headcount: booking.attendees.length + 1 });
+    },
+    onError: (error: any) => {
+      const message = error.response?.data?.message || 'Failed to look up rooms';
+      Alert.alert('Error', message);
+    },
+  });
+}
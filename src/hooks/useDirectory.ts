@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { directoryApi } from '../services/directory';
+
+const SEARCH_DEBOUNCE_MS = 300;
+const MIN_QUERY_LENGTH = 2;
+
+export function useDirectorySearch(query: string) {
+  const [debounced, setDebounced] = useState(query.trim());
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(query.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  return useQuery({
+    queryKey: ['directory', debounced],
+    queryFn: () => directoryApi.search(debounced),
+    enabled: debounced.length >= MIN_QUERY_LENGTH,
+  });
+}
+
+export function useAttendeeFreeBusy(emails: string[], start: Date, end: Date) {
+  const startTime = start.toISOString();
+  const endTime = end.toISOString();
+
+  return useQuery({
+    queryKey: ['directory', 'free-busy', emails, startTime, endTime],
+    queryFn: () => directoryApi.getFreeBusy(emails, startTime, endTime),
+    enabled: emails.length > 0 && end > start,
+  });
+}
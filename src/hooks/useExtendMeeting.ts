@@ -0,0 +1,107 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Alert } from 'react-native';
+import { addMilliseconds, addMinutes, eachDayOfInterval, format, parseISO } from 'date-fns';
+import { bookingsApi } from '../services/bookings';
+import { fetchBusy, fetchRoomPolicy } from '../services/bookingRules';
+import { roomsApi } from '../services/rooms';
+import { notificationService } from '../services/notifications';
+import { findConflicts, rankRooms, type BusyBlock } from '../utils/availability';
+import { formatDateForQuery } from '../utils/date';
+import { extensionBlocker, extensionViolations, extensionWindow } from '../utils/extendMeeting';
+import type { Booking, Room } from '../types';
+
+export type ExtendMeetingResult =
+  | { kind: 'extended'; booking: Booking }
+  | { kind: 'blocked'; reason: string; rooms: Room[] };
+
+/**
+ * Free rooms in the same building for the extra time, best fit first
+ */
+async function findRoomsToMoveTo(booking: Booking, start: Date, end: Date): Promise<Room[]> {
+  const response = await roomsApi.getAll({ building: booking.room.building || undefined, isActive: true, limit: 100 });
+  const rooms = (response.data || []).filter((room) => room.id !== booking.roomId);
+  if (rooms.length === 0) return [];
+
+  // The extra time can run past midnight, so every day it touches is checked
+  const busyByRoom = new Map<string, BusyBlock[]>();
+  for (const day of eachDayOfInterval({ start, end: addMilliseconds(end, -1) })) {
+    const bulk = await roomsApi.getBulkAvailability(rooms.map((room) => room.id), formatDateForQuery(day));
+    for (const { roomId, bookings } of bulk.data || []) {
+      busyByRoom.set(roomId, [...(busyByRoom.get(roomId) || []), ...bookings]);
+    }
+  }
+  const free = rooms.filter((room) => findConflicts(busyByRoom.get(room.id) || [], start, end).length === 0);
+  return rankRooms(free, { headcount: booking.attendees.length + 1 });
+}
+
+/**
+ * Extend a meeting if its room's rules allow it and the room is free
+ * afterwards, setup and teardown time included. When it isn't, the booking
+ * is left alone and free rooms in the same building are suggested instead.
+ */
+export function useExtendMeeting() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ booking, minutes }: { booking: Booking; minutes: number }): Promise<ExtendMeetingResult> => {
+      const { start, end } = extensionWindow(booking, minutes);
+      const room = await roomsApi.getById(booking.roomId);
+      if (!room.data) throw new Error('Room not found');
+      const policy = await fetchRoomPolicy(room.data);
+
+      let reason = extensionViolations(policy, booking, minutes, new Date()).join(' ');
+      if (!reason) {
+        const padding = policy.bufferBeforeMinutes + policy.bufferAfterMinutes;
+        const busy = await fetchBusy(booking.roomId, start, addMinutes(end, padding));
+        const blockedBy = extensionBlocker(busy, policy, booking, minutes);
+        if (blockedBy) {
+          reason = `${blockedBy.title} has ${booking.room.name} from ${format(parseISO(blockedBy.startTime), 'h:mm a')}.`;
+        }
+      }
+
+      if (!reason) {
+        const response = await bookingsApi.update(booking.id, { endTime: end.toISOString() });
+        return { kind: 'extended', booking: response.data! };
+      }
+      return { kind: 'blocked', reason, rooms: await findRoomsToMoveTo(booking, start, end) };
+    },
+    onSuccess: async (result) => {
+      if (result.kind !== 'extended') return;
+      queryClient.invalidateQueries({ queryKey: ['bookings'] });
+      queryClient.invalidateQueries({ queryKey: ['rooms'] });
+      await notificationService.rescheduleBookingReminders([result.booking]);
+    },
+    onError: (error: any) => {
+      const message = error.response?.data?.message || 'Failed to extend the meeting';
+      Alert.alert('Error', message);
+    },
+  });
+}
+
+/**
+ * Confirm an extension, or explain why it was blocked and offer the free rooms nearby
+ */
+export function alertExtendResult(
+  booking: Booking,
+  minutes: number,
+  result: ExtendMeetingResult,
+  onMoveToRoom: (room: Room, startTime: string, endTime: string) => void
+) {
+  if (result.kind === 'extended') {
+    Alert.alert('Meeting Extended', `${booking.room.name} is yours until ${format(parseISO(result.booking.endTime), 'h:mm a')}.`);
+    return;
+  }
+
+  const { start, end } = extensionWindow(booking, minutes);
+  if (result.rooms.length === 0) {
+    Alert.alert("Can't Extend", `${result.reason} Nothing nearby is free until ${format(end, 'h:mm a')} either.`);
+    return;
+  }
+  Alert.alert("Can't Extend", `${result.reason} These rooms nearby are free until ${format(end, 'h:mm a')}:`, [
+    ...result.rooms.slice(0, 3).map((room) => ({
+      text: `Move to ${room.name}`,
+      onPress: () => onMoveToRoom(room, start.toISOString(), end.toISOString()),
+    })),
+    { text: 'Close', style: 'cancel' as const },
+  ]);
+}
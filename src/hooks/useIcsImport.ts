@@ -0,0 +1,114 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { addMilliseconds, format, isAfter } from 'date-fns';
+import { bookingsApi } from '../services/bookings';
+import { checkBookingRules } from '../services/bookingRules';
+import { notificationService } from '../services/notifications';
+import { expandRecurrence, formatRecurrenceRule, occurrencesBefore, type RecurrenceRule } from '../utils/recurrence';
+import type { IcsEvent } from '../utils/ics';
+import type { Room } from '../types';
+
+export interface IcsImportItem {
+  event: IcsEvent;
+  room: Room;
+}
+
+export type IcsImportStatus = 'created' | 'conflict' | 'failed' | 'skipped';
+
+export interface IcsImportResult {
+  uid: string;
+  summary: string;
+  roomName: string;
+  status: IcsImportStatus;
+  message: string;
+}
+
+/**
+ * Drop occurrences that already happened, moving the series start to the first
+ * future date and reducing COUNT by the occurrences that were dropped
+ */
+function futureSeries(event: IcsEvent, now: Date): { start: Date; rule: RecurrenceRule | null; occurrences: Date[] } | null {
+  if (!event.recurrence) {
+    return isAfter(event.start, now) ? { start: event.start, rule: null, occurrences: [event.start] } : null;
+  }
+
+  // Expanded from today, so long-running series aren't cut off by the expansion limits
+  const occurrences = expandRecurrence(event.recurrence, event.start, { from: now }).filter((d) => isAfter(d, now));
+  if (occurrences.length === 0) return null;
+
+  const [first] = occurrences;
+  let rule = event.recurrence;
+  if (rule.count) {
+    rule = { ...rule, count: rule.count - occurrencesBefore(rule, event.start, first) };
+  }
+  return { start: first, rule, occurrences };
+}
+
+export function useIcsImport() {
+  const queryClient = useQueryClient();
+
+  const importOne = async ({ event, room }: IcsImportItem): Promise<IcsImportResult> => {
+    const base = { uid: event.uid, summary: event.summary, roomName: room.name };
+    const series = futureSeries(event, new Date());
+    if (!series) {
+      return { ...base, status: 'skipped', message: 'All dates are in the past' };
+    }
+
+    const duration = event.end.getTime() - event.start.getTime();
+    const { violations, conflicts } = await checkBookingRules(room, series.occurrences, duration, {
+      openEnded: !!series.rule && !series.rule.count && !series.rule.until,
+    });
+
+    if (violations.length > 0) {
+      return { ...base, status: 'conflict', message: violations.join(' ') };
+    }
+
+    if (conflicts.length > 0) {
+      const clashes = conflicts.map(({ start, block }) => `${format(start, 'MMM d')} (${block.title})`);
+      const more = clashes.length > 3 ? ` and ${clashes.length - 3} more` : '';
+      return { ...base, status: 'conflict', message: `Room is booked on ${clashes.slice(0, 3).join(', ')}${more}` };
+    }
+
+    try {
+      const response = await bookingsApi.create({
+        roomId: room.id,
+        title: event.summary.slice(0, 200),
+        description: event.description,
+        startTime: series.start.toISOString(),
+        endTime: addMilliseconds(series.start, duration).toISOString(),
+        recurrenceRule: series.rule ? formatRecurrenceRule(series.rule) : undefined,
+        attendees: event.attendees.length > 0 ? event.attendees : undefined,
+      });
+      if (response.data?.id) {
+        await notificationService.scheduleBookingReminder(
+          response.data.id,
+          response.data.title,
+          room.name,
+          series.start,
+          15
+        );
+        await notificationService.scheduleReleaseWarning(response.data);
+      }
+      const note = series.occurrences.length > 1 ? `${series.occurrences.length} dates` : format(series.start, 'MMM d, h:mm a');
+      return { ...base, status: 'created', message: `Booked ${note}` };
+    } catch (error: any) {
+      return { ...base, status: 'failed', message: error.response?.data?.message || 'Failed to create booking' };
+    }
+  };
+
+  return useMutation({
+    // One at a time so each event's conflict check sees the bookings created before it
+    mutationFn: async (items: IcsImportItem[]) => {
+      const results: IcsImportResult[] = [];
+      for (const item of items) {
+        results.push(await importOne(item));
+        if (results[results.length - 1].status === 'created') {
+          queryClient.invalidateQueries({ queryKey: ['rooms', item.room.id] });
+        }
+      }
+      return results;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['bookings'] });
+    },
+  });
+}
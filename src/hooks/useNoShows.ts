@@ -0,0 +1,15 @@
+import { useQuery } from '@tanstack/react-query';
+import { startOfDay, subDays } from 'date-fns';
+import { adminApi } from '../services/admin';
+
+/**
+ * Bookings released for a no-show over the last `days` days
+ */
+export function useNoShows(days: number, enabled: boolean = true) {
+  return useQuery({
+    // Under 'bookings' so realtime booking events refresh the history too
+    queryKey: ['bookings', 'no-shows', days],
+    queryFn: () => adminApi.getNoShows({ from: startOfDay(subDays(new Date(), days)).toISOString() }),
+    enabled,
+  });
+}
@@ -0,0 +1,69 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { Alert, AppState } from 'react-native';
+import { onlineManager } from '@tanstack/react-query';
+import { useAuthStore } from '../store/auth';
+import { useOfflineQueueStore } from '../store/offlineQueue';
+import { replayOfflineQueue, type ReplayResult } from '../services/offline';
+
+// How often changes that failed to send are tried again while online
+const RETRY_INTERVAL_MS = 30000;
+
+const ACTION_LABELS: Record<ReplayResult['type'], string> = {
+  create: 'Booking',
+  cancel: 'Cancellation',
+  checkIn: 'Check-in',
+};
+
+export function useIsOnline() {
+  return useSyncExternalStore(onlineManager.subscribe.bind(onlineManager), () => onlineManager.isOnline());
+}
+
+export function useOfflineQueue() {
+  return useOfflineQueueStore((state) => state.items);
+}
+
+function reportReplay(results: ReplayResult[]) {
+  const problems = results.filter((r) => r.status !== 'synced');
+  const synced = results.length - problems.length;
+
+  if (problems.length === 0) {
+    Alert.alert('Back Online', `${synced} offline change${synced === 1 ? ' was' : 's were'} synced.`);
+    return;
+  }
+
+  const details = problems
+    .map((r) => `• ${ACTION_LABELS[r.type]} "${r.label}": ${r.message}`)
+    .join('\n');
+  Alert.alert(
+    'Some Changes Could Not Sync',
+    `${synced} of ${results.length} offline changes synced.\n\n${details}`
+  );
+}
+
+/**
+ * Replays queued mutations whenever the app comes back online or queues more,
+ * and keeps retrying while anything is left (e.g. after a network error)
+ */
+export function useOfflineSync() {
+  const isOnline = useIsOnline();
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+  const queuedCount = useOfflineQueueStore((state) => state.items.length);
+
+  useEffect(() => {
+    if (!isOnline || !isAuthenticated || queuedCount === 0) return;
+    const replay = () =>
+      replayOfflineQueue().then((results) => {
+        if (results.length > 0) reportReplay(results);
+      });
+
+    replay();
+    const interval = setInterval(replay, RETRY_INTERVAL_MS);
+    const appStateSub = AppState.addEventListener('change', (state) => {
+      if (state === 'active') replay();
+    });
+    return () => {
+      clearInterval(interval);
+      appStateSub.remove();
+    };
+  }, [isOnline, isAuthenticated, queuedCount]);
+}
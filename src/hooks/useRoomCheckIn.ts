@@ -0,0 +1,43 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Alert } from 'react-native';
+import { addMinutes, startOfMinute } from 'date-fns';
+import { bookingsApi } from '../services/bookings';
+import { checkInsApi } from '../services/checkins';
+import type { Room } from '../types';
+
+// Title for bookings made on the spot from a room's QR code
+export const AD_HOC_TITLE = 'Ad-hoc meeting';
+
+/**
+ * Book a free room from now and check straight in, since the user is
+ * standing in it. Rooms that need approval stay pending and aren't checked in.
+ */
+export function useAdHocBooking() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ room, minutes }: { room: Room; minutes: number }) => {
+      const start = startOfMinute(new Date());
+      const response = await bookingsApi.create({
+        roomId: room.id,
+        title: AD_HOC_TITLE,
+        startTime: start.toISOString(),
+        endTime: addMinutes(start, minutes).toISOString(),
+      });
+      const booking = response.data!;
+      if (booking.status === 'CONFIRMED') {
+        await checkInsApi.checkIn(booking.id);
+      }
+      return booking;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['bookings'] });
+      queryClient.invalidateQueries({ queryKey: ['checkins'] });
+      queryClient.invalidateQueries({ queryKey: ['rooms'] });
+    },
+    onError: (error: any) => {
+      const message = error.response?.data?.message || 'Failed to book the room';
+      Alert.alert('Error', message);
+    },
+  });
+}
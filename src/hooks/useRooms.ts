@@ -1,4 +1,4 @@
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useQueries } from '@tanstack/react-query';
 import { roomsApi, type RoomFilters } from '../services/rooms';
 
 export function useRooms(filters: RoomFilters = {}) {
@@ -23,3 +23,22 @@ export function useRoomAvailability(id: string, date: string) {
     enabled: !!id && !!date,
   });
 }
+
+// Same cache entries as useRoomAvailability, one query per room
+export function useRoomsAvailability(ids: string[], date: string) {
+  return useQueries({
+    queries: ids.map((id) => ({
+      queryKey: ['rooms', id, 'availability', date],
+      queryFn: () => roomsApi.getAvailability(id, date),
+      enabled: !!date,
+    })),
+  });
+}
+
+export function useBulkAvailability(ids: string[], date: string, enabled = true) {
+  return useQuery({
+    queryKey: ['rooms', 'availability', date, ids],
+    queryFn: () => roomsApi.getBulkAvailability(ids, date),
+    enabled: enabled && ids.length > 0 && !!date,
+  });
+}
@@ -10,14 +10,19 @@ import { RoomsScreen } from '../screens/main/RoomsScreen';
 import { MyBookingsScreen } from '../screens/main/MyBookingsScreen';
 import { AIChatScreen } from '../screens/main/AIChatScreen';
 import { SettingsScreen } from '../screens/settings/SettingsScreen';
+import { IcsImportScreen } from '../screens/settings/IcsImportScreen';
 import { AnalyticsScreen } from '../screens/admin/AnalyticsScreen';
 import { UsersScreen } from '../screens/admin/UsersScreen';
 import { RoomsManageScreen } from '../screens/admin/RoomsManageScreen';
+import { ApprovalsScreen } from '../screens/admin/ApprovalsScreen';
+import { NoShowsScreen } from '../screens/admin/NoShowsScreen';
 import { CampusesScreen } from '../screens/super-admin/CampusesScreen';
 import { CampusDetailScreen } from '../screens/super-admin/CampusDetailScreen';
 import { RoomDetailScreen } from '../screens/booking/RoomDetailScreen';
 import { CreateBookingScreen } from '../screens/booking/CreateBookingScreen';
 import { BookingDetailScreen } from '../screens/booking/BookingDetailScreen';
+import { AttendanceScreen } from '../screens/booking/AttendanceScreen';
+import { RoomCheckInScreen } from '../screens/booking/RoomCheckInScreen';
 import type { MainTabParamList, RoomStackParamList, BookingStackParamList, SettingsStackParamList } from './types';
 
 const Tab = createBottomTabNavigator<MainTabParamList>();
@@ -51,6 +56,11 @@ function RoomStackNavigator() {
         component={CreateBookingScreen}
         options={{ title: 'Book Room' }}
       />
+      <RoomStack.Screen
+        name="RoomCheckIn"
+        component={RoomCheckInScreen}
+        options={{ title: 'Check In' }}
+      />
     </RoomStack.Navigator>
   );
 }
@@ -81,6 +91,11 @@ function BookingStackNavigator() {
         component={CreateBookingScreen}
         options={{ title: 'Edit Booking' }}
       />
+      <BookingStack.Screen
+        name="Attendance"
+        component={AttendanceScreen}
+        options={{ title: 'Attendance' }}
+      />
     </BookingStack.Navigator>
   );
 }
@@ -116,6 +131,21 @@ function SettingsStackNavigator() {
         component={RoomsManageScreen}
         options={{ title: 'Room Management' }}
       />
+      <SettingsStack.Screen
+        name="Approvals"
+        component={ApprovalsScreen}
+        options={{ title: 'Booking Approvals' }}
+      />
+      <SettingsStack.Screen
+        name="NoShows"
+        component={NoShowsScreen}
+        options={{ title: 'No-Shows' }}
+      />
+      <SettingsStack.Screen
+        name="IcsImport"
+        component={IcsImportScreen}
+        options={{ title: 'Import Calendar' }}
+      />
       <SettingsStack.Screen
         name="Campuses"
         component={CampusesScreen}
@@ -6,6 +6,7 @@ import { AuthNavigator } from './AuthNavigator';
 import { MainNavigator } from './MainNavigator';
 import { LoadingScreen } from '../components/common/LoadingScreen';
 import { useTheme } from '../hooks/useTheme';
+import { linking } from './linking';
 
 export function RootNavigator() {
   const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
@@ -24,6 +25,7 @@ export function RootNavigator() {
 
   return (
     <NavigationContainer
+      linking={linking}
       theme={{
         dark: isDark,
         colors: {
@@ -0,0 +1,29 @@
+import type { LinkingOptions } from '@react-navigation/native';
+import { config } from '../constants/config';
+import type { MainTabParamList } from './types';
+
+const PREFIX = `${config.appScheme}://`;
+
+/**
+ * Deep links into the app. Only the signed-in tabs are linkable; a link
+ * opened while signed out just lands on the login screen.
+ */
+export const linking: LinkingOptions<MainTabParamList> = {
+  prefixes: [PREFIX],
+  config: {
+    screens: {
+      Rooms: {
+        screens: {
+          RoomCheckIn: 'rooms/:roomId/check-in',
+        },
+      },
+    },
+  },
+};
+
+/**
+ * The link encoded in a room's QR code
+ */
+export function roomCheckInUrl(roomId: string): string {
+  return `${PREFIX}rooms/${encodeURIComponent(roomId)}/check-in`;
+}
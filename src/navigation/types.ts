@@ -1,6 +1,7 @@
 import type { NativeStackScreenProps } from '@react-navigation/native-stack';
 import type { BottomTabScreenProps } from '@react-navigation/bottom-tabs';
 import type { CompositeScreenProps, NavigatorScreenParams } from '@react-navigation/native';
+import type { SeriesScope } from '../services/bookings';
 
 // Auth stack
 export type AuthStackParamList = {
@@ -12,14 +13,17 @@ export type AuthStackParamList = {
 export type RoomStackParamList = {
   RoomList: undefined;
   RoomDetail: { roomId: string };
-  CreateBooking: { roomId: string; roomName: string };
+  CreateBooking: { roomId: string; roomName: string; startTime?: string; endTime?: string };
+  // Opened from the QR code posted in the room
+  RoomCheckIn: { roomId: string };
 };
 
 // Booking stack (nested inside My Bookings tab)
 export type BookingStackParamList = {
   BookingList: undefined;
   BookingDetail: { bookingId: string };
-  EditBooking: { bookingId: string };
+  EditBooking: { bookingId: string; scope?: SeriesScope };
+  Attendance: { bookingId: string };
 };
 
 // Settings stack (nested inside Settings tab)
@@ -28,6 +32,9 @@ export type SettingsStackParamList = {
   Analytics: undefined;
   Users: undefined;
   RoomsManage: undefined;
+  Approvals: undefined;
+  NoShows: undefined;
+  IcsImport: undefined;
   // Super Admin screens
   Campuses: undefined;
   CampusDetail: { campusId: string };
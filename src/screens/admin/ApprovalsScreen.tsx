@@ -0,0 +1,247 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  RefreshControl,
+  StyleSheet,
+  Alert,
+  Modal,
+  TextInput,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../../hooks/useTheme';
+import { useAuth } from '../../hooks/useAuth';
+import { usePendingApprovals, useApproveBooking, useRejectBooking } from '../../hooks/useApprovals';
+import { Card, Button, EmptyState, ErrorState } from '../../components/common';
+import { formatBookingDate, formatBookingTime } from '../../utils/date';
+import type { Booking } from '../../types';
+
+// Admin roles that can decide on bookings
+const ADMIN_ROLES = ['ADMIN', 'CAMPUS_ADMIN', 'SUPER_ADMIN'];
+
+export function ApprovalsScreen() {
+  const { colors } = useTheme();
+  const { user } = useAuth();
+  const isAdmin = !!user?.role && ADMIN_ROLES.includes(user.role);
+
+  const { data, isLoading, isRefetching, isError, error, refetch } = usePendingApprovals(isAdmin);
+  const approveBooking = useApproveBooking();
+  const rejectBooking = useRejectBooking();
+  const [rejecting, setRejecting] = useState<Booking | null>(null);
+  const [reason, setReason] = useState('');
+
+  // Decided bookings drop out as soon as realtime updates patch their status
+  const pending = (data?.data || []).filter((booking) => booking.status === 'PENDING');
+  const busyId = approveBooking.isPending
+    ? approveBooking.variables
+    : rejectBooking.isPending
+      ? rejectBooking.variables?.bookingId
+      : undefined;
+
+  const handleApprove = (booking: Booking) => {
+    Alert.alert(
+      'Approve Booking',
+      `Approve "${booking.title}" in ${booking.room.name} for ${booking.user.firstName} ${booking.user.lastName}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Approve', onPress: () => approveBooking.mutate(booking.id) },
+      ]
+    );
+  };
+
+  const openReject = (booking: Booking) => {
+    setReason('');
+    setRejecting(booking);
+  };
+
+  const handleReject = () => {
+    if (!rejecting) return;
+    if (!reason.trim()) {
+      Alert.alert('Reason Required', 'Tell the requester why their booking was rejected.');
+      return;
+    }
+    rejectBooking.mutate({ bookingId: rejecting.id, reason: reason.trim() });
+    setRejecting(null);
+  };
+
+  if (!isAdmin) {
+    return (
+      <View style={[styles.container, { backgroundColor: colors.background }]}>
+        <EmptyState
+          icon="shield-outline"
+          title="Access Denied"
+          subtitle="You need admin privileges to approve bookings"
+        />
+      </View>
+    );
+  }
+
+  const renderBooking = ({ item: booking }: { item: Booking }) => (
+    <Card style={styles.bookingCard}>
+      <Text style={[styles.bookingTitle, { color: colors.text }]} numberOfLines={2}>
+        {booking.title}
+      </Text>
+      <View style={styles.metaRow}>
+        <Ionicons name="person-outline" size={14} color={colors.textSecondary} />
+        <Text style={[styles.metaText, { color: colors.textSecondary }]} numberOfLines={1}>
+          {booking.user.firstName} {booking.user.lastName}
+          {booking.user.email ? ` · ${booking.user.email}` : ''}
+        </Text>
+      </View>
+      <View style={styles.metaRow}>
+        <Ionicons name="business-outline" size={14} color={colors.textSecondary} />
+        <Text style={[styles.metaText, { color: colors.textSecondary }]} numberOfLines={1}>
+          {booking.room.name}
+          {booking.room.building ? `, ${booking.room.building}` : ''}
+        </Text>
+      </View>
+      <View style={styles.metaRow}>
+        <Ionicons name="calendar-outline" size={14} color={colors.textSecondary} />
+        <Text style={[styles.metaText, { color: colors.textSecondary }]}>
+          {formatBookingDate(booking.startTime)}, {formatBookingTime(booking.startTime, booking.endTime)}
+        </Text>
+      </View>
+      {booking.attendees.length > 0 && (
+        <View style={styles.metaRow}>
+          <Ionicons name="people-outline" size={14} color={colors.textSecondary} />
+          <Text style={[styles.metaText, { color: colors.textSecondary }]}>
+            {booking.attendees.length} attendee{booking.attendees.length === 1 ? '' : 's'}
+          </Text>
+        </View>
+      )}
+      {booking.description && (
+        <Text style={[styles.description, { color: colors.textSecondary }]} numberOfLines={3}>
+          {booking.description}
+        </Text>
+      )}
+
+      <View style={styles.actions}>
+        <Button
+          title="Reject"
+          variant="destructive"
+          size="sm"
+          onPress={() => openReject(booking)}
+          disabled={busyId !== undefined}
+          loading={busyId === booking.id && rejectBooking.isPending}
+          style={styles.action}
+        />
+        <Button
+          title="Approve"
+          size="sm"
+          onPress={() => handleApprove(booking)}
+          disabled={busyId !== undefined}
+          loading={busyId === booking.id && approveBooking.isPending}
+          style={styles.action}
+        />
+      </View>
+    </Card>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <FlatList
+        data={pending}
+        renderItem={renderBooking}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={[styles.listContent, pending.length === 0 && styles.listContentCentered]}
+        refreshControl={
+          <RefreshControl
+            refreshing={isLoading || isRefetching}
+            onRefresh={refetch}
+            colors={[colors.primary]}
+            tintColor={colors.primary}
+          />
+        }
+        ListEmptyComponent={
+          isError ? (
+            <ErrorState
+              title="Failed to load approvals"
+              message={error?.message || 'Unable to fetch bookings waiting for approval.'}
+              onRetry={refetch}
+            />
+          ) : !isLoading ? (
+            <EmptyState
+              icon="checkmark-done-outline"
+              title="Nothing to approve"
+              subtitle="Bookings for rooms that need approval will appear here"
+            />
+          ) : null
+        }
+      />
+
+      {/* Reject Reason Modal */}
+      <Modal
+        visible={rejecting !== null}
+        animationType="fade"
+        transparent
+        onRequestClose={() => setRejecting(null)}
+      >
+        <KeyboardAvoidingView
+          behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+          style={styles.modalOverlay}
+        >
+          <View style={[styles.modalContent, { backgroundColor: colors.surface }]}>
+            <Text style={[styles.modalTitle, { color: colors.text }]}>Reject Booking</Text>
+            <Text style={[styles.modalDescription, { color: colors.textSecondary }]}>
+              {rejecting
+                ? `${rejecting.user.firstName} will see this reason for "${rejecting.title}".`
+                : ''}
+            </Text>
+            <TextInput
+              style={[
+                styles.reasonInput,
+                { backgroundColor: colors.surfaceSecondary, color: colors.text, borderColor: colors.border },
+              ]}
+              placeholder="e.g. The room is reserved for board meetings that day"
+              placeholderTextColor={colors.textTertiary}
+              value={reason}
+              onChangeText={setReason}
+              multiline
+              maxLength={500}
+              autoFocus
+            />
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={[styles.modalButton, { backgroundColor: colors.surfaceSecondary }]}
+                onPress={() => setRejecting(null)}
+              >
+                <Text style={[styles.modalButtonText, { color: colors.text }]}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalButton, { backgroundColor: colors.error }]}
+                onPress={handleReject}
+              >
+                <Text style={[styles.modalButtonText, { color: '#fff' }]}>Reject</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  listContent: { padding: 16, gap: 12 },
+  listContentCentered: { flexGrow: 1, justifyContent: 'center', minHeight: 300 },
+  bookingCard: { width: '100%' },
+  bookingTitle: { fontSize: 16, fontWeight: '600', marginBottom: 8 },
+  metaRow: { flexDirection: 'row', alignItems: 'center', gap: 6, marginBottom: 4 },
+  metaText: { fontSize: 13, flex: 1 },
+  description: { fontSize: 13, lineHeight: 18, marginTop: 4 },
+  actions: { flexDirection: 'row', gap: 8, marginTop: 12 },
+  action: { flex: 1 },
+  modalOverlay: { flex: 1, backgroundColor: 'rgba(0,0,0,0.5)', justifyContent: 'center', alignItems: 'center', padding: 20 },
+  modalContent: { width: '100%', maxWidth: 400, borderRadius: 16, padding: 24 },
+  modalTitle: { fontSize: 20, fontWeight: '700', marginBottom: 8 },
+  modalDescription: { fontSize: 14, lineHeight: 20, marginBottom: 16 },
+  reasonInput: { borderWidth: 1, borderRadius: 12, paddingHorizontal: 16, paddingVertical: 12, fontSize: 15, minHeight: 96, textAlignVertical: 'top', marginBottom: 20 },
+  modalButtons: { flexDirection: 'row', gap: 12 },
+  modalButton: { flex: 1, paddingVertical: 14, borderRadius: 12, alignItems: 'center' },
+  modalButtonText: { fontSize: 16, fontWeight: '600' },
+});
@@ -0,0 +1,176 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, FlatList, RefreshControl, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../../hooks/useTheme';
+import { useAuth } from '../../hooks/useAuth';
+import { useNoShows } from '../../hooks/useNoShows';
+import { Card, EmptyState, ErrorState } from '../../components/common';
+import { formatBookingDate, formatBookingTime } from '../../utils/date';
+import type { Booking } from '../../types';
+
+// Admin roles that can see no-show history
+const ADMIN_ROLES = ['ADMIN', 'CAMPUS_ADMIN', 'SUPER_ADMIN'];
+
+const RANGE_OPTIONS = [7, 30, 90];
+
+// Organizers with at least this many no-shows in the range are called out
+const REPEAT_THRESHOLD = 2;
+
+export function NoShowsScreen() {
+  const { colors } = useTheme();
+  const { user } = useAuth();
+  const isAdmin = !!user?.role && ADMIN_ROLES.includes(user.role);
+  const [days, setDays] = useState(30);
+
+  const { data, isLoading, isRefetching, isError, error, refetch } = useNoShows(days, isAdmin);
+  const noShows = useMemo(() => (data?.data || []).filter((booking) => booking.status === 'NO_SHOW'), [data?.data]);
+
+  const repeatOrganizers = useMemo(() => {
+    const counts = new Map<string, { id: string; name: string; count: number }>();
+    for (const booking of noShows) {
+      const name = `${booking.user.firstName} ${booking.user.lastName}`;
+      const entry = counts.get(booking.userId) ?? { id: booking.userId, name, count: 0 };
+      entry.count += 1;
+      counts.set(booking.userId, entry);
+    }
+    return [...counts.values()].filter((entry) => entry.count >= REPEAT_THRESHOLD).sort((a, b) => b.count - a.count);
+  }, [noShows]);
+
+  if (!isAdmin) {
+    return (
+      <View style={[styles.container, { backgroundColor: colors.background }]}>
+        <EmptyState icon="shield-outline" title="Access Denied" subtitle="You need admin privileges to see no-shows" />
+      </View>
+    );
+  }
+
+  const renderHeader = () => (
+    <View>
+      <View style={styles.ranges}>
+        {RANGE_OPTIONS.map((option) => {
+          const isSelected = option === days;
+          return (
+            <TouchableOpacity
+              key={option}
+              style={[
+                styles.rangeChip,
+                {
+                  backgroundColor: isSelected ? colors.primaryLight : colors.surfaceSecondary,
+                  borderColor: isSelected ? colors.primary : 'transparent',
+                },
+              ]}
+              onPress={() => setDays(option)}
+            >
+              <Text style={[styles.rangeText, { color: isSelected ? colors.primary : colors.textSecondary }]}>
+                Last {option} days
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {noShows.length > 0 && (
+        <Card style={styles.summaryCard}>
+          <Text style={[styles.summaryCount, { color: colors.text }]}>{noShows.length}</Text>
+          <Text style={[styles.summaryLabel, { color: colors.textSecondary }]}>
+            booking{noShows.length === 1 ? '' : 's'} released because nobody checked in
+          </Text>
+          {repeatOrganizers.length > 0 && (
+            <View style={[styles.repeats, { borderTopColor: colors.border }]}>
+              <Text style={[styles.repeatsTitle, { color: colors.text }]}>Repeat no-shows</Text>
+              {repeatOrganizers.slice(0, 5).map((entry) => (
+                <View key={entry.id} style={styles.repeatRow}>
+                  <Text style={[styles.repeatName, { color: colors.textSecondary }]} numberOfLines={1}>
+                    {entry.name}
+                  </Text>
+                  <Text style={[styles.repeatCount, { color: colors.warning }]}>{entry.count}</Text>
+                </View>
+              ))}
+            </View>
+          )}
+        </Card>
+      )}
+    </View>
+  );
+
+  const renderBooking = ({ item: booking }: { item: Booking }) => (
+    <Card style={styles.bookingCard}>
+      <Text style={[styles.bookingTitle, { color: colors.text }]} numberOfLines={1}>
+        {booking.title}
+      </Text>
+      <View style={styles.metaRow}>
+        <Ionicons name="person-outline" size={14} color={colors.textSecondary} />
+        <Text style={[styles.metaText, { color: colors.textSecondary }]} numberOfLines={1}>
+          {booking.user.firstName} {booking.user.lastName}
+        </Text>
+      </View>
+      <View style={styles.metaRow}>
+        <Ionicons name="business-outline" size={14} color={colors.textSecondary} />
+        <Text style={[styles.metaText, { color: colors.textSecondary }]} numberOfLines={1}>
+          {booking.room.name}
+        </Text>
+      </View>
+      <View style={styles.metaRow}>
+        <Ionicons name="calendar-outline" size={14} color={colors.textSecondary} />
+        <Text style={[styles.metaText, { color: colors.textSecondary }]}>
+          {formatBookingDate(booking.startTime)}, {formatBookingTime(booking.startTime, booking.endTime)}
+        </Text>
+      </View>
+    </Card>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <FlatList
+        data={noShows}
+        renderItem={renderBooking}
+        keyExtractor={(item) => item.id}
+        ListHeaderComponent={renderHeader}
+        contentContainerStyle={styles.listContent}
+        refreshControl={
+          <RefreshControl
+            refreshing={isLoading || isRefetching}
+            onRefresh={refetch}
+            colors={[colors.primary]}
+            tintColor={colors.primary}
+          />
+        }
+        ListEmptyComponent={
+          isError ? (
+            <ErrorState
+              title="Failed to load no-shows"
+              message={error?.message || 'Unable to fetch released bookings.'}
+              onRetry={refetch}
+            />
+          ) : !isLoading ? (
+            <EmptyState
+              icon="checkmark-circle-outline"
+              title="No no-shows"
+              subtitle="Bookings released because nobody checked in will appear here"
+            />
+          ) : null
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  listContent: { padding: 16, gap: 12, flexGrow: 1 },
+  ranges: { flexDirection: 'row', gap: 8, marginBottom: 12 },
+  rangeChip: { paddingHorizontal: 12, paddingVertical: 8, borderRadius: 16, borderWidth: 1.5 },
+  rangeText: { fontSize: 13, fontWeight: '500' },
+  summaryCard: { marginBottom: 4 },
+  summaryCount: { fontSize: 28, fontWeight: '700' },
+  summaryLabel: { fontSize: 14, marginTop: 2 },
+  repeats: { borderTopWidth: StyleSheet.hairlineWidth, marginTop: 12, paddingTop: 12, gap: 6 },
+  repeatsTitle: { fontSize: 14, fontWeight: '600' },
+  repeatRow: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  repeatName: { flex: 1, fontSize: 14 },
+  repeatCount: { fontSize: 14, fontWeight: '700' },
+  bookingCard: { width: '100%' },
+  bookingTitle: { fontSize: 16, fontWeight: '600', marginBottom: 8 },
+  metaRow: { flexDirection: 'row', alignItems: 'center', gap: 6, marginBottom: 4 },
+  metaText: { fontSize: 13, flex: 1 },
+});
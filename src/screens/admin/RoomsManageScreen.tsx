@@ -11,6 +11,7 @@ import {
   FlatList,
   KeyboardAvoidingView,
   Platform,
+  Switch,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
@@ -19,6 +20,10 @@ import { useAuth } from '../../hooks/useAuth';
 import { Card, Button, Input } from '../../components/common';
 import { adminApi, type CreateRoomData, type UpdateRoomData } from '../../services/admin';
 import { campusesApi } from '../../services/campuses';
+import { sharingService } from '../../services/sharing';
+import { roomCheckInUrl } from '../../navigation/linking';
+import { BookingPolicyFields } from '../../components/room/BookingPolicyFields';
+import { describePolicy, formToPolicy, policyToForm, type PolicyFormValues } from '../../utils/bookingPolicy';
 import type { Room, Campus } from '../../types';
 
 // Admin roles that can access room management
@@ -53,6 +58,7 @@ export function RoomsManageScreen() {
   const [isModalVisible, setIsModalVisible] = useState(false);
   const [editingRoom, setEditingRoom] = useState<Room | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [printingRoomId, setPrintingRoomId] = useState<string | null>(null);
 
   // Form state
   const [formData, setFormData] = useState<CreateRoomData>({
@@ -62,8 +68,13 @@ export function RoomsManageScreen() {
     building: '',
     amenities: [],
     campusId: '',
+    requiresApproval: false,
   });
   const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  // Booking rules, kept as typed until submit; off means the campus defaults apply
+  const [hasOwnPolicy, setHasOwnPolicy] = useState(false);
+  const [policyForm, setPolicyForm] = useState<PolicyFormValues>(policyToForm(null));
+  const [policyErrors, setPolicyErrors] = useState<Partial<PolicyFormValues>>({});
 
   // Check if user is admin
   const isAdmin = user?.role && ADMIN_ROLES.includes(user.role);
@@ -116,8 +127,12 @@ export function RoomsManageScreen() {
       building: '',
       amenities: [],
       campusId: campuses.length > 0 ? campuses[0].id : '',
+      requiresApproval: false,
     });
     setFormErrors({});
+    setHasOwnPolicy(false);
+    setPolicyForm(policyToForm(null));
+    setPolicyErrors({});
     setEditingRoom(null);
   };
 
@@ -139,8 +154,12 @@ export function RoomsManageScreen() {
       building: room.building || '',
       amenities: room.amenities || [],
       campusId: room.campusId,
+      requiresApproval: room.requiresApproval ?? false,
     });
     setFormErrors({});
+    setHasOwnPolicy(!!room.policy);
+    setPolicyForm(policyToForm(room.policy));
+    setPolicyErrors({});
     setIsModalVisible(true);
   };
 
@@ -164,13 +183,18 @@ export function RoomsManageScreen() {
       errors.campusId = 'Please select a campus';
     }
 
+    const { errors: policyFieldErrors } = formToPolicy(policyForm);
+    setPolicyErrors(hasOwnPolicy ? policyFieldErrors : {});
+
     setFormErrors(errors);
-    return Object.keys(errors).length === 0;
+    return Object.keys(errors).length === 0 && (!hasOwnPolicy || Object.keys(policyFieldErrors).length === 0);
   };
 
   const handleSubmit = async () => {
     if (!validateForm()) return;
 
+    const policy = hasOwnPolicy ? formToPolicy(policyForm).policy : null;
+
     setIsSubmitting(true);
 
     try {
@@ -182,6 +206,8 @@ export function RoomsManageScreen() {
           floor: formData.floor,
           building: formData.building,
           amenities: formData.amenities,
+          requiresApproval: formData.requiresApproval,
+          policy,
         };
 
         const response = await adminApi.updateRoom(editingRoom.id, updateData);
@@ -198,7 +224,7 @@ export function RoomsManageScreen() {
         }
       } else {
         // Create new room
-        const response = await adminApi.createRoom(formData);
+        const response = await adminApi.createRoom({ ...formData, policy });
 
         if (response.success && response.data) {
           Alert.alert('Success', 'Room created successfully');
@@ -226,11 +252,26 @@ export function RoomsManageScreen() {
     }));
   };
 
+  const handlePrintQr = async (room: Room) => {
+    setPrintingRoomId(room.id);
+    try {
+      await sharingService.shareRoomQrPdf(room, roomCheckInUrl(room.id));
+    } catch (error: any) {
+      const message = error.response?.data?.message || error.message || 'Unable to create the QR code';
+      Alert.alert('Error', message);
+    } finally {
+      setPrintingRoomId(null);
+    }
+  };
+
   const getCampusName = (campusId: string) => {
     const campus = campuses.find(c => c.id === campusId);
     return campus?.name || 'Unknown Campus';
   };
 
+  const campusPolicy = campuses.find(c => c.id === formData.campusId)?.bookingPolicy;
+  const campusPolicyLines = campusPolicy ? describePolicy(campusPolicy) : [];
+
   // Show access denied if not admin
   if (!isAdmin) {
     return (
@@ -315,6 +356,36 @@ export function RoomsManageScreen() {
             </Text>
           </View>
         )}
+
+        {room.policy && (
+          <View style={styles.roomDetail}>
+            <Ionicons name="options-outline" size={16} color={colors.textTertiary} />
+            <Text style={[styles.roomDetailText, { color: colors.textSecondary }]}>
+              Own booking rules
+            </Text>
+          </View>
+        )}
+
+        {room.requiresApproval && (
+          <View style={styles.roomDetail}>
+            <Ionicons name="shield-checkmark-outline" size={16} color={colors.warning} />
+            <Text style={[styles.roomDetailText, { color: colors.warning }]}>
+              Needs approval
+            </Text>
+          </View>
+        )}
+
+        <TouchableOpacity
+          style={styles.roomDetail}
+          onPress={() => handlePrintQr(room)}
+          disabled={printingRoomId !== null}
+          hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+        >
+          <Ionicons name="qr-code-outline" size={16} color={colors.primary} />
+          <Text style={[styles.roomDetailText, { color: colors.primary }]}>
+            {printingRoomId === room.id ? 'Preparing...' : 'Print QR'}
+          </Text>
+        </TouchableOpacity>
       </View>
 
       {room.amenities && room.amenities.length > 0 && (
@@ -532,6 +603,48 @@ export function RoomsManageScreen() {
                 {AMENITIES_OPTIONS.map(renderAmenityOption)}
               </View>
 
+              {/* Approval */}
+              <View style={styles.switchRow}>
+                <View style={{ flex: 1 }}>
+                  <Text style={[styles.switchLabel, { color: colors.text }]}>Require approval</Text>
+                  <Text style={[styles.switchHint, { color: colors.textSecondary }]}>
+                    Bookings stay pending until a campus admin approves them
+                  </Text>
+                </View>
+                <Switch
+                  value={!!formData.requiresApproval}
+                  onValueChange={(value) => setFormData({ ...formData, requiresApproval: value })}
+                  trackColor={{ false: colors.border, true: colors.primary }}
+                />
+              </View>
+
+              {/* Booking Rules */}
+              <View style={styles.switchRow}>
+                <View style={{ flex: 1 }}>
+                  <Text style={[styles.switchLabel, { color: colors.text }]}>Own booking rules</Text>
+                  <Text style={[styles.switchHint, { color: colors.textSecondary }]}>
+                    {hasOwnPolicy
+                      ? 'Blank fields have no limit'
+                      : campusPolicyLines.length > 0
+                        ? `Campus defaults: ${campusPolicyLines.join('; ')}`
+                        : 'The campus sets no limits'}
+                  </Text>
+                </View>
+                <Switch
+                  value={hasOwnPolicy}
+                  onValueChange={(value) => {
+                    if (value && !editingRoom?.policy) setPolicyForm(policyToForm(campusPolicy));
+                    setHasOwnPolicy(value);
+                  }}
+                  trackColor={{ false: colors.border, true: colors.primary }}
+                />
+              </View>
+              {hasOwnPolicy && (
+                <View style={styles.policyFields}>
+                  <BookingPolicyFields values={policyForm} errors={policyErrors} onChange={setPolicyForm} />
+                </View>
+              )}
+
               {/* Submit Button */}
               <Button
                 title={editingRoom ? 'Update Room' : 'Create Room'}
@@ -759,4 +872,21 @@ const styles = StyleSheet.create({
     marginBottom: 12,
     marginLeft: 4,
   },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 20,
+  },
+  switchLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  switchHint: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  policyFields: {
+    marginTop: 16,
+  },
 });
@@ -0,0 +1,184 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, ScrollView, RefreshControl, StyleSheet, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { format, isBefore, parseISO, subMinutes } from 'date-fns';
+import { useTheme } from '../../hooks/useTheme';
+import { useAuth } from '../../hooks/useAuth';
+import { useBooking } from '../../hooks/useBookings';
+import { useCheckInAttendee, useCheckInStatus } from '../../hooks/useCheckins';
+import { Button, Card, ErrorState, LoadingScreen } from '../../components/common';
+import { sharingService } from '../../services/sharing';
+import { attendanceCsv, buildAttendance, summarizeAttendance, type AttendanceRow } from '../../utils/attendance';
+import { EARLY_CHECK_IN_MINUTES } from '../../utils/roomCheckIn';
+import { formatBookingDate, formatBookingTime } from '../../utils/date';
+import type { BookingScreenProps } from '../../navigation/types';
+
+/**
+ * Who was invited to a booking against who checked in, with manual
+ * check-in for the organizer and a CSV export
+ */
+export function AttendanceScreen({ route }: BookingScreenProps<'Attendance'>) {
+  const { bookingId } = route.params;
+  const { colors } = useTheme();
+  const { user } = useAuth();
+  const { data: bookingData, isLoading: loadingBooking } = useBooking(bookingId);
+  const { data: statusData, isLoading: loadingStatus, isError, isRefetching, refetch } = useCheckInStatus(bookingId);
+  const checkInAttendee = useCheckInAttendee();
+  const [exporting, setExporting] = useState(false);
+
+  const booking = bookingData?.data;
+  const rows = useMemo(
+    () => (booking ? buildAttendance(booking, statusData?.data?.checkIns || []) : []),
+    [booking, statusData?.data?.checkIns]
+  );
+  const summary = summarizeAttendance(rows);
+
+  if (loadingBooking || loadingStatus) {
+    return <LoadingScreen message="Loading attendance..." />;
+  }
+
+  if (!booking || isError) {
+    return (
+      <View style={[styles.container, { backgroundColor: colors.background }]}>
+        <ErrorState title="Couldn't load attendance" message="Check your connection and try again." onRetry={refetch} />
+      </View>
+    );
+  }
+
+  // Check-in opens a little before the start, same as scanning the room's code, and closes at the end
+  const now = new Date();
+  const canCheckInOthers =
+    booking.userId === user?.id &&
+    booking.status === 'CONFIRMED' &&
+    !isBefore(now, subMinutes(parseISO(booking.startTime), EARLY_CHECK_IN_MINUTES)) &&
+    isBefore(now, parseISO(booking.endTime));
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      await sharingService.shareAttendanceCsv(booking, attendanceCsv(rows));
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to export attendance');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const statusStyle = (row: AttendanceRow) => {
+    switch (row.status) {
+      case 'present':
+        return { label: 'Present', color: colors.success, background: colors.successLight };
+      case 'late':
+        return { label: `${row.minutesLate} min late`, color: colors.warning, background: colors.warningLight };
+      case 'absent':
+        return { label: 'Absent', color: colors.error, background: colors.errorLight };
+    }
+  };
+
+  const renderStat = (label: string, value: number, color: string) => (
+    <View style={styles.stat}>
+      <Text style={[styles.statValue, { color }]}>{value}</Text>
+      <Text style={[styles.statLabel, { color: colors.textSecondary }]}>{label}</Text>
+    </View>
+  );
+
+  return (
+    <ScrollView
+      style={{ backgroundColor: colors.background }}
+      contentContainerStyle={styles.content}
+      refreshControl={
+        <RefreshControl refreshing={isRefetching} onRefresh={refetch} colors={[colors.primary]} tintColor={colors.primary} />
+      }
+    >
+      <Text style={[styles.title, { color: colors.text }]}>{booking.title}</Text>
+      <Text style={[styles.subtitle, { color: colors.textSecondary }]}>
+        {formatBookingDate(booking.startTime)}, {formatBookingTime(booking.startTime, booking.endTime)} · {booking.room.name}
+      </Text>
+
+      <Card style={styles.summaryCard}>
+        <View style={styles.stats}>
+          {renderStat('Present', summary.present, colors.success)}
+          {renderStat('Late', summary.late, colors.warning)}
+          {renderStat('Absent', summary.absent, colors.error)}
+        </View>
+        <Text style={[styles.summaryText, { color: colors.textSecondary }]}>
+          {summary.present + summary.late - summary.uninvited} of {summary.invited} invited checked in
+          {summary.uninvited > 0 ? `, plus ${summary.uninvited} not on the invite` : ''}
+        </Text>
+      </Card>
+
+      <Card style={styles.listCard}>
+        {rows.map((row, index) => {
+          const status = statusStyle(row);
+          return (
+            <View key={row.email || index}>
+              <View style={styles.row}>
+                <View style={{ flex: 1 }}>
+                  <Text style={[styles.name, { color: colors.text }]} numberOfLines={1}>
+                    {row.name}
+                    {row.isOrganizer ? ' (organizer)' : ''}
+                  </Text>
+                  <Text style={[styles.meta, { color: colors.textTertiary }]} numberOfLines={1}>
+                    {row.checkedInAt
+                      ? `Checked in ${format(parseISO(row.checkedInAt), 'h:mm a')}`
+                      : row.email}
+                    {row.isUninvited ? ' · not invited' : ''}
+                  </Text>
+                </View>
+                {row.status === 'absent' && canCheckInOthers ? (
+                  <TouchableOpacity
+                    style={[styles.checkInButton, { borderColor: colors.primary }]}
+                    onPress={() => checkInAttendee.mutate({ bookingId: booking.id, email: row.email })}
+                    disabled={checkInAttendee.isPending}
+                  >
+                    {checkInAttendee.isPending && checkInAttendee.variables?.email === row.email ? (
+                      <ActivityIndicator size="small" color={colors.primary} />
+                    ) : (
+                      <Text style={[styles.checkInText, { color: colors.primary }]}>Check in</Text>
+                    )}
+                  </TouchableOpacity>
+                ) : (
+                  <View style={[styles.statusPill, { backgroundColor: status.background }]}>
+                    <Text style={[styles.statusText, { color: status.color }]}>{status.label}</Text>
+                  </View>
+                )}
+              </View>
+              {index < rows.length - 1 && <View style={[styles.divider, { backgroundColor: colors.border }]} />}
+            </View>
+          );
+        })}
+      </Card>
+
+      <Button
+        title="Export CSV"
+        variant="outline"
+        icon={<Ionicons name="download-outline" size={16} color={colors.primary} />}
+        onPress={handleExport}
+        loading={exporting}
+        fullWidth
+      />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, justifyContent: 'center' },
+  content: { padding: 16, gap: 12 },
+  title: { fontSize: 20, fontWeight: '700' },
+  subtitle: { fontSize: 13, marginTop: -6 },
+  summaryCard: { gap: 12 },
+  stats: { flexDirection: 'row' },
+  stat: { flex: 1, alignItems: 'center' },
+  statValue: { fontSize: 24, fontWeight: '700' },
+  statLabel: { fontSize: 12, marginTop: 2 },
+  summaryText: { fontSize: 13, textAlign: 'center' },
+  listCard: { paddingVertical: 4 },
+  row: { flexDirection: 'row', alignItems: 'center', gap: 12, paddingVertical: 10 },
+  name: { fontSize: 15, fontWeight: '500' },
+  meta: { fontSize: 12, marginTop: 2 },
+  statusPill: { paddingHorizontal: 10, paddingVertical: 4, borderRadius: 12 },
+  statusText: { fontSize: 12, fontWeight: '600' },
+  checkInButton: { paddingHorizontal: 12, paddingVertical: 6, borderRadius: 14, borderWidth: 1, minWidth: 76, alignItems: 'center' },
+  checkInText: { fontSize: 13, fontWeight: '600' },
+  divider: { height: StyleSheet.hairlineWidth },
+});
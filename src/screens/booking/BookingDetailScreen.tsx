@@ -11,19 +11,31 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '../../hooks/useTheme';
 import { useBooking, useCancelBooking } from '../../hooks/useBookings';
-import { useCheckIn, useCheckInStatus } from '../../hooks/useCheckins';
+import { useAuth } from '../../hooks/useAuth';
+import { useCheckIn, useCheckInStatus, useCheckOut } from '../../hooks/useCheckins';
 import { Button, Card, StatusBadge } from '../../components/common';
+import { SeriesScopeModal } from '../../components/booking/SeriesScopeModal';
+import { ExtendMeetingActions } from '../../components/booking/ExtendMeetingActions';
+import { sharingService } from '../../services/sharing';
 import { formatFullDate, formatBookingTime } from '../../utils/date';
-import { isAfter, isBefore, parseISO } from 'date-fns';
+import { describeRecurrenceRule } from '../../utils/recurrence';
+import { holdsRoom } from '../../utils/bookingStatus';
+import { format, isAfter, isBefore, parseISO } from 'date-fns';
 import type { BookingScreenProps } from '../../navigation/types';
+import type { SeriesScope } from '../../services/bookings';
+import type { Room } from '../../types';
 
 export function BookingDetailScreen({ route, navigation }: BookingScreenProps<'BookingDetail'>) {
   const { bookingId } = route.params;
   const { colors } = useTheme();
   const { data, isLoading } = useBooking(bookingId);
   const cancelBooking = useCancelBooking();
+  const { user } = useAuth();
   const checkIn = useCheckIn();
+  const checkOut = useCheckOut();
   const { data: checkInData } = useCheckInStatus(bookingId);
+  const [scopeAction, setScopeAction] = useState<'edit' | 'cancel' | null>(null);
+  const [exporting, setExporting] = useState<'ics' | 'pdf' | null>(null);
 
   const booking = data?.data;
   const isCheckedIn = checkInData?.data?.totalCheckedIn
@@ -37,13 +49,32 @@ export function BookingDetailScreen({ route, navigation }: BookingScreenProps<'B
     isBefore(parseISO(booking.startTime), now) &&
     isAfter(parseISO(booking.endTime), now);
 
+  // Organizers get the attendance report once the meeting has started
+  const showAttendance =
+    booking &&
+    booking.userId === user?.id &&
+    booking.status === 'CONFIRMED' &&
+    !isAfter(parseISO(booking.startTime), now);
+
   const isUpcoming =
     booking &&
     booking.status === 'CONFIRMED' &&
     isAfter(parseISO(booking.startTime), now);
 
+  // Pending requests can still be withdrawn until the meeting is over
+  const isAwaitingApproval =
+    booking &&
+    booking.status === 'PENDING' &&
+    isAfter(parseISO(booking.endTime), now);
+
+  const isRecurring = !!booking?.recurrenceRule;
+
   const handleCancel = () => {
     if (!booking) return;
+    if (isRecurring) {
+      setScopeAction('cancel');
+      return;
+    }
     Alert.alert(
       'Cancel Booking',
       `Are you sure you want to cancel "${booking.title}"?`,
@@ -53,7 +84,7 @@ export function BookingDetailScreen({ route, navigation }: BookingScreenProps<'B
           text: 'Yes, Cancel',
           style: 'destructive',
           onPress: () => {
-            cancelBooking.mutate(booking.id);
+            cancelBooking.mutate({ id: booking.id });
             navigation.goBack();
           },
         },
@@ -61,11 +92,72 @@ export function BookingDetailScreen({ route, navigation }: BookingScreenProps<'B
     );
   };
 
+  const handleEdit = () => {
+    if (!booking) return;
+    if (isRecurring) {
+      setScopeAction('edit');
+      return;
+    }
+    navigation.navigate('EditBooking', { bookingId: booking.id });
+  };
+
+  const handleScopeSelect = (scope: SeriesScope) => {
+    if (!booking) return;
+    const action = scopeAction;
+    setScopeAction(null);
+    if (action === 'edit') {
+      navigation.navigate('EditBooking', { bookingId: booking.id, scope });
+    } else if (action === 'cancel') {
+      cancelBooking.mutate({ id: booking.id, scope });
+      navigation.goBack();
+    }
+  };
+
+  const handleExport = async (type: 'ics' | 'pdf') => {
+    if (!booking) return;
+    setExporting(type);
+    try {
+      if (type === 'ics') {
+        await sharingService.shareBookingIcs(booking);
+      } else {
+        await sharingService.shareBookingPdf(booking);
+      }
+    } catch (error: any) {
+      Alert.alert(
+        'Error',
+        error.response?.data?.message ||
+          error.message ||
+          (type === 'ics' ? 'Failed to export booking' : 'Failed to download confirmation')
+      );
+    } finally {
+      setExporting(null);
+    }
+  };
+
   const handleCheckIn = () => {
     if (!booking) return;
     checkIn.mutate(booking.id);
   };
 
+  const handleEndMeeting = () => {
+    if (!booking) return;
+    Alert.alert(
+      'End Meeting Now',
+      `Free ${booking.room?.name || 'the room'} for the rest of the booking? This can't be undone.`,
+      [
+        { text: 'Keep Going', style: 'cancel' },
+        { text: 'End Meeting', style: 'destructive', onPress: () => checkOut.mutate(booking.id) },
+      ]
+    );
+  };
+
+  const handleMoveToRoom = (room: Room, startTime: string, endTime: string) => {
+    navigation.getParent()?.navigate('Rooms', {
+      screen: 'CreateBooking',
+      params: { roomId: room.id, roomName: room.name, startTime, endTime },
+    });
+  };
+
   if (isLoading) {
     return (
       <View style={[styles.loadingContainer, { backgroundColor: colors.background }]}>
@@ -99,6 +191,54 @@ export function BookingDetailScreen({ route, navigation }: BookingScreenProps<'B
           )}
         </View>
 
+        {/* Approval */}
+        {booking.status === 'PENDING' && (
+          <View style={[styles.approvalBanner, { backgroundColor: colors.warningLight }]}>
+            <Ionicons name="hourglass-outline" size={20} color={colors.warning} />
+            <View style={{ flex: 1 }}>
+              <Text style={[styles.approvalTitle, { color: colors.warning }]}>Waiting for approval</Text>
+              <Text style={[styles.approvalText, { color: colors.text }]}>
+                {booking.room?.name || 'This room'} needs a campus admin to approve bookings. You'll get a
+                notification when they decide.
+              </Text>
+            </View>
+          </View>
+        )}
+        {booking.status === 'REJECTED' && (
+          <View style={[styles.approvalBanner, { backgroundColor: colors.errorLight }]}>
+            <Ionicons name="close-circle-outline" size={20} color={colors.error} />
+            <View style={{ flex: 1 }}>
+              <Text style={[styles.approvalTitle, { color: colors.error }]}>
+                {booking.decision
+                  ? `Rejected by ${booking.decision.decidedBy.firstName} ${booking.decision.decidedBy.lastName}`
+                  : 'Rejected'}
+              </Text>
+              {booking.decision?.reason && (
+                <Text style={[styles.approvalText, { color: colors.text }]}>{booking.decision.reason}</Text>
+              )}
+            </View>
+          </View>
+        )}
+        {booking.status === 'NO_SHOW' && (
+          <View style={[styles.approvalBanner, { backgroundColor: colors.surfaceSecondary }]}>
+            <Ionicons name="log-out-outline" size={20} color={colors.textSecondary} />
+            <View style={{ flex: 1 }}>
+              <Text style={[styles.approvalTitle, { color: colors.text }]}>Room released</Text>
+              <Text style={[styles.approvalText, { color: colors.textSecondary }]}>
+                Nobody checked in, so {booking.room?.name || 'the room'} was freed for others.
+              </Text>
+            </View>
+          </View>
+        )}
+        {booking.status === 'CONFIRMED' && booking.decision && (
+          <View style={[styles.approvalBanner, { backgroundColor: colors.successLight }]}>
+            <Ionicons name="shield-checkmark-outline" size={20} color={colors.success} />
+            <Text style={[styles.approvalText, { color: colors.text, flex: 1 }]}>
+              Approved by {booking.decision.decidedBy.firstName} {booking.decision.decidedBy.lastName}
+            </Text>
+          </View>
+        )}
+
         {/* Title & Description */}
         <Text style={[styles.title, { color: colors.text }]} numberOfLines={2}>
           {booking.title}
@@ -130,6 +270,20 @@ export function BookingDetailScreen({ route, navigation }: BookingScreenProps<'B
               </Text>
             </View>
           </View>
+          {booking.recurrenceRule && (
+            <>
+              <View style={[styles.divider, { backgroundColor: colors.border }]} />
+              <View style={styles.detailRow}>
+                <Ionicons name="repeat-outline" size={20} color={colors.primary} />
+                <View style={{ flex: 1 }}>
+                  <Text style={[styles.detailLabel, { color: colors.textSecondary }]}>Repeats</Text>
+                  <Text style={[styles.detailValue, { color: colors.text }]}>
+                    {describeRecurrenceRule(booking.recurrenceRule, parseISO(booking.startTime))}
+                  </Text>
+                </View>
+              </View>
+            </>
+          )}
         </Card>
 
         {/* Room Card */}
@@ -206,6 +360,30 @@ export function BookingDetailScreen({ route, navigation }: BookingScreenProps<'B
           </View>
         )}
 
+        {/* Attendance */}
+        {showAttendance && (
+          <TouchableOpacity
+            style={styles.section}
+            onPress={() => navigation.navigate('Attendance', { bookingId: booking.id })}
+            activeOpacity={0.8}
+          >
+            <Card style={styles.checkedInCard}>
+              <View style={styles.checkedInRow}>
+                <Ionicons name="people-outline" size={22} color={colors.primary} />
+                <View style={{ flex: 1 }}>
+                  <Text style={[styles.detailValue, { color: colors.text }]}>Attendance</Text>
+                  {checkInData?.data && (
+                    <Text style={[styles.detailSub, { color: colors.textSecondary }]}>
+                      {checkInData.data.totalCheckedIn} of {checkInData.data.totalExpected} checked in
+                    </Text>
+                  )}
+                </View>
+                <Ionicons name="chevron-forward" size={20} color={colors.textTertiary} />
+              </View>
+            </Card>
+          </TouchableOpacity>
+        )}
+
         {/* Check-in Status */}
         {isCurrentlyHappening && (
           <View style={styles.section}>
@@ -220,30 +398,99 @@ export function BookingDetailScreen({ route, navigation }: BookingScreenProps<'B
                 </View>
               </Card>
             ) : (
-              <Button
-                title="Check In Now"
-                onPress={handleCheckIn}
-                loading={checkIn.isPending}
-                fullWidth
-                size="lg"
-              />
+              <>
+                <Button
+                  title="Check In Now"
+                  onPress={handleCheckIn}
+                  loading={checkIn.isPending}
+                  fullWidth
+                  size="lg"
+                />
+                {booking.releaseAt && (
+                  <Text style={[styles.releaseHint, { color: colors.warning }]}>
+                    Check in by {format(parseISO(booking.releaseAt), 'h:mm a')} or the room will be released
+                  </Text>
+                )}
+              </>
+            )}
+            {booking.userId === user?.id && (
+              <>
+                <View style={styles.extendRow}>
+                  <ExtendMeetingActions booking={booking} onMoveToRoom={handleMoveToRoom} />
+                </View>
+                <Button
+                  title="End Meeting Now"
+                  variant="outline"
+                  icon={<Ionicons name="stop-circle-outline" size={16} color={colors.primary} />}
+                  onPress={handleEndMeeting}
+                  loading={checkOut.isPending}
+                  fullWidth
+                  style={styles.endMeetingButton}
+                />
+              </>
             )}
           </View>
         )}
 
+        {/* Export */}
+        {holdsRoom(booking) && (
+          <View style={styles.exportRow}>
+            <Button
+              title="Add to Calendar"
+              variant="outline"
+              size="sm"
+              onPress={() => handleExport('ics')}
+              loading={exporting === 'ics'}
+              disabled={exporting !== null}
+              icon={<Ionicons name="calendar-outline" size={16} color={colors.primary} />}
+              style={{ flex: 1 }}
+            />
+            <Button
+              title="PDF Confirmation"
+              variant="outline"
+              size="sm"
+              onPress={() => handleExport('pdf')}
+              loading={exporting === 'pdf'}
+              disabled={exporting !== null}
+              icon={<Ionicons name="download-outline" size={16} color={colors.primary} />}
+              style={{ flex: 1 }}
+            />
+          </View>
+        )}
+
         {/* Actions */}
-        {(isUpcoming || isCurrentlyHappening) && booking.status === 'CONFIRMED' && (
+        {(isUpcoming || isCurrentlyHappening || isAwaitingApproval) && (
           <View style={styles.actions}>
+            {isUpcoming && (
+              <Button
+                title="Edit Booking"
+                variant="outline"
+                onPress={handleEdit}
+                fullWidth
+                style={{ marginBottom: 12 }}
+              />
+            )}
             <TouchableOpacity
               onPress={handleCancel}
               style={[styles.cancelButton, { borderColor: colors.error }]}
             >
               <Ionicons name="close-circle-outline" size={18} color={colors.error} />
-              <Text style={[styles.cancelText, { color: colors.error }]}>Cancel Booking</Text>
+              <Text style={[styles.cancelText, { color: colors.error }]}>
+                {isAwaitingApproval ? 'Withdraw Request' : 'Cancel Booking'}
+              </Text>
             </TouchableOpacity>
           </View>
         )}
       </ScrollView>
+
+      <SeriesScopeModal
+        visible={scopeAction !== null}
+        title={scopeAction === 'cancel' ? 'Cancel recurring booking' : 'Edit recurring booking'}
+        message={`"${booking.title}" is part of a series. Which bookings should change?`}
+        destructive={scopeAction === 'cancel'}
+        onSelect={handleScopeSelect}
+        onClose={() => setScopeAction(null)}
+      />
     </View>
   );
 }
@@ -257,6 +504,9 @@ const styles = StyleSheet.create({
   liveBadge: { flexDirection: 'row', alignItems: 'center', gap: 6, paddingHorizontal: 10, paddingVertical: 4, borderRadius: 20 },
   liveDot: { width: 8, height: 8, borderRadius: 4 },
   liveText: { fontSize: 12, fontWeight: '600' },
+  approvalBanner: { flexDirection: 'row', alignItems: 'flex-start', gap: 10, borderRadius: 12, padding: 12, marginBottom: 16 },
+  approvalTitle: { fontSize: 14, fontWeight: '600', marginBottom: 2 },
+  approvalText: { fontSize: 14, lineHeight: 20 },
   title: { fontSize: 24, fontWeight: '700', marginBottom: 8 },
   description: { fontSize: 15, lineHeight: 22, marginBottom: 20 },
   detailCard: { marginBottom: 12 },
@@ -277,6 +527,10 @@ const styles = StyleSheet.create({
   checkedInCard: { padding: 16 },
   checkedInRow: { flexDirection: 'row', alignItems: 'center', gap: 10 },
   checkedInText: { fontSize: 16, fontWeight: '600' },
+  releaseHint: { fontSize: 13, textAlign: 'center', marginTop: 8 },
+  extendRow: { marginTop: 12 },
+  endMeetingButton: { marginTop: 12 },
+  exportRow: { flexDirection: 'row', gap: 12, marginTop: 8 },
   actions: { marginTop: 16 },
   cancelButton: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: 8, borderWidth: 1.5, borderRadius: 12, paddingVertical: 14 },
   cancelText: { fontSize: 15, fontWeight: '600' },
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -14,22 +14,23 @@ import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { Ionicons } from '@expo/vector-icons';
-import { format, parseISO, addWeeks, addMonths } from 'date-fns';
+import { format, parseISO } from 'date-fns';
 import { useTheme } from '../../hooks/useTheme';
 import { useCreateBooking, useUpdateBooking, useBooking } from '../../hooks/useBookings';
 import { Button, Input, Card } from '../../components/common';
+import { RecurrenceEditor } from '../../components/booking/RecurrenceEditor';
+import { ConflictPanel } from '../../components/booking/ConflictPanel';
+import { AttendeePicker } from '../../components/booking/AttendeePicker';
+import { useConflictCheck } from '../../hooks/useConflictCheck';
 import { notificationService } from '../../services/notifications';
+import { roomsApi } from '../../services/rooms';
+import { checkBookingRules } from '../../services/bookingRules';
+import type { AttendeeInput } from '../../services/bookings';
+import { describeRecurrenceRule, expandRecurrence, formatRecurrenceRule, type RecurrenceRule } from '../../utils/recurrence';
+import type { TimeSlot } from '../../utils/availability';
+import { describePolicy, latestBookableDate, seriesViolations } from '../../utils/bookingPolicy';
 import type { RoomScreenProps, BookingScreenProps } from '../../navigation/types';
-
-type RecurrenceType = 'none' | 'daily' | 'weekly' | 'biweekly' | 'monthly';
-
-const RECURRENCE_OPTIONS: { value: RecurrenceType; label: string; icon: string }[] = [
-  { value: 'none', label: 'Does not repeat', icon: 'close-circle-outline' },
-  { value: 'daily', label: 'Every day', icon: 'today-outline' },
-  { value: 'weekly', label: 'Every week', icon: 'calendar-outline' },
-  { value: 'biweekly', label: 'Every 2 weeks', icon: 'calendar-outline' },
-  { value: 'monthly', label: 'Every month', icon: 'calendar-number-outline' },
-];
+import type { Room } from '../../types';
 
 const bookingSchema = z.object({
   title: z
@@ -47,7 +48,11 @@ export function CreateBookingScreen({ route, navigation }: CreateBookingScreenPr
   // Check if we're in edit mode by checking if bookingId exists
   const isEditMode = 'bookingId' in route.params;
   const bookingId = isEditMode ? route.params.bookingId : undefined;
+  const editScope = 'scope' in route.params ? route.params.scope : undefined;
   const { roomId, roomName } = 'roomId' in route.params ? route.params : { roomId: '', roomName: '' };
+  // Optional prefilled slot, e.g. from tapping a free gap on the room timeline
+  const prefillStart = 'startTime' in route.params && route.params.startTime ? parseISO(route.params.startTime) : undefined;
+  const prefillEnd = 'endTime' in route.params && route.params.endTime ? parseISO(route.params.endTime) : undefined;
 
   const { colors } = useTheme();
   const createBooking = useCreateBooking();
@@ -65,15 +70,42 @@ export function CreateBookingScreen({ route, navigation }: CreateBookingScreenPr
   const endHour = new Date(nextHour);
   endHour.setHours(nextHour.getHours() + 1);
 
-  const [selectedDate, setSelectedDate] = useState(now);
-  const [startTime, setStartTime] = useState(nextHour);
-  const [endTime, setEndTime] = useState(endHour);
+  const [selectedDate, setSelectedDate] = useState(prefillStart ?? now);
+  const [startTime, setStartTime] = useState(prefillStart ?? nextHour);
+  const [endTime, setEndTime] = useState(prefillEnd ?? endHour);
 
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [showStartPicker, setShowStartPicker] = useState(false);
   const [showEndPicker, setShowEndPicker] = useState(false);
-  const [recurrence, setRecurrence] = useState<RecurrenceType>('none');
-  const [showRecurrencePicker, setShowRecurrencePicker] = useState(false);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null);
+  const [attendees, setAttendees] = useState<AttendeeInput[]>([]);
+
+  // The picked day and times
+  const firstStart = useMemo(() => {
+    const start = new Date(selectedDate);
+    start.setHours(startTime.getHours(), startTime.getMinutes(), 0, 0);
+    return start;
+  }, [selectedDate, startTime]);
+
+  const requestedEnd = useMemo(() => {
+    const end = new Date(selectedDate);
+    end.setHours(endTime.getHours(), endTime.getMinutes(), 0, 0);
+    return end;
+  }, [selectedDate, endTime]);
+
+  // A series starts on its first generated date, which may be later than the
+  // picked day (e.g. "second Tuesday"). A skipped first date stays the start
+  // and is excluded by EXDATE, so COUNT means the same to the server.
+  const seriesStart = useMemo(
+    () =>
+      (recurrence && expandRecurrence(recurrence, firstStart, { limit: 1, includeExcluded: true })[0]) || firstStart,
+    [recurrence, firstStart]
+  );
+
+  const seriesEnd = useMemo(
+    () => new Date(seriesStart.getTime() + requestedEnd.getTime() - firstStart.getTime()),
+    [seriesStart, firstStart, requestedEnd]
+  );
 
   // Initialize form with existing booking data when in edit mode
   useEffect(() => {
@@ -92,6 +124,12 @@ export function CreateBookingScreen({ route, navigation }: CreateBookingScreenPr
       setSelectedDate(startDate);
       setStartTime(startDate);
       setEndTime(endDate);
+      setAttendees(
+        (booking.attendees || []).map((attendee) => ({
+          email: attendee.email,
+          name: attendee.name ?? undefined,
+        }))
+      );
     }
   }, [isEditMode, bookingData]);
 
@@ -99,6 +137,43 @@ export function CreateBookingScreen({ route, navigation }: CreateBookingScreenPr
   const currentRoomId = isEditMode && bookingData?.data ? bookingData.data.room.id : roomId;
   const currentRoomName = isEditMode && bookingData?.data ? bookingData.data.room.name : roomName;
 
+  // Checks the first occurrence against the room's schedule as times change
+  const conflictCheck = useConflictCheck({
+    roomId: currentRoomId,
+    start: seriesStart,
+    end: seriesEnd,
+    excludeBookingId: bookingId,
+    suggestRooms: !isEditMode,
+  });
+
+  // The room's booking rules, shown above the form and checked as times change
+  const policyLines = describePolicy(conflictCheck.policy);
+  // Every date of a series must keep to the rules, not just the first
+  const violations = useMemo(
+    () =>
+      seriesViolations(
+        conflictCheck.policy,
+        recurrence ? expandRecurrence(recurrence, seriesStart) : [seriesStart],
+        seriesEnd.getTime() - seriesStart.getTime(),
+        new Date(),
+        !!recurrence && !recurrence.count && !recurrence.until
+      ),
+    [conflictCheck.policy, recurrence, seriesStart, seriesEnd]
+  );
+
+  const applySlot = (slot: TimeSlot) => {
+    setSelectedDate(slot.start);
+    setStartTime(slot.start);
+    setEndTime(slot.end);
+  };
+
+  const switchRoom = (room: Room) => {
+    (navigation as RoomScreenProps<'CreateBooking'>['navigation']).setParams({
+      roomId: room.id,
+      roomName: room.name,
+    });
+  };
+
   const {
     control,
     handleSubmit,
@@ -113,12 +188,9 @@ export function CreateBookingScreen({ route, navigation }: CreateBookingScreenPr
   });
 
   const onSubmit = async (data: BookingFormData) => {
-    // Combine date and times
-    const start = new Date(selectedDate);
-    start.setHours(startTime.getHours(), startTime.getMinutes(), 0, 0);
-
-    const end = new Date(selectedDate);
-    end.setHours(endTime.getHours(), endTime.getMinutes(), 0, 0);
+    // Combine date and times, moved to the series' first date
+    const start = new Date(seriesStart);
+    const end = new Date(seriesEnd);
 
     if (end <= start) {
       const { Alert } = require('react-native');
@@ -132,39 +204,73 @@ export function CreateBookingScreen({ route, navigation }: CreateBookingScreenPr
       return;
     }
 
-    // Build recurrence rule
-    let recurrenceRule: string | undefined;
-    if (recurrence !== 'none') {
-      const freqMap: Record<string, string> = {
-        daily: 'DAILY',
-        weekly: 'WEEKLY',
-        biweekly: 'WEEKLY;INTERVAL=2',
-        monthly: 'MONTHLY',
-      };
-      recurrenceRule = `FREQ=${freqMap[recurrence]}`;
+    if (recurrence && expandRecurrence(recurrence, start, { limit: 1 }).length === 0) {
+      const { Alert } = require('react-native');
+      Alert.alert('Invalid Recurrence', 'This repeat pattern does not produce any dates.');
+      return;
+    }
+
+    if (violations.length > 0) {
+      const { Alert } = require('react-native');
+      Alert.alert('Outside Booking Rules', violations.join('\n'));
+      return;
+    }
+
+    if (conflictCheck.hasConflict) {
+      const { Alert } = require('react-native');
+      Alert.alert('Time Conflict', 'This room is already booked at that time. Pick one of the suggested times or rooms.');
+      return;
     }
 
+    // The panel only checks the first date; every date of a new series must be
+    // clear of other bookings and their setup and teardown time too
+    if (!isEditMode && recurrence) {
+      const { Alert } = require('react-native');
+      setLoading(true);
+      try {
+        const room = await roomsApi.getById(currentRoomId);
+        if (!room.data) throw new Error('Room not found');
+        const check = await checkBookingRules(
+          room.data,
+          expandRecurrence(recurrence, start),
+          end.getTime() - start.getTime(),
+          { openEnded: !recurrence.count && !recurrence.until }
+        );
+        if (check.violations.length > 0) {
+          Alert.alert('Outside Booking Rules', check.violations.join('\n'));
+          return;
+        }
+        if (check.conflicts.length > 0) {
+          const clashes = check.conflicts.map(({ start, block }) => `${format(start, 'MMM d')} (${block.title})`);
+          const more = clashes.length > 3 ? ` and ${clashes.length - 3} more` : '';
+          Alert.alert('Time Conflict', `This room is already booked on ${clashes.slice(0, 3).join(', ')}${more}.`);
+          return;
+        }
+      } catch (error: any) {
+        Alert.alert('Error', error.response?.data?.message || error.message || "Failed to check the room's schedule");
+        return;
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    const recurrenceRule = recurrence ? formatRecurrenceRule(recurrence) : undefined;
+
     setLoading(true);
     try {
       if (isEditMode && bookingId) {
-        // Update existing booking
+        // Update existing booking - reminders are rescheduled by the mutation
         await updateBooking.mutateAsync({
           id: bookingId,
+          scope: editScope,
           data: {
             title: data.title,
             description: data.description,
             startTime: start.toISOString(),
             endTime: end.toISOString(),
+            attendees,
           },
         });
-        // Schedule notification for updated booking
-        await notificationService.scheduleBookingReminder(
-          bookingId,
-          data.title,
-          currentRoomName,
-          start,
-          15
-        );
         navigation.goBack();
       } else {
         // Create new booking
@@ -175,6 +281,7 @@ export function CreateBookingScreen({ route, navigation }: CreateBookingScreenPr
           startTime: start.toISOString(),
           endTime: end.toISOString(),
           recurrenceRule,
+          attendees: attendees.length > 0 ? attendees : undefined,
         });
 
         // Schedule notification for the new booking
@@ -186,6 +293,7 @@ export function CreateBookingScreen({ route, navigation }: CreateBookingScreenPr
             start,
             15
           );
+          await notificationService.scheduleReleaseWarning(result.data);
         }
         navigation.goBack();
       }
@@ -218,11 +326,27 @@ export function CreateBookingScreen({ route, navigation }: CreateBookingScreenPr
               </View>
               <View>
                 <Text style={[styles.roomLabel, { color: colors.textSecondary }]}>
-                  {isEditMode ? 'Editing booking for' : 'Booking for'}
+                  {!isEditMode
+                    ? 'Booking for'
+                    : editScope === 'all'
+                      ? 'Editing whole series for'
+                      : editScope === 'following'
+                        ? 'Editing this and following for'
+                        : 'Editing booking for'}
                 </Text>
                 <Text style={[styles.roomName, { color: colors.text }]}>{currentRoomName}</Text>
               </View>
             </View>
+            {policyLines.length > 0 && (
+              <View style={[styles.rules, { borderTopColor: colors.border }]}>
+                {policyLines.map((line) => (
+                  <View key={line} style={styles.ruleRow}>
+                    <Ionicons name="information-circle-outline" size={14} color={colors.textSecondary} />
+                    <Text style={[styles.ruleText, { color: colors.textSecondary }]}>{line}</Text>
+                  </View>
+                ))}
+              </View>
+            )}
           </Card>
         )}
 
@@ -278,6 +402,7 @@ export function CreateBookingScreen({ route, navigation }: CreateBookingScreenPr
                 mode="date"
                 display={Platform.OS === 'ios' ? 'inline' : 'default'}
                 minimumDate={new Date()}
+                maximumDate={latestBookableDate(conflictCheck.policy, new Date())}
                 onChange={(_, date) => {
                   setShowDatePicker(Platform.OS === 'ios');
                   if (date) setSelectedDate(date);
@@ -338,57 +463,49 @@ export function CreateBookingScreen({ route, navigation }: CreateBookingScreenPr
             </View>
           </View>
 
+          {violations.length > 0 && (
+            <View style={[styles.violations, { backgroundColor: colors.errorLight }]}>
+              {violations.map((violation) => (
+                <View key={violation} style={styles.ruleRow}>
+                  <Ionicons name="alert-circle-outline" size={16} color={colors.error} />
+                  <Text style={[styles.violationText, { color: colors.error }]}>{violation}</Text>
+                </View>
+              ))}
+            </View>
+          )}
+
+          {/* Availability */}
+          {currentRoomId ? (
+            <ConflictPanel
+              {...conflictCheck}
+              onSelectSlot={applySlot}
+              onSelectRoom={isEditMode ? undefined : switchRoom}
+            />
+          ) : null}
+
+          {/* Attendees */}
+          <AttendeePicker
+            value={attendees}
+            onChange={setAttendees}
+            start={seriesStart}
+            end={seriesEnd}
+            excludeBookingId={bookingId}
+          />
+
           {/* Recurrence */}
           <View style={styles.pickerSection}>
             <Text style={[styles.pickerLabel, { color: colors.text }]}>Repeat</Text>
-            <TouchableOpacity
-              onPress={() => setShowRecurrencePicker(!showRecurrencePicker)}
-              style={[styles.pickerButton, { borderColor: colors.border, backgroundColor: colors.surface }]}
-            >
-              <Ionicons
-                name={RECURRENCE_OPTIONS.find(o => o.value === recurrence)?.icon as any || 'repeat-outline'}
-                size={18}
-                color={colors.primary}
-              />
-              <Text style={[styles.pickerValue, { color: colors.text, flex: 1 }]}>
-                {RECURRENCE_OPTIONS.find(o => o.value === recurrence)?.label || 'Does not repeat'}
-              </Text>
-              <Ionicons name="chevron-down-outline" size={18} color={colors.textTertiary} />
-            </TouchableOpacity>
-
-            {showRecurrencePicker && (
-              <View style={[styles.recurrenceOptions, { backgroundColor: colors.surface, borderColor: colors.border }]}>
-                {RECURRENCE_OPTIONS.map((option) => (
-                  <TouchableOpacity
-                    key={option.value}
-                    onPress={() => {
-                      setRecurrence(option.value);
-                      setShowRecurrencePicker(false);
-                    }}
-                    style={[
-                      styles.recurrenceOption,
-                      recurrence === option.value && { backgroundColor: colors.primaryLight },
-                    ]}
-                  >
-                    <Ionicons
-                      name={option.icon as any}
-                      size={18}
-                      color={recurrence === option.value ? colors.primary : colors.textSecondary}
-                    />
-                    <Text
-                      style={[
-                        styles.recurrenceOptionText,
-                        { color: recurrence === option.value ? colors.primary : colors.text },
-                      ]}
-                    >
-                      {option.label}
-                    </Text>
-                    {recurrence === option.value && (
-                      <Ionicons name="checkmark" size={18} color={colors.primary} />
-                    )}
-                  </TouchableOpacity>
-                ))}
+            {isEditMode ? (
+              <View style={[styles.pickerButton, { borderColor: colors.border, backgroundColor: colors.surface }]}>
+                <Ionicons name="repeat-outline" size={18} color={colors.primary} />
+                <Text style={[styles.pickerValue, { color: colors.text, flex: 1 }]}>
+                  {bookingData?.data?.recurrenceRule
+                    ? describeRecurrenceRule(bookingData.data.recurrenceRule, parseISO(bookingData.data.startTime))
+                    : 'Does not repeat'}
+                </Text>
               </View>
+            ) : (
+              <RecurrenceEditor value={recurrence} onChange={setRecurrence} startDate={seriesStart} />
             )}
           </View>
         </View>
@@ -419,7 +536,9 @@ const styles = StyleSheet.create({
   pickerButton: { flexDirection: 'row', alignItems: 'center', gap: 10, borderWidth: 1.5, borderRadius: 12, padding: 12 },
   pickerValue: { fontSize: 15, fontWeight: '500' },
   timeRow: { flexDirection: 'row', gap: 12, marginBottom: 16 },
-  recurrenceOptions: { marginTop: 8, borderWidth: 1, borderRadius: 12, overflow: 'hidden' },
-  recurrenceOption: { flexDirection: 'row', alignItems: 'center', gap: 10, padding: 14, borderBottomWidth: 1 },
-  recurrenceOptionText: { flex: 1, fontSize: 15 },
+  rules: { borderTopWidth: StyleSheet.hairlineWidth, marginTop: 12, paddingTop: 10, gap: 4 },
+  ruleRow: { flexDirection: 'row', alignItems: 'flex-start', gap: 6 },
+  ruleText: { flex: 1, fontSize: 13, lineHeight: 18 },
+  violations: { borderRadius: 12, padding: 12, gap: 6, marginTop: -4, marginBottom: 16 },
+  violationText: { flex: 1, fontSize: 13, lineHeight: 18, fontWeight: '500' },
 });
@@ -0,0 +1,235 @@
+import React, { useEffect, useRef } from 'react';
+import { View, Text, ScrollView, StyleSheet, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { format, parseISO } from 'date-fns';
+import { useTheme } from '../../hooks/useTheme';
+import { useRoom, useRoomAvailability } from '../../hooks/useRooms';
+import { useMyBookings } from '../../hooks/useBookings';
+import { useCheckIn, useIsCheckedIn } from '../../hooks/useCheckins';
+import { useRoomPolicy } from '../../hooks/useCampus';
+import { useAdHocBooking } from '../../hooks/useRoomCheckIn';
+import { Button, Card, EmptyState, ErrorState, LoadingScreen } from '../../components/common';
+import { adHocDurations, currentOccupant, findCheckInBooking } from '../../utils/roomCheckIn';
+import { formatBookingTime, formatDateForQuery, getUtcEndOfDay, getUtcStartOfDay } from '../../utils/date';
+import type { RoomScreenProps } from '../../navigation/types';
+import type { Booking } from '../../types';
+
+/**
+ * Where a room's QR code leads: checks the user in to their meeting there,
+ * or lets them take the room on the spot if it's free
+ */
+export function RoomCheckInScreen({ route, navigation }: RoomScreenProps<'RoomCheckIn'>) {
+  const { roomId } = route.params;
+  const { colors } = useTheme();
+  const now = new Date();
+
+  const { data: roomData, isLoading: loadingRoom, isError: roomError, refetch: refetchRoom } = useRoom(roomId);
+  const { data: myBookings, isLoading: loadingBookings } = useMyBookings({
+    roomId,
+    startDate: getUtcStartOfDay(now),
+    endDate: getUtcEndOfDay(now),
+    limit: 50,
+  });
+  const { data: availability, isLoading: loadingAvailability } = useRoomAvailability(roomId, formatDateForQuery(now));
+  const room = roomData?.data;
+  const policy = useRoomPolicy(room);
+
+  const booking = findCheckInBooking(myBookings?.data || [], roomId, now);
+  const { data: checkedInData } = useIsCheckedIn(booking?.status === 'CONFIRMED' ? booking.id : '');
+  const checkIn = useCheckIn();
+  const adHoc = useAdHocBooking();
+
+  // Scanning the code is the check-in; only try once per booking
+  const attempted = useRef<string | null>(null);
+  useEffect(() => {
+    if (!booking || booking.status !== 'CONFIRMED' || !checkedInData) return;
+    if (checkedInData.data?.isCheckedIn || attempted.current === booking.id) return;
+    attempted.current = booking.id;
+    checkIn.mutate(booking.id);
+  }, [booking, checkedInData]);
+
+  const openBooking = (target: Booking) => {
+    navigation.getParent()?.navigate('MyBookings', { screen: 'BookingDetail', params: { bookingId: target.id } });
+  };
+
+  const bookLater = () => {
+    if (room) navigation.navigate('CreateBooking', { roomId: room.id, roomName: room.name });
+  };
+
+  if (loadingRoom || loadingBookings || loadingAvailability) {
+    return <LoadingScreen message="Finding your booking..." />;
+  }
+
+  if (roomError) {
+    return (
+      <View style={[styles.container, { backgroundColor: colors.background }]}>
+        <ErrorState title="Couldn't load this room" message="Check your connection and try again." onRetry={refetchRoom} />
+      </View>
+    );
+  }
+
+  if (!room || !room.isActive) {
+    return (
+      <View style={[styles.container, { backgroundColor: colors.background }]}>
+        <EmptyState
+          icon="help-circle-outline"
+          title="Room not available"
+          subtitle="This code is for a room that no longer takes bookings on your campus"
+        />
+      </View>
+    );
+  }
+
+  const busy = availability?.data?.bookings || [];
+  const occupant = currentOccupant(busy, now);
+  const durations = adHocDurations(busy, policy, now);
+  const isCheckedIn = checkedInData?.data?.isCheckedIn || checkIn.isSuccess;
+
+  const renderStatus = () => {
+    if (booking?.status === 'PENDING') {
+      return (
+        <Card style={styles.statusCard}>
+          <Ionicons name="hourglass-outline" size={32} color={colors.warning} />
+          <Text style={[styles.statusTitle, { color: colors.text }]}>{booking.title}</Text>
+          <Text style={[styles.statusText, { color: colors.textSecondary }]}>
+            This booking is still waiting for an admin to approve it, so you can't check in yet.
+          </Text>
+        </Card>
+      );
+    }
+
+    if (booking) {
+      return (
+        <Card style={styles.statusCard}>
+          {isCheckedIn ? (
+            <Ionicons name="checkmark-circle" size={40} color={colors.success} />
+          ) : checkIn.isPending || !checkedInData ? (
+            <ActivityIndicator size="large" color={colors.primary} />
+          ) : (
+            <Ionicons name="log-in-outline" size={40} color={colors.primary} />
+          )}
+          <Text style={[styles.statusTitle, { color: colors.text }]}>
+            {isCheckedIn ? "You're checked in" : checkIn.isPending || !checkedInData ? 'Checking you in...' : 'Not checked in'}
+          </Text>
+          <Text style={[styles.statusText, { color: colors.textSecondary }]}>
+            {booking.title}, {formatBookingTime(booking.startTime, booking.endTime)}
+          </Text>
+          <View style={styles.actions}>
+            {!isCheckedIn && checkIn.isError && (
+              <Button title="Try Again" onPress={() => checkIn.mutate(booking.id)} fullWidth />
+            )}
+            <Button title="View Booking" variant="outline" onPress={() => openBooking(booking)} fullWidth />
+          </View>
+        </Card>
+      );
+    }
+
+    if (adHoc.data) {
+      const isPending = adHoc.data.status === 'PENDING';
+      return (
+        <Card style={styles.statusCard}>
+          <Ionicons
+            name={isPending ? 'hourglass-outline' : 'checkmark-circle'}
+            size={40}
+            color={isPending ? colors.warning : colors.success}
+          />
+          <Text style={[styles.statusTitle, { color: colors.text }]}>
+            {isPending ? 'Request sent' : "It's yours"}
+          </Text>
+          <Text style={[styles.statusText, { color: colors.textSecondary }]}>
+            {isPending
+              ? 'This room needs admin approval, so the booking is pending until they decide.'
+              : `Booked and checked in until ${format(parseISO(adHoc.data.endTime), 'h:mm a')}.`}
+          </Text>
+          <View style={styles.actions}>
+            <Button title="View Booking" variant="outline" onPress={() => openBooking(adHoc.data!)} fullWidth />
+          </View>
+        </Card>
+      );
+    }
+
+    if (occupant) {
+      return (
+        <Card style={styles.statusCard}>
+          <Ionicons name="people-outline" size={40} color={colors.error} />
+          <Text style={[styles.statusTitle, { color: colors.text }]}>In use</Text>
+          <Text style={[styles.statusText, { color: colors.textSecondary }]}>
+            {occupant.title} ({occupant.bookedBy}) until {format(parseISO(occupant.endTime), 'h:mm a')}
+          </Text>
+          <View style={styles.actions}>
+            <Button title="Book Another Time" variant="outline" onPress={bookLater} fullWidth />
+          </View>
+        </Card>
+      );
+    }
+
+    if (durations.length === 0) {
+      return (
+        <Card style={styles.statusCard}>
+          <Ionicons name="time-outline" size={40} color={colors.textTertiary} />
+          <Text style={[styles.statusTitle, { color: colors.text }]}>Not available right now</Text>
+          <Text style={[styles.statusText, { color: colors.textSecondary }]}>
+            The room is closed or about to be used.
+          </Text>
+          <View style={styles.actions}>
+            <Button title="Book Another Time" variant="outline" onPress={bookLater} fullWidth />
+          </View>
+        </Card>
+      );
+    }
+
+    return (
+      <Card style={styles.statusCard}>
+        <Ionicons name="checkmark-circle-outline" size={40} color={colors.success} />
+        <Text style={[styles.statusTitle, { color: colors.text }]}>Free now</Text>
+        <Text style={[styles.statusText, { color: colors.textSecondary }]}>
+          You don't have a booking here. Take the room from now for:
+        </Text>
+        <View style={styles.durations}>
+          {durations.map((minutes) => (
+            <Button
+              key={minutes}
+              title={`${minutes} min`}
+              onPress={() => adHoc.mutate({ room, minutes })}
+              disabled={adHoc.isPending}
+              loading={adHoc.isPending && adHoc.variables?.minutes === minutes}
+              style={styles.duration}
+            />
+          ))}
+        </View>
+      </Card>
+    );
+  };
+
+  return (
+    <ScrollView style={{ backgroundColor: colors.background }} contentContainerStyle={styles.content}>
+      <View style={styles.roomHeader}>
+        <View style={[styles.roomIcon, { backgroundColor: colors.primaryLight }]}>
+          <Ionicons name="business" size={24} color={colors.primary} />
+        </View>
+        <View style={{ flex: 1 }}>
+          <Text style={[styles.roomName, { color: colors.text }]}>{room.name}</Text>
+          <Text style={[styles.roomMeta, { color: colors.textSecondary }]}>
+            {[room.building, room.floor && `Floor ${room.floor}`, `${room.capacity} people`].filter(Boolean).join(' · ')}
+          </Text>
+        </View>
+      </View>
+      {renderStatus()}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, justifyContent: 'center' },
+  content: { padding: 20 },
+  roomHeader: { flexDirection: 'row', alignItems: 'center', gap: 12, marginBottom: 20 },
+  roomIcon: { width: 48, height: 48, borderRadius: 12, justifyContent: 'center', alignItems: 'center' },
+  roomName: { fontSize: 20, fontWeight: '700' },
+  roomMeta: { fontSize: 13, marginTop: 2 },
+  statusCard: { alignItems: 'center', paddingVertical: 28 },
+  statusTitle: { fontSize: 18, fontWeight: '600', marginTop: 12, textAlign: 'center' },
+  statusText: { fontSize: 14, lineHeight: 20, marginTop: 6, textAlign: 'center' },
+  actions: { alignSelf: 'stretch', gap: 8, marginTop: 20 },
+  durations: { flexDirection: 'row', gap: 8, marginTop: 20 },
+  duration: { flex: 1 },
+});
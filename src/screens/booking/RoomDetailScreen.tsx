@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
@@ -8,10 +8,14 @@ import {
   TouchableOpacity,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
+import { addDays, addMinutes, differenceInMinutes, isToday, startOfDay, subDays } from 'date-fns';
 import { useTheme } from '../../hooks/useTheme';
-import { useRoom } from '../../hooks/useRooms';
+import { useRoom, useRoomAvailability } from '../../hooks/useRooms';
 import { useFavoriteIds, useToggleFavorite } from '../../hooks/useFavorites';
 import { Button, Card } from '../../components/common';
+import { RoomTimeline } from '../../components/room/RoomTimeline';
+import { formatDateForQuery, formatFullDate } from '../../utils/date';
+import type { TimeSlot } from '../../utils/availability';
 import type { RoomScreenProps } from '../../navigation/types';
 
 const AMENITY_ICONS: Record<string, keyof typeof Ionicons.glyphMap> = {
@@ -28,12 +32,21 @@ const AMENITY_ICONS: Record<string, keyof typeof Ionicons.glyphMap> = {
   'accessibility': 'accessibility-outline',
 };
 
+// Tapping a long free gap prefills a booking of this length at its start
+const DEFAULT_GAP_BOOKING_MINUTES = 60;
+
 export function RoomDetailScreen({ route, navigation }: RoomScreenProps<'RoomDetail'>) {
   const { roomId } = route.params;
   const { colors } = useTheme();
   const { data, isLoading } = useRoom(roomId);
   const { data: favoriteIdsData } = useFavoriteIds();
   const toggleFavorite = useToggleFavorite();
+  const [timelineDate, setTimelineDate] = useState(() => startOfDay(new Date()));
+  const {
+    data: availabilityData,
+    isLoading: isAvailabilityLoading,
+    isError: isAvailabilityError,
+  } = useRoomAvailability(roomId, formatDateForQuery(timelineDate));
 
   const room = data?.data;
   const favoriteIds = favoriteIdsData?.data || [];
@@ -44,6 +57,17 @@ export function RoomDetailScreen({ route, navigation }: RoomScreenProps<'RoomDet
     toggleFavorite.mutate({ roomId: room.id, isFavorited });
   };
 
+  const handleSelectGap = (gap: TimeSlot) => {
+    if (!room) return;
+    const minutes = Math.min(differenceInMinutes(gap.end, gap.start), DEFAULT_GAP_BOOKING_MINUTES);
+    navigation.navigate('CreateBooking', {
+      roomId: room.id,
+      roomName: room.name,
+      startTime: gap.start.toISOString(),
+      endTime: addMinutes(gap.start, minutes).toISOString(),
+    });
+  };
+
   if (isLoading) {
     return (
       <View style={[styles.loadingContainer, { backgroundColor: colors.background }]}>
@@ -89,6 +113,14 @@ export function RoomDetailScreen({ route, navigation }: RoomScreenProps<'RoomDet
               </Text>
             </View>
           )}
+          {room.requiresApproval && (
+            <View style={[styles.locationRow, { marginTop: 4 }]}>
+              <Ionicons name="shield-checkmark-outline" size={18} color={colors.warning} />
+              <Text style={[styles.locationText, { color: colors.warning }]}>
+                Bookings need admin approval
+              </Text>
+            </View>
+          )}
         </View>
 
         {/* Details Card */}
@@ -138,6 +170,51 @@ export function RoomDetailScreen({ route, navigation }: RoomScreenProps<'RoomDet
             </View>
           </View>
         )}
+
+        {/* Availability Timeline */}
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>Availability</Text>
+          <View style={[styles.dateSwitcher, { backgroundColor: colors.surfaceSecondary }]}>
+            <TouchableOpacity
+              onPress={() => setTimelineDate((d) => subDays(d, 1))}
+              disabled={isToday(timelineDate)}
+              style={styles.dateArrow}
+            >
+              <Ionicons
+                name="chevron-back"
+                size={22}
+                color={isToday(timelineDate) ? colors.textTertiary : colors.primary}
+              />
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => setTimelineDate(startOfDay(new Date()))}>
+              <Text style={[styles.dateLabel, { color: colors.text }]}>
+                {isToday(timelineDate) ? 'Today' : formatFullDate(timelineDate.toISOString())}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => setTimelineDate((d) => addDays(d, 1))} style={styles.dateArrow}>
+              <Ionicons name="chevron-forward" size={22} color={colors.primary} />
+            </TouchableOpacity>
+          </View>
+
+          {isAvailabilityLoading ? (
+            <ActivityIndicator style={styles.timelineStatus} color={colors.primary} />
+          ) : isAvailabilityError ? (
+            <Text style={[styles.timelineStatus, { color: colors.textSecondary }]}>
+              Couldn't load availability for this day
+            </Text>
+          ) : (
+            <>
+              <Text style={[styles.timelineHint, { color: colors.textSecondary }]}>
+                Tap a free slot to book it
+              </Text>
+              <RoomTimeline
+                date={timelineDate}
+                bookings={availabilityData?.data?.bookings || []}
+                onSelectGap={handleSelectGap}
+              />
+            </>
+          )}
+        </View>
       </ScrollView>
 
       {/* Book Button */}
@@ -178,5 +255,10 @@ const styles = StyleSheet.create({
   amenitiesGrid: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
   amenityItem: { flexDirection: 'row', alignItems: 'center', gap: 8, paddingHorizontal: 12, paddingVertical: 10, borderRadius: 10 },
   amenityName: { fontSize: 13, fontWeight: '500', textTransform: 'capitalize' },
+  dateSwitcher: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', borderRadius: 12, paddingHorizontal: 8, paddingVertical: 6 },
+  dateArrow: { padding: 6 },
+  dateLabel: { fontSize: 15, fontWeight: '600' },
+  timelineHint: { fontSize: 12, marginTop: 10, marginBottom: 8 },
+  timelineStatus: { marginTop: 16, fontSize: 14, textAlign: 'center' },
   bookBar: { position: 'absolute', bottom: 0, left: 0, right: 0, padding: 20, paddingBottom: 36, borderTopWidth: 1 },
 });
@@ -9,44 +9,53 @@ import {
   KeyboardAvoidingView,
   Platform,
   ActivityIndicator,
+  Modal,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
-import * as SecureStore from 'expo-secure-store';
 import { useNavigation } from '@react-navigation/native';
+import { formatDistanceToNow } from 'date-fns';
 import { useTheme } from '../../hooks/useTheme';
-import { useAIChat } from '../../hooks/useAIChat';
+import { useAIChat, type Message } from '../../hooks/useAIChat';
 import { Card, Header } from '../../components/common';
-
-interface Message {
-  id: string;
-  role: 'user' | 'assistant';
-  content: string;
-}
+import { BookingActionCard } from '../../components/booking/BookingActionCard';
+import { ParsedBookingCard } from '../../components/booking/ParsedBookingCard';
+import { getActiveProvider } from '../../services/llmProviders';
+import type { AIConversation } from '../../store/aiConversations';
 
 export function AIChatScreen() {
   const { colors } = useTheme();
   const navigation = useNavigation<any>();
   const [inputText, setInputText] = useState('');
-  const [apiKeyConfigured, setApiKeyConfigured] = useState<boolean | null>(null);
+  // What's missing before the assistant can be used; undefined while checking
+  const [setupIssue, setSetupIssue] = useState<string | null>();
+  const [isHistoryVisible, setIsHistoryVisible] = useState(false);
   const scrollViewRef = useRef<ScrollView>(null);
 
   const {
     messages,
     isLoading,
     error,
+    conversations,
+    conversationId,
     sendMessage,
-    clearChat
+    resolveAction,
+    stopGeneration,
+    clearChat,
+    resumeConversation,
+    deleteConversation
   } = useAIChat();
+  const isStreamingText = messages.some(m => m.isStreaming && !!m.content);
 
-  // Check if API key is configured
+  // Check the provider is set up, again on return from Settings
   useEffect(() => {
-    const checkApiKey = async () => {
-      const key = await SecureStore.getItemAsync('claude_api_key');
-      setApiKeyConfigured(!!key);
+    const checkSetup = async () => {
+      const provider = await getActiveProvider();
+      setSetupIssue(await provider.checkSetup());
     };
-    checkApiKey();
-  }, []);
+    checkSetup();
+    return navigation.addListener('focus', checkSetup);
+  }, [navigation]);
 
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
@@ -64,6 +73,48 @@ export function AIChatScreen() {
     await sendMessage(message);
   };
 
+  const handleNewChat = () => {
+    clearChat();
+    setIsHistoryVisible(false);
+  };
+
+  const handleResume = (conversation: AIConversation) => {
+    if (conversation.id !== conversationId) resumeConversation(conversation);
+    setIsHistoryVisible(false);
+  };
+
+  const renderConversation = (conversation: AIConversation) => {
+    const isCurrent = conversation.id === conversationId;
+
+    return (
+      <TouchableOpacity key={conversation.id} onPress={() => handleResume(conversation)}>
+        <Card style={styles.conversationCard}>
+          <View style={styles.conversationRow}>
+            <Ionicons
+              name={isCurrent ? 'chatbubble' : 'chatbubble-outline'}
+              size={20}
+              color={isCurrent ? colors.primary : colors.textSecondary}
+            />
+            <View style={styles.conversationInfo}>
+              <Text style={[styles.conversationTitle, { color: colors.text }]} numberOfLines={1}>
+                {conversation.title}
+              </Text>
+              <Text style={[styles.conversationMeta, { color: colors.textTertiary }]}>
+                {formatDistanceToNow(conversation.updatedAt, { addSuffix: true })}
+              </Text>
+            </View>
+            <TouchableOpacity
+              onPress={() => deleteConversation(conversation.id)}
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            >
+              <Ionicons name="trash-outline" size={20} color={colors.error} />
+            </TouchableOpacity>
+          </View>
+        </Card>
+      </TouchableOpacity>
+    );
+  };
+
   const renderMessage = (message: Message) => {
     const isUser = message.role === 'user';
 
@@ -75,23 +126,38 @@ export function AIChatScreen() {
           isUser ? styles.userMessage : styles.assistantMessage
         ]}
       >
-        <View
-          style={[
-            styles.messageBubble,
-            {
-              backgroundColor: isUser ? colors.primary : colors.surfaceSecondary,
-            },
-          ]}
-        >
-          <Text
+        {!!message.content && (
+          <View
             style={[
-              styles.messageText,
-              { color: isUser ? '#fff' : colors.text },
+              styles.messageBubble,
+              {
+                backgroundColor: isUser ? colors.primary : colors.surfaceSecondary,
+              },
             ]}
           >
-            {message.content}
-          </Text>
-        </View>
+            <Text
+              style={[
+                styles.messageText,
+                { color: isUser ? '#fff' : colors.text },
+              ]}
+            >
+              {message.content}
+            </Text>
+          </View>
+        )}
+        {message.stopped && (
+          <Text style={[styles.stoppedText, { color: colors.textTertiary }]}>Stopped</Text>
+        )}
+        {message.parsedData && <ParsedBookingCard booking={message.parsedData} />}
+        {message.action && message.actionStatus && (
+          <BookingActionCard
+            action={message.action}
+            status={message.actionStatus}
+            onConfirm={() => resolveAction(message.id, true)}
+            onDecline={() => resolveAction(message.id, false)}
+            disabled={isLoading}
+          />
+        )}
       </View>
     );
   };
@@ -129,23 +195,18 @@ export function AIChatScreen() {
     </View>
   );
 
-  const renderNoApiKey = () => (
-    <View style={styles.welcomeContainer}>
-      <View style={[styles.welcomeIcon, { backgroundColor: colors.errorLight || '#ffebee' }]}>
-        <Ionicons name="key-outline" size={40} color={colors.error} />
-      </View>
-      <Text style={[styles.welcomeTitle, { color: colors.text }]}>
-        API Key Required
+  // Without a model only the built-in phrase parser answers
+  const renderLimitedMode = () => (
+    <TouchableOpacity
+      style={[styles.limitedBanner, { backgroundColor: colors.warningLight }]}
+      onPress={() => navigation.navigate('Settings')}
+    >
+      <Ionicons name="flash-off-outline" size={18} color={colors.warning} />
+      <Text style={[styles.limitedText, { color: colors.text }]}>
+        {setupIssue} Until then, simple requests like "tomorrow 2-3pm for 6 people" still work.
       </Text>
-      <Text style={[styles.welcomeSubtitle, { color: colors.textSecondary }]}>
-        Please add your Claude API key in Settings to use the AI assistant.
-      </Text>
-      <TouchableOpacity
-        style={[styles.settingsButton, { backgroundColor: colors.primary }]}
-      >
-        <Text style={styles.settingsButtonText}>Open Settings</Text>
-      </TouchableOpacity>
-    </View>
+      <Ionicons name="chevron-forward" size={16} color={colors.textTertiary} />
+    </TouchableOpacity>
   );
 
   return (
@@ -155,82 +216,110 @@ export function AIChatScreen() {
         showProfile={true}
         onProfilePress={() => navigation.navigate('Settings')}
         rightAction={
-          messages.length > 0
+          messages.length > 0 || conversations.length > 0
             ? {
-                icon: 'trash-outline',
-                onPress: clearChat,
+                icon: 'time-outline',
+                onPress: () => setIsHistoryVisible(true),
               }
             : undefined
         }
       />
 
-      {apiKeyConfigured === false ? (
-        renderNoApiKey()
-      ) : (
-        <KeyboardAvoidingView
-          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
-          style={styles.keyboardView}
-          keyboardVerticalOffset={100}
+      {!!setupIssue && renderLimitedMode()}
+
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+        keyboardVerticalOffset={100}
+      >
+        <ScrollView
+          ref={scrollViewRef}
+          style={styles.messagesContainer}
+          contentContainerStyle={styles.messagesContent}
+          showsVerticalScrollIndicator={false}
         >
-          <ScrollView
-            ref={scrollViewRef}
-            style={styles.messagesContainer}
-            contentContainerStyle={styles.messagesContent}
-            showsVerticalScrollIndicator={false}
-          >
-            {messages.length === 0 ? renderWelcome() : messages.map(renderMessage)}
+          {messages.length === 0 ? renderWelcome() : messages.map(renderMessage)}
 
-            {isLoading && (
-              <View style={styles.loadingContainer}>
-                <ActivityIndicator size="small" color={colors.primary} />
-                <Text style={[styles.loadingText, { color: colors.textSecondary }]}>
-                  Thinking...
-                </Text>
-              </View>
-            )}
+          {isLoading && !isStreamingText && (
+            <View style={styles.loadingContainer}>
+              <ActivityIndicator size="small" color={colors.primary} />
+              <Text style={[styles.loadingText, { color: colors.textSecondary }]}>
+                Thinking...
+              </Text>
+            </View>
+          )}
+
+          {error && (
+            <View style={[styles.errorContainer, { backgroundColor: colors.errorLight || '#ffebee' }]}>
+              <Ionicons name="alert-circle" size={20} color={colors.error} />
+              <Text style={[styles.errorText, { color: colors.error }]}>{error}</Text>
+            </View>
+          )}
+        </ScrollView>
 
-            {error && (
-              <View style={[styles.errorContainer, { backgroundColor: colors.errorLight || '#ffebee' }]}>
-                <Ionicons name="alert-circle" size={20} color={colors.error} />
-                <Text style={[styles.errorText, { color: colors.error }]}>{error}</Text>
-              </View>
+        <View style={[styles.inputContainer, { backgroundColor: colors.surface }]}>
+          <TextInput
+            style={[styles.input, { backgroundColor: colors.surfaceSecondary, color: colors.text }]}
+            placeholder="Ask me to book a room..."
+            placeholderTextColor={colors.textTertiary}
+            value={inputText}
+            onChangeText={setInputText}
+            multiline
+            maxLength={500}
+            editable={!isLoading}
+          />
+          <TouchableOpacity
+            style={[
+              styles.sendButton,
+              {
+                backgroundColor: isLoading || inputText.trim() ? colors.primary : colors.surfaceSecondary,
+              },
+            ]}
+            onPress={isLoading ? stopGeneration : handleSend}
+            disabled={!isLoading && !inputText.trim()}
+          >
+            {isLoading ? (
+              <Ionicons name="stop" size={18} color="#fff" />
+            ) : (
+              <Ionicons
+                name="send"
+                size={20}
+                color={inputText.trim() ? '#fff' : colors.textTertiary}
+              />
             )}
-          </ScrollView>
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
 
-          <View style={[styles.inputContainer, { backgroundColor: colors.surface }]}>
-            <TextInput
-              style={[styles.input, { backgroundColor: colors.surfaceSecondary, color: colors.text }]}
-              placeholder="Ask me to book a room..."
-              placeholderTextColor={colors.textTertiary}
-              value={inputText}
-              onChangeText={setInputText}
-              multiline
-              maxLength={500}
-              editable={!isLoading}
-            />
-            <TouchableOpacity
-              style={[
-                styles.sendButton,
-                {
-                  backgroundColor: inputText.trim() && !isLoading ? colors.primary : colors.surfaceSecondary,
-                },
-              ]}
-              onPress={handleSend}
-              disabled={!inputText.trim() || isLoading}
-            >
-              {isLoading ? (
-                <ActivityIndicator size="small" color="#fff" />
-              ) : (
-                <Ionicons
-                  name="send"
-                  size={20}
-                  color={inputText.trim() ? '#fff' : colors.textTertiary}
-                />
-              )}
+      {/* Past conversations */}
+      <Modal
+        visible={isHistoryVisible}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setIsHistoryVisible(false)}
+      >
+        <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+          <View style={[styles.modalHeader, { borderBottomColor: colors.border }]}>
+            <TouchableOpacity onPress={() => setIsHistoryVisible(false)}>
+              <Ionicons name="close" size={24} color={colors.text} />
+            </TouchableOpacity>
+            <Text style={[styles.modalTitle, { color: colors.text }]}>Conversations</Text>
+            <TouchableOpacity onPress={handleNewChat}>
+              <Ionicons name="create-outline" size={24} color={colors.primary} />
             </TouchableOpacity>
           </View>
-        </KeyboardAvoidingView>
-      )}
+
+          <ScrollView contentContainerStyle={styles.modalContent}>
+            {conversations.length === 0 ? (
+              <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
+                No saved conversations yet
+              </Text>
+            ) : (
+              conversations.map(renderConversation)
+            )}
+          </ScrollView>
+        </SafeAreaView>
+      </Modal>
     </SafeAreaView>
   );
 }
@@ -251,13 +340,12 @@ const styles = StyleSheet.create({
   },
   messageContainer: {
     marginBottom: 12,
-    flexDirection: 'row',
   },
   userMessage: {
-    justifyContent: 'flex-end',
+    alignItems: 'flex-end',
   },
   assistantMessage: {
-    justifyContent: 'flex-start',
+    alignItems: 'flex-start',
   },
   messageBubble: {
     maxWidth: '85%',
@@ -269,6 +357,10 @@ const styles = StyleSheet.create({
     fontSize: 15,
     lineHeight: 22,
   },
+  stoppedText: {
+    fontSize: 12,
+    marginTop: 4,
+  },
   loadingContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -360,15 +452,57 @@ const styles = StyleSheet.create({
     fontSize: 14,
     textAlign: 'center',
   },
-  settingsButton: {
-    paddingHorizontal: 24,
-    paddingVertical: 14,
+  limitedBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginHorizontal: 16,
+    marginBottom: 8,
+    padding: 12,
     borderRadius: 12,
-    marginTop: 16,
   },
-  settingsButtonText: {
-    color: '#fff',
-    fontSize: 16,
+  limitedText: {
+    flex: 1,
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+  },
+  modalTitle: {
+    fontSize: 18,
     fontWeight: '600',
   },
+  modalContent: {
+    padding: 16,
+    gap: 8,
+  },
+  conversationCard: {
+    padding: 12,
+  },
+  conversationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  conversationInfo: {
+    flex: 1,
+  },
+  conversationTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  conversationMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 32,
+  },
 });
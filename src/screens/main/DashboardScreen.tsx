@@ -7,21 +7,29 @@ import {
   StyleSheet,
   TouchableOpacity,
   Animated,
+  Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
 import { useTheme } from '../../hooks/useTheme';
 import { useAuth } from '../../hooks/useAuth';
-import { useMyBookings, useBookings } from '../../hooks/useBookings';
+import { useMyBookings, useBookings, useCancelBooking } from '../../hooks/useBookings';
+import { alertExtendResult, useExtendMeeting } from '../../hooks/useExtendMeeting';
 import { useRooms } from '../../hooks/useRooms';
 import { useToast } from '../../hooks/useToast';
-import { Card, StatusBadge, Button, EmptyState, ErrorState } from '../../components/common';
+import { useCheckIn, useCheckOut } from '../../hooks/useCheckins';
+import { useDailyBriefing, useFindNearbyRooms } from '../../hooks/useDailyBriefing';
+import { Card, StatusBadge, Button, EmptyState, ErrorState, OfflineBanner } from '../../components/common';
+import { DailyBriefingCard } from '../../components/booking/DailyBriefingCard';
+import { ExtendMeetingActions } from '../../components/booking/ExtendMeetingActions';
 import { formatBookingDate, formatBookingTime, formatFullDate } from '../../utils/date';
 import type { MainTabScreenProps } from '../../navigation/types';
-import type { Booking } from '../../types';
-import { format, isToday, isTomorrow, differenceInMinutes, startOfDay, endOfDay, addDays } from 'date-fns';
+import type { Booking, Room } from '../../types';
+import { format, isToday, isTomorrow, differenceInMinutes, startOfDay, endOfDay, addDays, parseISO } from 'date-fns';
 import { getUtcDateRange } from '../../utils/date';
+import { isInProgress } from '../../utils/bookingStatus';
+import { EXTEND_MINUTES, extendedEndTime, type BriefingActionKind, type BriefingNote } from '../../utils/dailyBriefing';
 
 // Time-based greeting like web app
 function getGreeting() {
@@ -47,7 +55,7 @@ export function DashboardScreen({ navigation }: MainTabScreenProps<'Dashboard'>)
   // Fetch upcoming bookings - use UTC date range to handle timezone correctly
   // Don't filter by status to show both CONFIRMED and PENDING bookings
   const dateRange = getUtcDateRange(30);
-  const { data: upcomingBookings, isLoading: loadingUpcoming, isError: errorUpcoming, error: upcomingError, refetch: refetchUpcoming } = useMyBookings({
+  const { data: upcomingBookings, dataUpdatedAt: upcomingUpdatedAt, isLoading: loadingUpcoming, isError: errorUpcoming, error: upcomingError, refetch: refetchUpcoming } = useMyBookings({
     startDate: dateRange.startDate,
     endDate: dateRange.endDate,
     // Removed status filter to show all active bookings (CONFIRMED and PENDING)
@@ -106,6 +114,12 @@ export function DashboardScreen({ navigation }: MainTabScreenProps<'Dashboard'>)
     });
   }, [upcomingBookings?.data]);
 
+  // The user's own meeting running right now, which they can end early
+  const currentBooking = useMemo(() => {
+    const now = new Date();
+    return upcomingBookings?.data?.find((booking) => booking.userId === user?.id && isInProgress(booking, now));
+  }, [upcomingBookings?.data, user?.id]);
+
   // Check for upcoming bookings and show reminders
   useEffect(() => {
     if (!upcomingBookings?.data) return;
@@ -155,6 +169,89 @@ export function DashboardScreen({ navigation }: MainTabScreenProps<'Dashboard'>)
     return grouped;
   }, [upcomingBookings?.data]);
 
+  // Daily briefing, when the user has turned it on in Settings
+  const dailyBriefing = useDailyBriefing(upcomingBookings?.data);
+  const checkIn = useCheckIn();
+  const cancelBooking = useCancelBooking();
+  const extendMeeting = useExtendMeeting();
+  const findNearbyRooms = useFindNearbyRooms();
+  const checkOut = useCheckOut();
+  const briefingBusy =
+    checkIn.isPending ||
+    cancelBooking.isPending ||
+    extendMeeting.isPending ||
+    findNearbyRooms.isPending ||
+    checkOut.isPending;
+
+  const endMeeting = (booking: Booking) => {
+    Alert.alert('End Meeting Now', `Free ${booking.room.name} for the rest of ${booking.title}?`, [
+      { text: 'Keep Going', style: 'cancel' },
+      { text: 'End Meeting', style: 'destructive', onPress: () => checkOut.mutate(booking.id) },
+    ]);
+  };
+
+  const moveToRoom = (room: Room, startTime: string, endTime: string) => {
+    navigation.navigate('Rooms', {
+      screen: 'CreateBooking',
+      params: { roomId: room.id, roomName: room.name, startTime, endTime },
+    });
+  };
+
+  const showNearbyRooms = (booking: Booking, building: string) => {
+    findNearbyRooms.mutate(
+      { booking, building },
+      {
+        onSuccess: (rooms) => {
+          if (rooms.length === 0) {
+            Alert.alert('No Rooms Free', `Nothing else in ${building} is free for ${booking.title}.`);
+            return;
+          }
+          Alert.alert('Rooms Nearby', `Free in ${building} for ${booking.title}. Book one, then cancel the original.`, [
+            ...rooms.slice(0, 3).map((room) => ({
+              text: room.name,
+              onPress: () => moveToRoom(room, booking.startTime, booking.endTime),
+            })),
+            { text: 'Close', style: 'cancel' as const },
+          ]);
+        },
+      }
+    );
+  };
+
+  const handleBriefingAction = (note: BriefingNote, kind: BriefingActionKind) => {
+    const booking = note.booking;
+    switch (kind) {
+      case 'check_in':
+        checkIn.mutate(booking.id);
+        break;
+      case 'extend': {
+        const endTime = extendedEndTime(booking);
+        Alert.alert('Extend Meeting', `Keep ${booking.room.name} until ${format(parseISO(endTime), 'h:mm a')}?`, [
+          { text: 'Not now', style: 'cancel' },
+          {
+            text: 'Extend',
+            // Same rules, buffers and next-booking check as the extend buttons
+            onPress: () =>
+              extendMeeting.mutate(
+                { booking, minutes: EXTEND_MINUTES },
+                { onSuccess: (result) => alertExtendResult(booking, EXTEND_MINUTES, result, moveToRoom) }
+              ),
+          },
+        ]);
+        break;
+      }
+      case 'find_room':
+        if (note.nearBuilding) showNearbyRooms(booking, note.nearBuilding);
+        break;
+      case 'cancel':
+        Alert.alert('Cancel Booking', `Cancel ${booking.title} and free up ${booking.room.name}?`, [
+          { text: 'Keep it', style: 'cancel' },
+          { text: 'Cancel Booking', style: 'destructive', onPress: () => cancelBooking.mutate({ id: booking.id }) },
+        ]);
+        break;
+    }
+  };
+
   const handleBookingPress = (booking: Booking) => {
     // Navigate to My Bookings tab - user can view details from there
     navigation.navigate('MyBookings' as any);
@@ -241,6 +338,7 @@ export function DashboardScreen({ navigation }: MainTabScreenProps<'Dashboard'>)
           </TouchableOpacity>
         </View>
       )}
+      <OfflineBanner updatedAt={upcomingUpdatedAt} />
       <ScrollView
         contentContainerStyle={styles.scrollContent}
         refreshControl={
@@ -256,29 +354,74 @@ export function DashboardScreen({ navigation }: MainTabScreenProps<'Dashboard'>)
         <>
           {/* Imminent Meeting Banner - Like web app */}
         {imminentBooking && (
-          <TouchableOpacity
-            style={[styles.imminentBanner, { backgroundColor: '#F97316' }]}
-            onPress={() => handleBookingPress(imminentBooking)}
-            activeOpacity={0.9}
-          >
-            <View style={styles.imminentBannerContent}>
-              <View style={[styles.imminentIcon, { backgroundColor: 'rgba(255,255,255,0.2)' }]}>
-                <Ionicons name="notifications" size={24} color="#FFF" />
+          <View style={[styles.imminentBanner, { backgroundColor: '#F97316' }]}>
+            <TouchableOpacity
+              style={styles.imminentHeader}
+              onPress={() => handleBookingPress(imminentBooking)}
+              activeOpacity={0.9}
+            >
+              <View style={styles.imminentBannerContent}>
+                <View style={[styles.imminentIcon, { backgroundColor: 'rgba(255,255,255,0.2)' }]}>
+                  <Ionicons name="notifications" size={24} color="#FFF" />
+                </View>
+                <View style={styles.imminentTextContainer}>
+                  <Text style={[styles.imminentSubtitle, { color: 'rgba(255,255,255,0.8)' }]}>
+                    Meeting starting soon!
+                  </Text>
+                  <Text style={[styles.imminentTitle, { color: '#FFF' }]}>
+                    {imminentBooking.title}
+                  </Text>
+                  <Text style={[styles.imminentMeta, { color: 'rgba(255,255,255,0.8)' }]}>
+                    {format(new Date(imminentBooking.startTime), 'h:mm a')} • {imminentBooking.room.name}
+                  </Text>
+                </View>
               </View>
-              <View style={styles.imminentTextContainer}>
-                <Text style={[styles.imminentSubtitle, { color: 'rgba(255,255,255,0.8)' }]}>
-                  Meeting starting soon!
-                </Text>
-                <Text style={[styles.imminentTitle, { color: '#FFF' }]}>
-                  {imminentBooking.title}
-                </Text>
-                <Text style={[styles.imminentMeta, { color: 'rgba(255,255,255,0.8)' }]}>
-                  {format(new Date(imminentBooking.startTime), 'h:mm a')} • {imminentBooking.room.name}
-                </Text>
+              <Ionicons name="chevron-forward" size={24} color="#FFF" />
+            </TouchableOpacity>
+            {imminentBooking.userId === user?.id && imminentBooking.status === 'CONFIRMED' && (
+              <View style={styles.imminentExtend}>
+                <ExtendMeetingActions booking={imminentBooking} onMoveToRoom={moveToRoom} onBanner />
               </View>
+            )}
+          </View>
+        )}
+
+        {/* Meeting in progress - can be ended early to free the room, also shown back to back with the next */}
+        {currentBooking && (
+          <View style={[styles.imminentBanner, { backgroundColor: colors.primary }]}>
+            <TouchableOpacity
+              style={styles.imminentHeader}
+              onPress={() => handleBookingPress(currentBooking)}
+              activeOpacity={0.9}
+            >
+              <View style={styles.imminentBannerContent}>
+                <View style={[styles.imminentIcon, { backgroundColor: 'rgba(255,255,255,0.2)' }]}>
+                  <Ionicons name="radio-button-on" size={24} color="#FFF" />
+                </View>
+                <View style={styles.imminentTextContainer}>
+                  <Text style={[styles.imminentSubtitle, { color: 'rgba(255,255,255,0.8)' }]}>
+                    In progress until {format(new Date(currentBooking.endTime), 'h:mm a')}
+                  </Text>
+                  <Text style={[styles.imminentTitle, { color: '#FFF' }]} numberOfLines={1}>
+                    {currentBooking.title}
+                  </Text>
+                  <Text style={[styles.imminentMeta, { color: 'rgba(255,255,255,0.8)' }]}>
+                    {currentBooking.room.name}
+                  </Text>
+                </View>
+              </View>
+              <TouchableOpacity
+                style={[styles.endNowButton, { backgroundColor: 'rgba(255,255,255,0.2)' }]}
+                onPress={() => endMeeting(currentBooking)}
+                disabled={checkOut.isPending}
+              >
+                <Text style={styles.endNowText}>{checkOut.isPending ? 'Ending...' : 'End now'}</Text>
+              </TouchableOpacity>
+            </TouchableOpacity>
+            <View style={styles.imminentExtend}>
+              <ExtendMeetingActions booking={currentBooking} onMoveToRoom={moveToRoom} onBanner />
             </View>
-            <Ionicons name="chevron-forward" size={24} color="#FFF" />
-          </TouchableOpacity>
+          </View>
         )}
 
         {/* Hero Section - Gradient like web app */}
@@ -370,6 +513,21 @@ export function DashboardScreen({ navigation }: MainTabScreenProps<'Dashboard'>)
           {renderStatsCard('This Week', weekCount, 'calendar-outline', 3)}
         </View>
 
+        {/* Daily Briefing - opt-in from Settings */}
+        {dailyBriefing.enabled && !loadingUpcoming && (
+          <DailyBriefingCard
+            summary={dailyBriefing.summary}
+            isAISummary={dailyBriefing.isAISummary}
+            isSummarizing={dailyBriefing.isSummarizing}
+            notes={dailyBriefing.briefing.notes}
+            onAction={handleBriefingAction}
+            onOpenBooking={(booking) =>
+              navigation.navigate('MyBookings', { screen: 'BookingDetail', params: { bookingId: booking.id } })
+            }
+            busy={briefingBusy}
+          />
+        )}
+
         {/* Quick Actions - Like web app */}
         <View style={styles.quickActionsSection}>
           <Text style={[styles.sectionTitle, { color: colors.text }]}>Quick Actions</Text>
@@ -463,6 +621,8 @@ const styles = StyleSheet.create({
     marginTop: 16,
     borderRadius: 16,
     padding: 16,
+  },
+  imminentHeader: {
     flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'space-between',
@@ -496,6 +656,20 @@ const styles = StyleSheet.create({
     fontSize: 13,
     marginTop: 2,
   },
+  imminentExtend: {
+    marginTop: 12,
+  },
+  endNowButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    marginLeft: 8,
+  },
+  endNowText: {
+    color: '#FFF',
+    fontSize: 13,
+    fontWeight: '600',
+  },
   // Hero Section
   heroSection: {
     marginBottom: 24,
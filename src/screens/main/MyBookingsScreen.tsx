@@ -13,9 +13,12 @@ import { Ionicons } from '@expo/vector-icons';
 import { useNavigation } from '@react-navigation/native';
 import { useTheme } from '../../hooks/useTheme';
 import { useMyBookings, useCancelBooking } from '../../hooks/useBookings';
-import { Card, StatusBadge, Header, EmptyState, ErrorState } from '../../components/common';
+import { Card, StatusBadge, Header, EmptyState, ErrorState, OfflineBanner } from '../../components/common';
+import { SeriesScopeModal } from '../../components/booking/SeriesScopeModal';
+import { sharingService } from '../../services/sharing';
 import { formatBookingDate, formatBookingTime, getUtcDateRange, getUtcPastDateRange } from '../../utils/date';
 import type { BookingScreenProps } from '../../navigation/types';
+import { holdsRoom } from '../../utils/bookingStatus';
 import type { Booking } from '../../types';
 
 type TabKey = 'upcoming' | 'past';
@@ -25,21 +28,27 @@ export function MyBookingsScreen({ navigation }: BookingScreenProps<'BookingList
   const nav = useNavigation<any>();
   const [activeTab, setActiveTab] = useState<TabKey>('upcoming');
   const cancelBooking = useCancelBooking();
+  const [seriesToCancel, setSeriesToCancel] = useState<Booking | null>(null);
 
   const isUpcoming = activeTab === 'upcoming';
   const now = new Date();
 
   // Use UTC date range for timezone handling
   // Don't filter by status to show both CONFIRMED and PENDING bookings
-  const { data, isLoading, isError, error, refetch } = useMyBookings(
+  const { data, dataUpdatedAt, isLoading, isError, error, refetch } = useMyBookings(
     isUpcoming
       ? getUtcDateRange(30) // Get next 30 days
       : getUtcPastDateRange(90) // Get past 90 days
   );
 
   const bookings = data?.data || [];
+  const awaitingCount = isUpcoming ? bookings.filter((booking) => booking.status === 'PENDING').length : 0;
 
   const handleCancel = (booking: Booking) => {
+    if (booking.recurrenceRule) {
+      setSeriesToCancel(booking);
+      return;
+    }
     Alert.alert(
       'Cancel Booking',
       `Are you sure you want to cancel "${booking.title}"?`,
@@ -48,12 +57,26 @@ export function MyBookingsScreen({ navigation }: BookingScreenProps<'BookingList
         {
           text: 'Yes, Cancel',
           style: 'destructive',
-          onPress: () => cancelBooking.mutate(booking.id),
+          onPress: () => cancelBooking.mutate({ id: booking.id }),
         },
       ]
     );
   };
 
+  // Exports what the current tab shows, minus cancelled and rejected bookings
+  const handleExport = async () => {
+    const exportable = bookings.filter(holdsRoom);
+    if (exportable.length === 0) {
+      Alert.alert('Nothing to Export', `You have no ${activeTab} bookings to export.`);
+      return;
+    }
+    try {
+      await sharingService.shareBookingsIcs(exportable, `My ${activeTab} bookings`);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to export bookings');
+    }
+  };
+
   const handleBookingPress = (booking: Booking) => {
     navigation.navigate('BookingDetail', { bookingId: booking.id });
   };
@@ -73,6 +96,9 @@ export function MyBookingsScreen({ navigation }: BookingScreenProps<'BookingList
             <Text style={[styles.bookingRoom, { color: colors.textSecondary }]} numberOfLines={1}>
               {booking.room?.name || 'Room information unavailable'}
             </Text>
+            {booking.recurrenceRule && (
+              <Ionicons name="repeat-outline" size={12} color={colors.textSecondary} />
+            )}
           </View>
         </View>
         <StatusBadge status={booking.status} size="sm" />
@@ -90,14 +116,35 @@ export function MyBookingsScreen({ navigation }: BookingScreenProps<'BookingList
         {formatBookingTime(booking.startTime, booking.endTime)}
       </Text>
 
-      {isUpcoming && booking.status === 'CONFIRMED' && (
+      {booking.status === 'PENDING' && (
+        <View style={styles.approvalRow}>
+          <Ionicons name="hourglass-outline" size={12} color={colors.warning} />
+          <Text style={[styles.approvalText, { color: colors.warning }]}>Waiting for admin approval</Text>
+        </View>
+      )}
+      {booking.status === 'REJECTED' && (
+        <View style={styles.approvalRow}>
+          <Ionicons name="close-circle-outline" size={12} color={colors.error} />
+          <Text style={[styles.approvalText, { color: colors.error }]} numberOfLines={2}>
+            {booking.decision?.reason ? `Rejected: ${booking.decision.reason}` : 'Rejected by an admin'}
+          </Text>
+        </View>
+      )}
+      {booking.status === 'NO_SHOW' && (
+        <View style={styles.approvalRow}>
+          <Ionicons name="log-out-outline" size={12} color={colors.textTertiary} />
+          <Text style={[styles.approvalText, { color: colors.textTertiary }]}>Released, nobody checked in</Text>
+        </View>
+      )}
+
+      {isUpcoming && (booking.status === 'CONFIRMED' || booking.status === 'PENDING') && (
         <TouchableOpacity
           onPress={() => handleCancel(booking)}
           style={[styles.cancelButton, { borderColor: colors.error }]}
         >
           <Ionicons name="close-circle-outline" size={12} color={colors.error} />
           <Text style={[styles.cancelText, { color: colors.error }]}>
-            Cancel
+            {booking.status === 'PENDING' ? 'Withdraw' : 'Cancel'}
           </Text>
         </TouchableOpacity>
       )}
@@ -109,6 +156,7 @@ export function MyBookingsScreen({ navigation }: BookingScreenProps<'BookingList
       <Header
         title="My Bookings"
         subtitle={`${bookings.length} bookings`}
+        rightAction={{ icon: 'share-outline', onPress: handleExport }}
         showProfile={true}
         onProfilePress={() => nav.navigate('Settings')}
       />
@@ -136,6 +184,16 @@ export function MyBookingsScreen({ navigation }: BookingScreenProps<'BookingList
         ))}
       </View>
 
+      <OfflineBanner updatedAt={dataUpdatedAt} />
+      {awaitingCount > 0 && (
+        <View style={[styles.awaitingBanner, { backgroundColor: colors.warningLight }]}>
+          <Ionicons name="hourglass-outline" size={16} color={colors.warning} />
+          <Text style={[styles.awaitingText, { color: colors.warning }]}>
+            {awaitingCount} booking{awaitingCount === 1 ? '' : 's'} waiting for approval
+          </Text>
+        </View>
+      )}
+
       <FlatList
         data={bookings}
         renderItem={renderBooking}
@@ -170,6 +228,18 @@ export function MyBookingsScreen({ navigation }: BookingScreenProps<'BookingList
           )
         }
       />
+
+      <SeriesScopeModal
+        visible={seriesToCancel !== null}
+        title="Cancel recurring booking"
+        message={seriesToCancel ? `"${seriesToCancel.title}" is part of a series. Which bookings should be cancelled?` : undefined}
+        destructive
+        onSelect={(scope) => {
+          if (seriesToCancel) cancelBooking.mutate({ id: seriesToCancel.id, scope });
+          setSeriesToCancel(null);
+        }}
+        onClose={() => setSeriesToCancel(null)}
+      />
     </SafeAreaView>
   );
 }
@@ -195,4 +265,8 @@ const styles = StyleSheet.create({
   timeText: { fontSize: 12, fontWeight: '500' },
   cancelButton: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: 4, borderWidth: 1, borderRadius: 6, paddingVertical: 8, marginTop: 8 },
   cancelText: { fontSize: 12, fontWeight: '600' },
+  approvalRow: { flexDirection: 'row', alignItems: 'center', gap: 4, marginTop: 6 },
+  approvalText: { fontSize: 12, fontWeight: '500', flex: 1 },
+  awaitingBanner: { flexDirection: 'row', alignItems: 'center', gap: 8, paddingHorizontal: 16, paddingVertical: 10 },
+  awaitingText: { fontSize: 13, fontWeight: '600' },
 });
@@ -11,11 +11,14 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useNavigation } from '@react-navigation/native';
+import { addMinutes, format, parseISO } from 'date-fns';
 import { useTheme } from '../../hooks/useTheme';
-import { useRooms } from '../../hooks/useRooms';
+import { useBulkAvailability, useRooms } from '../../hooks/useRooms';
 import { useFavoriteIds, useToggleFavorite } from '../../hooks/useFavorites';
-import { Card, Header, EmptyState, ErrorState } from '../../components/common';
+import { Card, Header, EmptyState, ErrorState, OfflineBanner } from '../../components/common';
 import { RoomFilterModal, type RoomFilterValues } from '../../components/room/RoomFilterModal';
+import { findConflicts, rankRooms } from '../../utils/availability';
+import { formatDateForQuery } from '../../utils/date';
 import type { RoomScreenProps } from '../../navigation/types';
 import type { Room } from '../../types';
 
@@ -40,33 +43,85 @@ export function RoomsScreen({ navigation }: RoomScreenProps<'RoomList'>) {
   const [showFilters, setShowFilters] = useState(false);
   const [filters, setFilters] = useState<RoomFilterValues>({});
 
+  const timeWindow = filters.timeWindow;
+  const windowStart = timeWindow ? parseISO(timeWindow.start) : undefined;
+  const windowEnd = timeWindow && windowStart ? addMinutes(windowStart, timeWindow.durationMinutes) : undefined;
+
+  // In "find me a room" mode amenities rank results instead of excluding rooms
   const apiFilters = {
     page: 1,
-    limit: 50,
+    limit: timeWindow ? 100 : 50,
     ...(filters.capacity ? { capacity: filters.capacity } : {}),
     ...(filters.building ? { building: filters.building } : {}),
     ...(filters.floor ? { floor: filters.floor } : {}),
-    ...(filters.amenities?.length ? { amenities: filters.amenities.join(',') } : {}),
+    ...(!timeWindow && filters.amenities?.length ? { amenities: filters.amenities.join(',') } : {}),
   };
 
-  const { data, isLoading, isError, error, refetch } = useRooms(apiFilters);
+  const { data, dataUpdatedAt, isLoading, isError, error, refetch } = useRooms(apiFilters);
   const { data: favoriteIdsData } = useFavoriteIds();
   const toggleFavorite = useToggleFavorite();
 
   const favoriteIds = favoriteIdsData?.data || [];
   const allRooms = data?.data || [];
 
+  const availability = useBulkAvailability(
+    allRooms.map((room) => room.id),
+    windowStart ? formatDateForQuery(windowStart) : '',
+    !!timeWindow
+  );
+
+  // Rooms free for the whole window, best fit first
+  const candidateRooms = useMemo(() => {
+    if (!windowStart || !windowEnd) return allRooms;
+    const busyByRoom = new Map(
+      (availability.data?.data || []).map((entry) => [entry.roomId, entry.bookings])
+    );
+    const freeRooms = allRooms.filter((room) => {
+      const busy = busyByRoom.get(room.id);
+      return busy !== undefined && findConflicts(busy, windowStart, windowEnd).length === 0;
+    });
+    return rankRooms(freeRooms, {
+      headcount: filters.capacity,
+      favoriteIds,
+      amenities: filters.amenities,
+    });
+  }, [allRooms, availability.data, timeWindow, filters.capacity, filters.amenities, favoriteIds]);
+
   // Client-side search filter
   const rooms = useMemo(() => {
-    if (!searchQuery.trim()) return allRooms;
+    if (!searchQuery.trim()) return candidateRooms;
     const q = searchQuery.toLowerCase();
-    return allRooms.filter(
+    return candidateRooms.filter(
       (room) =>
         room.name.toLowerCase().includes(q) ||
         room.building?.toLowerCase().includes(q) ||
         room.campus?.name.toLowerCase().includes(q)
     );
-  }, [allRooms, searchQuery]);
+  }, [candidateRooms, searchQuery]);
+
+  const isSearching = isLoading || (!!timeWindow && availability.isLoading);
+  const refreshAll = () => {
+    refetch();
+    if (timeWindow) availability.refetch();
+  };
+
+  const clearTimeWindow = () => {
+    const { timeWindow: _, ...rest } = filters;
+    setFilters(rest);
+  };
+
+  const handleRoomPress = (room: Room) => {
+    if (windowStart && windowEnd) {
+      navigation.navigate('CreateBooking', {
+        roomId: room.id,
+        roomName: room.name,
+        startTime: windowStart.toISOString(),
+        endTime: windowEnd.toISOString(),
+      });
+      return;
+    }
+    navigation.navigate('RoomDetail', { roomId: room.id });
+  };
 
   const activeFilterCount = Object.keys(filters).filter(
     (key) => {
@@ -80,14 +135,11 @@ export function RoomsScreen({ navigation }: RoomScreenProps<'RoomList'>) {
     toggleFavorite.mutate({ roomId, isFavorited });
   };
 
-  const renderRoom = ({ item: room }: { item: Room }) => {
+  const renderRoom = ({ item: room, index }: { item: Room; index: number }) => {
     const isFavorited = favoriteIds.includes(room.id);
 
     return (
-      <Card
-        onPress={() => navigation.navigate('RoomDetail', { roomId: room.id })}
-        style={styles.roomCard}
-      >
+      <Card onPress={() => handleRoomPress(room)} style={styles.roomCard}>
         <View style={styles.roomHeader}>
           <View style={[styles.roomIconContainer, { backgroundColor: colors.primaryLight }]}>
             <Ionicons name="business" size={20} color={colors.primary} />
@@ -121,6 +173,11 @@ export function RoomsScreen({ navigation }: RoomScreenProps<'RoomList'>) {
               {room.capacity}
             </Text>
           </View>
+          {timeWindow && index === 0 && !searchQuery && (
+            <View style={[styles.bestFitBadge, { backgroundColor: colors.successLight }]}>
+              <Text style={[styles.bestFitText, { color: colors.success }]}>Best fit</Text>
+            </View>
+          )}
         </View>
 
         {room.amenities.length > 0 && (
@@ -154,11 +211,13 @@ export function RoomsScreen({ navigation }: RoomScreenProps<'RoomList'>) {
     <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
       <Header
         title="Rooms"
-        subtitle={`${rooms.length} rooms available`}
+        subtitle={timeWindow ? `${rooms.length} rooms free` : `${rooms.length} rooms available`}
         showProfile={true}
         onProfilePress={() => nav.navigate('Settings')}
       />
 
+      <OfflineBanner updatedAt={dataUpdatedAt} />
+
       {/* Search Bar */}
       <View style={styles.searchRow}>
         <View style={[styles.searchContainer, { backgroundColor: colors.surface, borderColor: colors.border }]}>
@@ -199,6 +258,18 @@ export function RoomsScreen({ navigation }: RoomScreenProps<'RoomList'>) {
         </TouchableOpacity>
       </View>
 
+      {windowStart && windowEnd && (
+        <View style={[styles.windowBanner, { backgroundColor: colors.primaryLight }]}>
+          <Ionicons name="time-outline" size={16} color={colors.primary} />
+          <Text style={[styles.windowBannerText, { color: colors.primary }]} numberOfLines={1}>
+            Free {format(windowStart, 'EEE, MMM d')} • {format(windowStart, 'h:mm a')} - {format(windowEnd, 'h:mm a')}
+          </Text>
+          <TouchableOpacity onPress={clearTimeWindow} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+            <Ionicons name="close-circle" size={18} color={colors.primary} />
+          </TouchableOpacity>
+        </View>
+      )}
+
       <FlatList
         data={rooms}
         renderItem={renderRoom}
@@ -211,18 +282,26 @@ export function RoomsScreen({ navigation }: RoomScreenProps<'RoomList'>) {
         ]}
         refreshControl={
           <RefreshControl
-            refreshing={isLoading}
-            onRefresh={refetch}
+            refreshing={isSearching}
+            onRefresh={refreshAll}
             colors={[colors.primary]}
             tintColor={colors.primary}
           />
         }
         ListEmptyComponent={
-          isError ? (
+          isError || availability.isError ? (
             <ErrorState
-              title="Failed to load rooms"
-              message={error?.message || 'Unable to fetch rooms. Please try again.'}
-              onRetry={refetch}
+              title={isError ? 'Failed to load rooms' : 'Failed to check availability'}
+              message={(isError ? error : availability.error)?.message || 'Unable to fetch rooms. Please try again.'}
+              onRetry={refreshAll}
+            />
+          ) : timeWindow && !searchQuery ? (
+            <EmptyState
+              icon="calendar-outline"
+              title="No rooms free at this time"
+              subtitle="Try a different time, a shorter duration or fewer filters"
+              actionLabel="Change Time"
+              onAction={() => setShowFilters(true)}
             />
           ) : (
             <EmptyState
@@ -271,4 +350,8 @@ const styles = StyleSheet.create({
   amenities: { flexDirection: 'row', flexWrap: 'wrap', gap: 4 },
   amenityBadge: { width: 24, height: 24, borderRadius: 6, justifyContent: 'center', alignItems: 'center' },
   amenityText: { fontSize: 10 },
+  windowBanner: { flexDirection: 'row', alignItems: 'center', gap: 8, marginHorizontal: 16, marginBottom: 4, paddingHorizontal: 12, paddingVertical: 10, borderRadius: 12 },
+  windowBannerText: { flex: 1, fontSize: 13, fontWeight: '600' },
+  bestFitBadge: { paddingHorizontal: 6, paddingVertical: 2, borderRadius: 6 },
+  bestFitText: { fontSize: 10, fontWeight: '700' },
 });
@@ -0,0 +1,361 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  Modal,
+  FlatList,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import { File } from 'expo-file-system';
+import { format } from 'date-fns';
+import { useTheme } from '../../hooks/useTheme';
+import { useRooms } from '../../hooks/useRooms';
+import { useIcsImport, type IcsImportResult, type IcsImportStatus } from '../../hooks/useIcsImport';
+import { Button, Card, EmptyState } from '../../components/common';
+import { parseIcs, type IcsEvent, type SkippedIcsEvent } from '../../utils/ics';
+import { describeRecurrence } from '../../utils/recurrence';
+import type { SettingsScreenProps } from '../../navigation/types';
+import type { Room } from '../../types';
+
+interface EventDraft {
+  event: IcsEvent;
+  roomId: string | null;
+  included: boolean;
+}
+
+const STATUS_ICONS: Record<IcsImportStatus, keyof typeof Ionicons.glyphMap> = {
+  created: 'checkmark-circle',
+  conflict: 'alert-circle',
+  failed: 'close-circle',
+  skipped: 'remove-circle',
+};
+
+// Picks the room whose name appears in the event's LOCATION, preferring the longest match
+function matchRoom(location: string | undefined, rooms: Room[]): string | null {
+  if (!location) return null;
+  const haystack = location.toLowerCase();
+  const match = rooms
+    .filter((room) => haystack.includes(room.name.toLowerCase()))
+    .sort((a, b) => b.name.length - a.name.length)[0];
+  return match?.id ?? null;
+}
+
+export function IcsImportScreen({ navigation }: SettingsScreenProps<'IcsImport'>) {
+  const { colors } = useTheme();
+  const { data: roomsData } = useRooms({ limit: 100 });
+  const importMutation = useIcsImport();
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [drafts, setDrafts] = useState<EventDraft[]>([]);
+  const [skipped, setSkipped] = useState<SkippedIcsEvent[]>([]);
+  const [pickingFor, setPickingFor] = useState<string | null>(null);
+  const [results, setResults] = useState<IcsImportResult[] | null>(null);
+
+  const rooms = roomsData?.data || [];
+  const roomById = (id: string | null) => rooms.find((room) => room.id === id);
+  const selected = drafts.filter((d) => d.included);
+  const unmapped = selected.filter((d) => !roomById(d.roomId)).length;
+
+  const reset = () => {
+    setFileName(null);
+    setDrafts([]);
+    setSkipped([]);
+    setResults(null);
+  };
+
+  const handlePickFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['text/calendar', 'application/ics', 'text/plain'],
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled) return;
+
+      const asset = result.assets[0];
+      const text = await new File(asset.uri).text();
+      const parsed = parseIcs(text);
+
+      if (parsed.events.length === 0 && parsed.skipped.length === 0) {
+        Alert.alert('No Events Found', 'This file does not contain any calendar events.');
+        return;
+      }
+
+      setFileName(asset.name);
+      setSkipped(parsed.skipped);
+      setResults(null);
+      setDrafts(
+        parsed.events.map((event) => ({
+          event,
+          roomId: matchRoom(event.location, rooms),
+          included: true,
+        }))
+      );
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to read the calendar file');
+    }
+  };
+
+  const updateDraft = (uid: string, changes: Partial<EventDraft>) => {
+    setDrafts((prev) => prev.map((d) => (d.event.uid === uid ? { ...d, ...changes } : d)));
+  };
+
+  const handleImport = async () => {
+    const items = selected
+      .map((d) => ({ event: d.event, room: roomById(d.roomId) }))
+      .filter((item): item is { event: IcsEvent; room: Room } => !!item.room);
+    try {
+      setResults(await importMutation.mutateAsync(items));
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.message || 'Failed to import events');
+    }
+  };
+
+  const renderEvent = (draft: EventDraft) => {
+    const { event } = draft;
+    const room = roomById(draft.roomId);
+
+    return (
+      <Card key={event.uid} style={[styles.eventCard, !draft.included && styles.excluded]}>
+        <TouchableOpacity
+          style={styles.eventHeader}
+          onPress={() => updateDraft(event.uid, { included: !draft.included })}
+        >
+          <Ionicons
+            name={draft.included ? 'checkbox' : 'square-outline'}
+            size={22}
+            color={draft.included ? colors.primary : colors.textTertiary}
+          />
+          <Text style={[styles.eventTitle, { color: colors.text }]} numberOfLines={2}>
+            {event.summary}
+          </Text>
+        </TouchableOpacity>
+
+        <View style={styles.eventMeta}>
+          <Ionicons name="time-outline" size={14} color={colors.textSecondary} />
+          <Text style={[styles.eventMetaText, { color: colors.textSecondary }]}>
+            {format(event.start, 'EEE, MMM d • h:mm a')} - {format(event.end, 'h:mm a')}
+          </Text>
+        </View>
+        {event.recurrence && (
+          <View style={styles.eventMeta}>
+            <Ionicons name="repeat-outline" size={14} color={colors.textSecondary} />
+            <Text style={[styles.eventMetaText, { color: colors.textSecondary }]}>
+              {describeRecurrence(event.recurrence, event.start)}
+            </Text>
+          </View>
+        )}
+        {event.attendees.length > 0 && (
+          <View style={styles.eventMeta}>
+            <Ionicons name="people-outline" size={14} color={colors.textSecondary} />
+            <Text style={[styles.eventMetaText, { color: colors.textSecondary }]}>
+              {event.attendees.length} attendee{event.attendees.length === 1 ? '' : 's'}
+            </Text>
+          </View>
+        )}
+        {event.location && (
+          <View style={styles.eventMeta}>
+            <Ionicons name="location-outline" size={14} color={colors.textSecondary} />
+            <Text style={[styles.eventMetaText, { color: colors.textSecondary }]} numberOfLines={1}>
+              {event.location}
+            </Text>
+          </View>
+        )}
+
+        {draft.included && (
+          <TouchableOpacity
+            onPress={() => setPickingFor(event.uid)}
+            style={[
+              styles.roomSelect,
+              { borderColor: room ? colors.border : colors.warning, backgroundColor: colors.surface },
+            ]}
+          >
+            <Ionicons name="business-outline" size={16} color={room ? colors.primary : colors.warning} />
+            <Text style={[styles.roomSelectText, { color: room ? colors.text : colors.warning }]} numberOfLines={1}>
+              {room ? `${room.name} (${room.capacity})` : 'Choose a room'}
+            </Text>
+            <Ionicons name="chevron-down" size={16} color={colors.textTertiary} />
+          </TouchableOpacity>
+        )}
+      </Card>
+    );
+  };
+
+  const renderResults = (items: IcsImportResult[]) => {
+    const created = items.filter((r) => r.status === 'created').length;
+    const statusColor = (status: IcsImportStatus) =>
+      status === 'created' ? colors.success : status === 'skipped' ? colors.textTertiary : colors.error;
+
+    return (
+      <>
+        <Text style={[styles.summary, { color: colors.text }]}>
+          Imported {created} of {items.length} event{items.length === 1 ? '' : 's'}
+        </Text>
+        {items.map((result) => (
+          <Card key={result.uid} style={styles.eventCard}>
+            <View style={styles.eventHeader}>
+              <Ionicons name={STATUS_ICONS[result.status]} size={22} color={statusColor(result.status)} />
+              <View style={{ flex: 1 }}>
+                <Text style={[styles.eventTitle, { color: colors.text }]} numberOfLines={1}>
+                  {result.summary}
+                </Text>
+                <Text style={[styles.eventMetaText, { color: colors.textSecondary }]}>
+                  {result.roomName} • {result.message}
+                </Text>
+              </View>
+            </View>
+          </Card>
+        ))}
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['bottom']}>
+      {!fileName ? (
+        <EmptyState
+          icon="document-text-outline"
+          title="Import from a calendar file"
+          subtitle="Choose an .ics file exported from another calendar. Each event, including repeating series, can be booked into a room."
+          actionLabel="Choose .ics File"
+          onAction={handlePickFile}
+        />
+      ) : (
+        <>
+          <ScrollView contentContainerStyle={styles.scrollContent}>
+            <View style={styles.fileRow}>
+              <Ionicons name="document-text-outline" size={18} color={colors.primary} />
+              <Text style={[styles.fileName, { color: colors.text }]} numberOfLines={1}>
+                {fileName}
+              </Text>
+              {!importMutation.isPending && (
+                <TouchableOpacity onPress={reset}>
+                  <Text style={[styles.changeText, { color: colors.primary }]}>Change</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+
+            {results ? (
+              renderResults(results)
+            ) : (
+              <>
+                <Text style={[styles.summary, { color: colors.text }]}>
+                  {drafts.length} event{drafts.length === 1 ? '' : 's'} found
+                </Text>
+                {drafts.map(renderEvent)}
+              </>
+            )}
+
+            {skipped.length > 0 && (
+              <>
+                <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>
+                  NOT IMPORTED ({skipped.length})
+                </Text>
+                {skipped.map((item, index) => (
+                  <View key={`${item.summary}-${index}`} style={styles.skippedRow}>
+                    <Text style={[styles.skippedTitle, { color: colors.text }]} numberOfLines={1}>
+                      {item.summary}
+                    </Text>
+                    <Text style={[styles.eventMetaText, { color: colors.textSecondary }]}>{item.reason}</Text>
+                  </View>
+                ))}
+              </>
+            )}
+          </ScrollView>
+
+          <View style={[styles.footer, { borderTopColor: colors.border }]}>
+            {results ? (
+              <Button title="Done" onPress={() => navigation.goBack()} fullWidth size="lg" />
+            ) : (
+              <>
+                {unmapped > 0 && (
+                  <Text style={[styles.footerHint, { color: colors.warning }]}>
+                    Choose a room for {unmapped} event{unmapped === 1 ? '' : 's'} to continue
+                  </Text>
+                )}
+                <Button
+                  title={`Import ${selected.length} Event${selected.length === 1 ? '' : 's'}`}
+                  onPress={handleImport}
+                  loading={importMutation.isPending}
+                  disabled={selected.length === 0 || unmapped > 0}
+                  fullWidth
+                  size="lg"
+                />
+              </>
+            )}
+          </View>
+        </>
+      )}
+
+      {/* Room Picker */}
+      <Modal
+        visible={pickingFor !== null}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setPickingFor(null)}
+      >
+        <View style={[styles.container, { backgroundColor: colors.background }]}>
+          <View style={[styles.modalHeader, { borderBottomColor: colors.border }]}>
+            <TouchableOpacity onPress={() => setPickingFor(null)}>
+              <Ionicons name="close" size={24} color={colors.text} />
+            </TouchableOpacity>
+            <Text style={[styles.modalTitle, { color: colors.text }]}>Choose Room</Text>
+            <View style={{ width: 24 }} />
+          </View>
+          <FlatList
+            data={rooms}
+            keyExtractor={(room) => room.id}
+            renderItem={({ item: room }) => (
+              <TouchableOpacity
+                style={[styles.roomRow, { borderBottomColor: colors.border }]}
+                onPress={() => {
+                  if (pickingFor) updateDraft(pickingFor, { roomId: room.id });
+                  setPickingFor(null);
+                }}
+              >
+                <Ionicons name="business-outline" size={20} color={colors.primary} />
+                <View style={{ flex: 1 }}>
+                  <Text style={[styles.roomName, { color: colors.text }]}>{room.name}</Text>
+                  <Text style={[styles.eventMetaText, { color: colors.textSecondary }]}>
+                    {room.capacity} people{room.building ? ` • ${room.building}` : ''}
+                  </Text>
+                </View>
+              </TouchableOpacity>
+            )}
+          />
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  scrollContent: { padding: 16, paddingBottom: 24 },
+  fileRow: { flexDirection: 'row', alignItems: 'center', gap: 8, marginBottom: 12 },
+  fileName: { flex: 1, fontSize: 15, fontWeight: '500' },
+  changeText: { fontSize: 14, fontWeight: '600' },
+  summary: { fontSize: 16, fontWeight: '600', marginBottom: 12 },
+  sectionTitle: { fontSize: 13, fontWeight: '600', marginTop: 16, marginBottom: 8, letterSpacing: 0.5 },
+  eventCard: { marginBottom: 12 },
+  excluded: { opacity: 0.5 },
+  eventHeader: { flexDirection: 'row', alignItems: 'center', gap: 10, marginBottom: 8 },
+  eventTitle: { flex: 1, fontSize: 15, fontWeight: '600' },
+  eventMeta: { flexDirection: 'row', alignItems: 'center', gap: 6, marginTop: 4, paddingLeft: 32 },
+  eventMetaText: { fontSize: 13, flexShrink: 1 },
+  roomSelect: { flexDirection: 'row', alignItems: 'center', gap: 8, borderWidth: 1.5, borderRadius: 10, padding: 10, marginTop: 12 },
+  roomSelectText: { flex: 1, fontSize: 14, fontWeight: '500' },
+  skippedRow: { paddingVertical: 8 },
+  skippedTitle: { fontSize: 14, fontWeight: '500' },
+  footer: { padding: 16, borderTopWidth: 1, gap: 8 },
+  footerHint: { fontSize: 13, textAlign: 'center' },
+  modalHeader: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', paddingHorizontal: 20, paddingVertical: 16, borderBottomWidth: 1 },
+  modalTitle: { fontSize: 18, fontWeight: '600' },
+  roomRow: { flexDirection: 'row', alignItems: 'center', gap: 12, paddingHorizontal: 20, paddingVertical: 14, borderBottomWidth: StyleSheet.hairlineWidth },
+  roomName: { fontSize: 15, fontWeight: '500' },
+});
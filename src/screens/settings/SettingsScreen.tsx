@@ -9,6 +9,7 @@ import {
   TextInput,
   Modal,
   Linking,
+  Switch,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
@@ -17,11 +18,23 @@ import type { SettingsScreenProps } from '../../navigation/types';
 import { useTheme } from '../../hooks/useTheme';
 import { useAuth } from '../../hooks/useAuth';
 import { useCalendarConnections, useCalendarConnect, useCalendarDisconnect } from '../../hooks/useCalendar';
+import { useMyCampus } from '../../hooks/useCampus';
+import { usePendingApprovals } from '../../hooks/useApprovals';
 import { Card } from '../../components/common';
+import {
+  AI_PROVIDER_LABELS,
+  ANTHROPIC_API_KEY,
+  LOCAL_LLM_API_KEY,
+  resolveProviderSettings,
+} from '../../services/llmProviders';
+import { useAISettingsStore } from '../../store/aiSettings';
+import type { AIProviderId } from '../../types';
 import * as SecureStore from 'expo-secure-store';
 
 type ThemeMode = 'light' | 'dark' | 'system';
 
+const AI_PROVIDERS: AIProviderId[] = ['anthropic', 'proxy', 'openai-compatible'];
+
 // Admin roles that can access analytics
 const ADMIN_ROLES = ['ADMIN', 'CAMPUS_ADMIN', 'SUPER_ADMIN'];
 const SUPER_ADMIN_ROLE = 'SUPER_ADMIN';
@@ -98,15 +111,59 @@ export function SettingsScreen({ navigation }: SettingsScreenProps<'SettingsMain
   // Check if API key is configured on mount
   useEffect(() => {
     const checkApiKey = async () => {
-      const key = await SecureStore.getItemAsync('claude_api_key');
+      const key = await SecureStore.getItemAsync(ANTHROPIC_API_KEY);
       setApiKeyStatus(key ? 'configured' : 'none');
     };
     checkApiKey();
   }, []);
 
+  // AI provider: the user's pick, limited by the campus policy
+  const aiSettings = useAISettingsStore();
+  const { data: myCampus } = useMyCampus();
+  const campusAI = myCampus?.aiSettings;
+  const provider = resolveProviderSettings(myCampus, aiSettings);
+  const [showProviderModal, setShowProviderModal] = useState(false);
+  const [showLocalModal, setShowLocalModal] = useState(false);
+  const [localForm, setLocalForm] = useState({ baseUrl: '', model: '', apiKey: '' });
+
+  const handleSelectProvider = (id: AIProviderId | null) => {
+    aiSettings.setProvider(id);
+    setShowProviderModal(false);
+  };
+
+  const handleOpenLocalModal = () => {
+    setLocalForm({ baseUrl: provider.localBaseUrl, model: provider.model || '', apiKey: '' });
+    setShowLocalModal(true);
+  };
+
+  const handleSaveLocal = async () => {
+    const baseUrl = localForm.baseUrl.trim();
+    if (!/^https?:\/\/\S+$/.test(baseUrl)) {
+      Alert.alert('Error', 'Enter the server address, starting with http:// or https://');
+      return;
+    }
+    if (!localForm.model.trim()) {
+      Alert.alert('Error', 'Enter the model name');
+      return;
+    }
+
+    try {
+      // A blank key keeps the saved one
+      if (localForm.apiKey.trim()) {
+        await SecureStore.setItemAsync(LOCAL_LLM_API_KEY, localForm.apiKey.trim());
+      }
+      aiSettings.setLocalEndpoint(baseUrl, localForm.model.trim());
+      setShowLocalModal(false);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to save local model settings');
+    }
+  };
+
   // Check if user is admin
   const isAdmin = user?.role && ADMIN_ROLES.includes(user.role);
   const isSuperAdmin = user?.role === SUPER_ADMIN_ROLE;
+  const { data: pendingApprovals } = usePendingApprovals(!!isAdmin);
+  const pendingApprovalCount = pendingApprovals?.data?.filter((booking) => booking.status === 'PENDING').length ?? 0;
 
   const handleLogout = () => {
     Alert.alert('Logout', 'Are you sure you want to sign out?', [
@@ -122,7 +179,7 @@ export function SettingsScreen({ navigation }: SettingsScreenProps<'SettingsMain
     }
 
     try {
-      await SecureStore.setItemAsync('claude_api_key', apiKeyInput.trim());
+      await SecureStore.setItemAsync(ANTHROPIC_API_KEY, apiKeyInput.trim());
       setApiKeyStatus('configured');
       setShowApiKeyModal(false);
       setApiKeyInput('');
@@ -142,7 +199,7 @@ export function SettingsScreen({ navigation }: SettingsScreenProps<'SettingsMain
           text: 'Remove',
           style: 'destructive',
           onPress: async () => {
-            await SecureStore.deleteItemAsync('claude_api_key');
+            await SecureStore.deleteItemAsync(ANTHROPIC_API_KEY);
             setApiKeyStatus('none');
           },
         },
@@ -284,12 +341,23 @@ export function SettingsScreen({ navigation }: SettingsScreenProps<'SettingsMain
         </Text>
         <Card style={styles.sectionCard} padding={0}>
           {renderSettingRow(
-            'chatbubbles-outline',
-            'Claude API Key',
-            apiKeyStatus === 'configured' ? 'Configured' : 'Not set',
-            () => setShowApiKeyModal(true)
+            'hardware-chip-outline',
+            'Provider',
+            AI_PROVIDER_LABELS[provider.id],
+            provider.canChoose ? () => setShowProviderModal(true) : undefined
+          )}
+          {provider.id === 'anthropic' && (
+            <>
+              <View style={[styles.divider, { backgroundColor: colors.border }]} />
+              {renderSettingRow(
+                'key-outline',
+                'Claude API Key',
+                apiKeyStatus === 'configured' ? 'Configured' : 'Not set',
+                () => setShowApiKeyModal(true)
+              )}
+            </>
           )}
-          {apiKeyStatus === 'configured' && (
+          {provider.id === 'anthropic' && apiKeyStatus === 'configured' && (
             <>
               <View style={[styles.divider, { backgroundColor: colors.border }]} />
               {renderSettingRow(
@@ -301,7 +369,35 @@ export function SettingsScreen({ navigation }: SettingsScreenProps<'SettingsMain
               )}
             </>
           )}
+          {provider.id === 'openai-compatible' && (
+            <>
+              <View style={[styles.divider, { backgroundColor: colors.border }]} />
+              {renderSettingRow(
+                'server-outline',
+                'Local Model',
+                provider.localBaseUrl && provider.model ? provider.model : 'Not set',
+                handleOpenLocalModal
+              )}
+            </>
+          )}
+          <View style={[styles.divider, { backgroundColor: colors.border }]} />
+          <View style={styles.settingRow}>
+            <View style={styles.settingLeft}>
+              <Ionicons name="sparkles-outline" size={22} color={colors.primary} />
+              <Text style={[styles.settingLabel, { color: colors.text }]}>Daily Briefing</Text>
+            </View>
+            <Switch
+              value={aiSettings.dailyBriefing}
+              onValueChange={aiSettings.setDailyBriefing}
+              trackColor={{ false: colors.border, true: colors.primary }}
+            />
+          </View>
         </Card>
+        <Text style={[styles.sectionNote, { color: colors.textTertiary }]}>
+          {!provider.canChoose && 'Your campus administrator has chosen the AI provider. '}
+          The daily briefing summarises your day on the Dashboard. It sends your meeting titles and rooms to the AI
+          provider, or uses a plain summary when none is set up.
+        </Text>
 
         {/* Calendar Connections */}
         <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>
@@ -351,6 +447,15 @@ export function SettingsScreen({ navigation }: SettingsScreenProps<'SettingsMain
               <Ionicons name="chevron-forward" size={18} color={colors.textTertiary} />
             )}
           </TouchableOpacity>
+
+          <View style={[styles.divider, { backgroundColor: colors.border }]} />
+
+          {renderSettingRow(
+            'download-outline',
+            'Import from .ics File',
+            undefined,
+            () => navigation.navigate('IcsImport')
+          )}
         </Card>
 
         {/* Admin Section - only visible to admins */}
@@ -380,6 +485,20 @@ export function SettingsScreen({ navigation }: SettingsScreenProps<'SettingsMain
                 undefined,
                 () => navigation.navigate('RoomsManage')
               )}
+              <View style={[styles.divider, { backgroundColor: colors.border }]} />
+              {renderSettingRow(
+                'checkmark-done-outline',
+                'Booking Approvals',
+                pendingApprovalCount > 0 ? `${pendingApprovalCount} waiting` : undefined,
+                () => navigation.navigate('Approvals')
+              )}
+              <View style={[styles.divider, { backgroundColor: colors.border }]} />
+              {renderSettingRow(
+                'log-out-outline',
+                'No-Shows',
+                undefined,
+                () => navigation.navigate('NoShows')
+              )}
             </Card>
           </>
         )}
@@ -411,6 +530,115 @@ export function SettingsScreen({ navigation }: SettingsScreenProps<'SettingsMain
         </Text>
       </ScrollView>
 
+      {/* AI Provider Modal */}
+      <Modal
+        visible={showProviderModal}
+        animationType="slide"
+        transparent
+        onRequestClose={() => setShowProviderModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { backgroundColor: colors.background }]}>
+            <View style={styles.modalHeader}>
+              <Text style={[styles.modalTitle, { color: colors.text }]}>AI Provider</Text>
+              <TouchableOpacity onPress={() => setShowProviderModal(false)}>
+                <Ionicons name="close" size={24} color={colors.text} />
+              </TouchableOpacity>
+            </View>
+
+            {[
+              ...(campusAI ? [{ id: null, label: `Campus default (${AI_PROVIDER_LABELS[campusAI.provider]})` }] : []),
+              ...AI_PROVIDERS.map((id) => ({ id, label: AI_PROVIDER_LABELS[id] })),
+            ].map((option) => {
+              const isSelected = aiSettings.provider === option.id;
+              return (
+                <TouchableOpacity
+                  key={option.id ?? 'default'}
+                  style={[
+                    styles.providerOption,
+                    {
+                      backgroundColor: isSelected ? colors.primaryLight : colors.surfaceSecondary,
+                      borderColor: isSelected ? colors.primary : 'transparent',
+                    },
+                  ]}
+                  onPress={() => handleSelectProvider(option.id)}
+                >
+                  <Text style={[styles.providerLabel, { color: isSelected ? colors.primary : colors.text }]}>
+                    {option.label}
+                  </Text>
+                  {isSelected && <Ionicons name="checkmark" size={20} color={colors.primary} />}
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+      </Modal>
+
+      {/* Local Model Modal */}
+      <Modal
+        visible={showLocalModal}
+        animationType="slide"
+        transparent
+        onRequestClose={() => setShowLocalModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { backgroundColor: colors.background }]}>
+            <View style={styles.modalHeader}>
+              <Text style={[styles.modalTitle, { color: colors.text }]}>Local Model</Text>
+              <TouchableOpacity onPress={() => setShowLocalModal(false)}>
+                <Ionicons name="close" size={24} color={colors.text} />
+              </TouchableOpacity>
+            </View>
+
+            <Text style={[styles.modalDescription, { color: colors.textSecondary }]}>
+              Any server with an OpenAI-compatible chat completions API, such as Ollama or LM Studio. The model must
+              support tool calling.
+            </Text>
+
+            {[
+              { key: 'baseUrl' as const, placeholder: 'http://192.168.1.10:11434/v1', secure: false },
+              { key: 'model' as const, placeholder: 'Model, e.g. llama3.1', secure: false },
+              { key: 'apiKey' as const, placeholder: 'API key (optional)', secure: true },
+            ].map((field) => (
+              <TextInput
+                key={field.key}
+                style={[
+                  styles.apiKeyInput,
+                  styles.localInput,
+                  {
+                    backgroundColor: colors.surfaceSecondary,
+                    color: colors.text,
+                    borderColor: colors.border,
+                  },
+                ]}
+                placeholder={field.placeholder}
+                placeholderTextColor={colors.textTertiary}
+                value={localForm[field.key]}
+                onChangeText={(text) => setLocalForm((form) => ({ ...form, [field.key]: text }))}
+                secureTextEntry={field.secure}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+            ))}
+
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={[styles.modalButton, { backgroundColor: colors.surfaceSecondary }]}
+                onPress={() => setShowLocalModal(false)}
+              >
+                <Text style={[styles.modalButtonText, { color: colors.text }]}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalButton, { backgroundColor: colors.primary }]}
+                onPress={handleSaveLocal}
+              >
+                <Text style={[styles.modalButtonText, { color: '#fff' }]}>Save</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
       {/* API Key Modal */}
       <Modal
         visible={showApiKeyModal}
@@ -526,6 +754,12 @@ const styles = StyleSheet.create({
   sectionCard: {
     marginBottom: 16,
   },
+  sectionNote: {
+    fontSize: 12,
+    marginTop: -8,
+    marginBottom: 16,
+    marginLeft: 4,
+  },
   themeSelector: {
     flexDirection: 'row',
     gap: 8,
@@ -608,6 +842,23 @@ const styles = StyleSheet.create({
     fontSize: 15,
     marginBottom: 20,
   },
+  localInput: {
+    marginBottom: 12,
+  },
+  providerOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    borderWidth: 1.5,
+    marginBottom: 8,
+  },
+  providerLabel: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
   modalButtons: {
     flexDirection: 'row',
     gap: 12,
@@ -9,6 +9,7 @@ import {
   Alert,
   FlatList,
   Modal,
+  Switch,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
@@ -16,7 +17,10 @@ import { useTheme } from '../../hooks/useTheme';
 import { useAuth } from '../../hooks/useAuth';
 import { Card, Button, Input, StatusBadge } from '../../components/common';
 import api from '../../services/api';
-import type { Campus, ApiResponse } from '../../types';
+import { AI_PROVIDER_LABELS } from '../../services/llmProviders';
+import { BookingPolicyFields } from '../../components/room/BookingPolicyFields';
+import { formToPolicy, policyToForm, type PolicyFormValues } from '../../utils/bookingPolicy';
+import type { Campus, ApiResponse, AIProviderId, CampusAISettings } from '../../types';
 
 // Super admin only role
 const SUPER_ADMIN_ROLE = 'SUPER_ADMIN';
@@ -28,6 +32,13 @@ interface CampusFormData {
   address: string;
   phone: string;
   email: string;
+  /** Empty leaves the assistant to each user's own settings */
+  aiProvider: AIProviderId | '';
+  aiAllowUserChoice: boolean;
+  aiModel: string;
+  aiLocalBaseUrl: string;
+  /** Defaults for rooms without their own rules; all blank means no limits */
+  bookingPolicy: PolicyFormValues;
 }
 
 const initialFormData: CampusFormData = {
@@ -37,8 +48,20 @@ const initialFormData: CampusFormData = {
   address: '',
   phone: '',
   email: '',
+  aiProvider: '',
+  aiAllowUserChoice: true,
+  aiModel: '',
+  aiLocalBaseUrl: '',
+  bookingPolicy: policyToForm(null),
 };
 
+const AI_PROVIDER_OPTIONS: { value: AIProviderId | ''; label: string }[] = [
+  { value: '', label: 'Not set' },
+  { value: 'proxy', label: AI_PROVIDER_LABELS.proxy },
+  { value: 'anthropic', label: AI_PROVIDER_LABELS.anthropic },
+  { value: 'openai-compatible', label: AI_PROVIDER_LABELS['openai-compatible'] },
+];
+
 export function CampusesScreen({ navigation }: any) {
   const { colors } = useTheme();
   const { user } = useAuth();
@@ -50,7 +73,8 @@ export function CampusesScreen({ navigation }: any) {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [editingCampus, setEditingCampus] = useState<Campus | null>(null);
   const [formData, setFormData] = useState<CampusFormData>(initialFormData);
-  const [formErrors, setFormErrors] = useState<Partial<CampusFormData>>({});
+  const [formErrors, setFormErrors] = useState<Partial<Record<keyof CampusFormData, string>>>({});
+  const [policyErrors, setPolicyErrors] = useState<Partial<PolicyFormValues>>({});
 
   // Check if user is super admin
   const isSuperAdmin = user?.role === SUPER_ADMIN_ROLE;
@@ -89,7 +113,7 @@ export function CampusesScreen({ navigation }: any) {
   };
 
   const validateForm = (): boolean => {
-    const errors: Partial<CampusFormData> = {};
+    const errors: Partial<Record<keyof CampusFormData, string>> = {};
 
     if (!formData.name.trim()) {
       errors.name = 'Campus name is required';
@@ -100,9 +124,15 @@ export function CampusesScreen({ navigation }: any) {
     if (!formData.city.trim()) {
       errors.city = 'City is required';
     }
+    if (formData.aiProvider === 'openai-compatible' && !/^https?:\/\/\S+$/.test(formData.aiLocalBaseUrl.trim())) {
+      errors.aiLocalBaseUrl = 'Enter the server address, starting with http:// or https://';
+    }
+
+    const { errors: policyFieldErrors } = formToPolicy(formData.bookingPolicy);
+    setPolicyErrors(policyFieldErrors);
 
     setFormErrors(errors);
-    return Object.keys(errors).length === 0;
+    return Object.keys(errors).length === 0 && Object.keys(policyFieldErrors).length === 0;
   };
 
   const handleOpenModal = (campus?: Campus) => {
@@ -115,12 +145,18 @@ export function CampusesScreen({ navigation }: any) {
         address: campus.address || '',
         phone: campus.phone || '',
         email: campus.email || '',
+        aiProvider: campus.aiSettings?.provider || '',
+        aiAllowUserChoice: campus.aiSettings?.allowUserChoice ?? true,
+        aiModel: campus.aiSettings?.model || '',
+        aiLocalBaseUrl: campus.aiSettings?.localBaseUrl || '',
+        bookingPolicy: policyToForm(campus.bookingPolicy),
       });
     } else {
       setEditingCampus(null);
       setFormData(initialFormData);
     }
     setFormErrors({});
+    setPolicyErrors({});
     setIsModalVisible(true);
   };
 
@@ -129,6 +165,7 @@ export function CampusesScreen({ navigation }: any) {
     setEditingCampus(null);
     setFormData(initialFormData);
     setFormErrors({});
+    setPolicyErrors({});
   };
 
   const handleSubmit = async () => {
@@ -136,6 +173,7 @@ export function CampusesScreen({ navigation }: any) {
 
     setIsSubmitting(true);
     try {
+      const bookingPolicy = formToPolicy(formData.bookingPolicy).policy;
       const payload = {
         name: formData.name.trim(),
         code: formData.code.trim().toUpperCase(),
@@ -143,6 +181,15 @@ export function CampusesScreen({ navigation }: any) {
         address: formData.address.trim() || null,
         phone: formData.phone.trim() || null,
         email: formData.email.trim() || null,
+        aiSettings: formData.aiProvider
+          ? ({
+              provider: formData.aiProvider,
+              allowUserChoice: formData.aiAllowUserChoice,
+              model: formData.aiModel.trim() || null,
+              localBaseUrl: formData.aiLocalBaseUrl.trim() || null,
+            } satisfies CampusAISettings)
+          : null,
+        bookingPolicy: Object.values(formData.bookingPolicy).some((value) => value.trim()) ? bookingPolicy : null,
       };
 
       let response;
@@ -443,6 +490,77 @@ export function CampusesScreen({ navigation }: any) {
               autoCapitalize="none"
             />
 
+            <Text style={[styles.formSectionTitle, { color: colors.text }]}>AI Assistant</Text>
+            <View style={styles.providerChips}>
+              {AI_PROVIDER_OPTIONS.map((option) => {
+                const isSelected = formData.aiProvider === option.value;
+                return (
+                  <TouchableOpacity
+                    key={option.value || 'none'}
+                    style={[
+                      styles.providerChip,
+                      {
+                        backgroundColor: isSelected ? colors.primaryLight : colors.surfaceSecondary,
+                        borderColor: isSelected ? colors.primary : 'transparent',
+                      },
+                    ]}
+                    onPress={() => setFormData({ ...formData, aiProvider: option.value })}
+                  >
+                    <Text style={[styles.providerChipText, { color: isSelected ? colors.primary : colors.textSecondary }]}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            {formData.aiProvider !== '' && (
+              <>
+                <View style={styles.switchRow}>
+                  <Text style={[styles.switchLabel, { color: colors.text }]}>
+                    Let users choose another provider
+                  </Text>
+                  <Switch
+                    value={formData.aiAllowUserChoice}
+                    onValueChange={(value) => setFormData({ ...formData, aiAllowUserChoice: value })}
+                    trackColor={{ false: colors.border, true: colors.primary }}
+                  />
+                </View>
+
+                <Input
+                  label="Model"
+                  placeholder="Provider default"
+                  value={formData.aiModel}
+                  onChangeText={(text) => setFormData({ ...formData, aiModel: text })}
+                  leftIcon="hardware-chip-outline"
+                  autoCapitalize="none"
+                />
+
+                {formData.aiProvider === 'openai-compatible' && (
+                  <Input
+                    label="Server Address"
+                    placeholder="http://192.168.1.10:11434/v1"
+                    value={formData.aiLocalBaseUrl}
+                    onChangeText={(text) => setFormData({ ...formData, aiLocalBaseUrl: text })}
+                    error={formErrors.aiLocalBaseUrl}
+                    leftIcon="server-outline"
+                    autoCapitalize="none"
+                    keyboardType="url"
+                  />
+                )}
+              </>
+            )}
+
+            <Text style={[styles.formSectionTitle, { color: colors.text }]}>Booking Rules</Text>
+            <Text style={[styles.formSectionHint, { color: colors.textSecondary }]}>
+              Defaults for rooms without their own rules. Leave blank for no limit.
+            </Text>
+            <BookingPolicyFields
+              values={formData.bookingPolicy}
+              errors={policyErrors}
+              onChange={(bookingPolicy) => setFormData({ ...formData, bookingPolicy })}
+            />
+
             <Button
               title={editingCampus ? 'Update Campus' : 'Create Campus'}
               onPress={handleSubmit}
@@ -625,4 +743,42 @@ const styles = StyleSheet.create({
     flex: 1,
     padding: 20,
   },
+  formSectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  formSectionHint: {
+    fontSize: 13,
+    marginTop: -8,
+    marginBottom: 12,
+  },
+  providerChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  providerChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1.5,
+  },
+  providerChipText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    marginBottom: 16,
+  },
+  switchLabel: {
+    fontSize: 14,
+    flex: 1,
+  },
 });
@@ -1,5 +1,5 @@
 import api from './api';
-import type { ApiResponse, Booking, User, Room } from '../types';
+import type { ApiResponse, Booking, BookingPolicy, User, Room } from '../types';
 
 export interface AnalyticsData {
   totalBookings: number;
@@ -20,6 +20,8 @@ export interface CreateRoomData {
   building: string;
   amenities: string[];
   campusId: string;
+  requiresApproval?: boolean;
+  policy?: BookingPolicy | null;
 }
 
 export interface UpdateRoomData extends Partial<CreateRoomData> {
@@ -53,6 +55,28 @@ export const adminApi = {
     return response.data;
   },
 
+  // Booking approval endpoints, for rooms that require approval
+  getPendingBookings: async (): Promise<ApiResponse<Booking[]>> => {
+    const response = await api.get('/admin/bookings/pending');
+    return response.data;
+  },
+
+  approveBooking: async (bookingId: string): Promise<ApiResponse<Booking>> => {
+    const response = await api.post(`/admin/bookings/${bookingId}/approve`);
+    return response.data;
+  },
+
+  rejectBooking: async (bookingId: string, reason: string): Promise<ApiResponse<Booking>> => {
+    const response = await api.post(`/admin/bookings/${bookingId}/reject`, { reason });
+    return response.data;
+  },
+
+  // Bookings released because nobody checked in, newest first
+  getNoShows: async (params?: { from?: string; to?: string }): Promise<ApiResponse<Booking[]>> => {
+    const response = await api.get('/admin/bookings/no-shows', { params });
+    return response.data;
+  },
+
   // Room management endpoints
   getAllRooms: async (): Promise<ApiResponse<Room[]>> => {
     const response = await api.get('/rooms');
@@ -68,4 +92,13 @@ export const adminApi = {
     const response = await api.patch(`/admin/rooms/${roomId}`, data);
     return response.data;
   },
+
+  // Printable sheet with a QR code for the given link; raw bytes like the booking PDF
+  downloadRoomQrPdf: async (roomId: string, link: string): Promise<ArrayBuffer> => {
+    const response = await api.get(`/admin/rooms/${roomId}/qr`, {
+      params: { link },
+      responseType: 'arraybuffer',
+    });
+    return response.data;
+  },
 };
@@ -0,0 +1,332 @@
+import { addDays, format, isBefore, isValid, parse, parseISO } from 'date-fns';
+import { z } from 'zod';
+import { bookingsApi, type CreateBookingData } from './bookings';
+import { roomsApi } from './rooms';
+import { notificationService } from './notifications';
+import { checkBookingRules } from './bookingRules';
+import { findConflicts, findFreeGaps, rankRooms } from '../utils/availability';
+import { getUtcEndOfDay, getUtcStartOfDay } from '../utils/date';
+import { holdsRoom } from '../utils/bookingStatus';
+import { amenitySchema, localDateSchema, localTimeSchema } from '../utils/parsedBooking';
+import { config } from '../constants/config';
+import type { Booking } from '../types';
+
+export interface ToolUseBlock {
+  type: 'tool_use';
+  id: string;
+  name: string;
+  input: Record<string, any>;
+}
+
+export interface ToolResultBlock {
+  type: 'tool_result';
+  tool_use_id: string;
+  content: string;
+  is_error?: boolean;
+}
+
+/**
+ * A write the model asked for, held until the user confirms it
+ */
+export type PendingAction =
+  | { kind: 'create_booking'; toolUseId: string; booking: CreateBookingData; roomName: string }
+  | { kind: 'cancel_booking'; toolUseId: string; booking: Booking };
+
+// Dates and times are exchanged with the model in the device's local time
+const DATE_FORMAT = 'yyyy-MM-dd';
+const DATE_TIME_FORMAT = 'yyyy-MM-dd HH:mm';
+const MAX_ROOM_RESULTS = 10;
+
+const dateProperty = { type: 'string', description: 'Local date, YYYY-MM-DD' };
+const timeProperty = { type: 'string', description: 'Local time, 24-hour HH:MM' };
+
+export const AI_TOOLS = [
+  {
+    name: 'search_rooms',
+    description:
+      'Find rooms matching size and amenity needs. When date, startTime and endTime are given, only rooms free for that whole window are returned. Results are ordered best fit first.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        minCapacity: { type: 'integer', description: 'Number of people attending' },
+        amenities: { type: 'array', items: { type: 'string', enum: config.amenities } },
+        building: { type: 'string' },
+        floor: { type: 'string' },
+        date: dateProperty,
+        startTime: timeProperty,
+        endTime: timeProperty,
+      },
+    },
+  },
+  {
+    name: 'check_availability',
+    description: "List a room's existing bookings and free gaps for one day.",
+    input_schema: {
+      type: 'object',
+      properties: { roomId: { type: 'string' }, date: dateProperty },
+      required: ['roomId', 'date'],
+    },
+  },
+  {
+    name: 'create_booking',
+    description:
+      'Book a room. The user is shown a confirmation card and must approve before the booking is made. Use a room id returned by search_rooms.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        roomId: { type: 'string' },
+        title: { type: 'string', description: 'Short meeting title' },
+        date: dateProperty,
+        startTime: timeProperty,
+        endTime: timeProperty,
+        description: { type: 'string' },
+      },
+      required: ['roomId', 'title', 'date', 'startTime', 'endTime'],
+    },
+  },
+  {
+    name: 'list_my_bookings',
+    description: "List the user's bookings. Defaults to the next 14 days.",
+    input_schema: {
+      type: 'object',
+      properties: { startDate: dateProperty, endDate: dateProperty },
+    },
+  },
+  {
+    name: 'cancel_booking',
+    description:
+      'Cancel one of the user\'s bookings by id (from list_my_bookings). For a recurring series only that occurrence is cancelled. The user must confirm first.',
+    input_schema: {
+      type: 'object',
+      properties: { bookingId: { type: 'string' } },
+      required: ['bookingId'],
+    },
+  },
+];
+
+const WRITE_TOOLS = ['create_booking', 'cancel_booking'];
+
+export function isWriteTool(name: string): boolean {
+  return WRITE_TOOLS.includes(name);
+}
+
+const createBookingInputSchema = z.object({
+  roomId: z.string().min(1),
+  title: z.string().trim().min(1).max(200),
+  date: localDateSchema,
+  startTime: localTimeSchema,
+  endTime: localTimeSchema,
+  description: z.string().optional(),
+});
+
+class ToolInputError extends Error {}
+
+// Validation problems go back to the model as a readable error so it can correct itself
+function validateInput<T>(schema: z.ZodType<T>, input: unknown): T {
+  const parsed = schema.safeParse(input);
+  if (!parsed.success) {
+    throw new ToolInputError(
+      parsed.error.issues.map((issue) => `${issue.path.join('.') || 'input'} ${issue.message}`).join('; ')
+    );
+  }
+  return parsed.data;
+}
+
+function parseLocalDate(value: unknown, field: string): Date {
+  const date = parse(String(value), DATE_FORMAT, new Date());
+  if (!isValid(date)) throw new ToolInputError(`${field} must be YYYY-MM-DD`);
+  return date;
+}
+
+function parseLocalDateTime(date: unknown, time: unknown, field: string): Date {
+  const value = parse(`${date} ${time}`, DATE_TIME_FORMAT, new Date());
+  if (!isValid(value)) throw new ToolInputError(`${field} must be a YYYY-MM-DD date and HH:MM time`);
+  return value;
+}
+
+function formatLocal(iso: string): string {
+  return format(parseISO(iso), DATE_TIME_FORMAT);
+}
+
+function result(toolUseId: string, content: unknown): ToolResultBlock {
+  return { type: 'tool_result', tool_use_id: toolUseId, content: JSON.stringify(content) };
+}
+
+function errorResult(toolUseId: string, message: string): ToolResultBlock {
+  return { type: 'tool_result', tool_use_id: toolUseId, content: message, is_error: true };
+}
+
+function toolErrorMessage(error: any): string {
+  if (error instanceof ToolInputError) return error.message;
+  return error.response?.data?.message || error.message || 'Request failed';
+}
+
+async function searchRooms(input: Record<string, any>) {
+  const amenities = validateInput(z.array(amenitySchema).default([]), input.amenities);
+  const response = await roomsApi.getAll({
+    capacity: input.minCapacity,
+    building: input.building,
+    floor: input.floor,
+    isActive: true,
+    limit: 100,
+  });
+  let rooms = (response.data || []).filter((room) => amenities.every((a) => room.amenities.includes(a)));
+
+  if (input.date && input.startTime && input.endTime && rooms.length > 0) {
+    const start = parseLocalDateTime(input.date, input.startTime, 'startTime');
+    const end = parseLocalDateTime(input.date, input.endTime, 'endTime');
+    const availability = await roomsApi.getBulkAvailability(rooms.map((r) => r.id), format(start, DATE_FORMAT));
+    const busyByRoom = new Map((availability.data || []).map((a) => [a.roomId, a.bookings]));
+    rooms = rooms.filter((room) => findConflicts(busyByRoom.get(room.id) || [], start, end).length === 0);
+  }
+
+  return rankRooms(rooms, { headcount: input.minCapacity, amenities })
+    .slice(0, MAX_ROOM_RESULTS)
+    .map((room) => ({
+      id: room.id,
+      name: room.name,
+      capacity: room.capacity,
+      building: room.building,
+      floor: room.floor,
+      amenities: room.amenities,
+    }));
+}
+
+async function checkAvailability(input: Record<string, any>) {
+  const day = parseLocalDate(input.date, 'date');
+  const response = await roomsApi.getAvailability(String(input.roomId), format(day, DATE_FORMAT));
+  const busy = response.data?.bookings || [];
+  return {
+    booked: busy.map((b) => ({ title: b.title, start: formatLocal(b.startTime), end: formatLocal(b.endTime) })),
+    free: findFreeGaps(busy, day, { notBefore: new Date() }).map((gap) => ({
+      start: format(gap.start, DATE_TIME_FORMAT),
+      end: format(gap.end, DATE_TIME_FORMAT),
+    })),
+  };
+}
+
+async function listMyBookings(input: Record<string, any>) {
+  const start = input.startDate ? parseLocalDate(input.startDate, 'startDate') : new Date();
+  const end = input.endDate ? parseLocalDate(input.endDate, 'endDate') : addDays(start, 14);
+  const response = await bookingsApi.getMyBookings({
+    startDate: getUtcStartOfDay(start),
+    endDate: getUtcEndOfDay(end),
+  });
+  return (response.data || [])
+    .filter(holdsRoom)
+    .map((b) => ({
+      id: b.id,
+      title: b.title,
+      room: b.room.name,
+      start: formatLocal(b.startTime),
+      end: formatLocal(b.endTime),
+      status: b.status,
+      recurring: !!b.recurrenceRule,
+    }));
+}
+
+/**
+ * Run a read-only tool and return its result for the model
+ */
+export async function runReadTool(block: ToolUseBlock): Promise<ToolResultBlock> {
+  try {
+    switch (block.name) {
+      case 'search_rooms':
+        return result(block.id, await searchRooms(block.input));
+      case 'check_availability':
+        return result(block.id, await checkAvailability(block.input));
+      case 'list_my_bookings':
+        return result(block.id, await listMyBookings(block.input));
+      default:
+        return errorResult(block.id, `Unknown tool ${block.name}`);
+    }
+  } catch (error: any) {
+    return errorResult(block.id, toolErrorMessage(error));
+  }
+}
+
+/**
+ * Validate a write request and look up what the confirmation card needs.
+ * Requests that can't succeed go straight back to the model as errors.
+ */
+export async function prepareWriteTool(
+  block: ToolUseBlock
+): Promise<{ action: PendingAction } | { result: ToolResultBlock }> {
+  try {
+    if (block.name === 'cancel_booking') {
+      const response = await bookingsApi.getById(String(block.input.bookingId));
+      const booking = response.data;
+      if (!booking) throw new ToolInputError('Booking not found');
+      if (!holdsRoom(booking)) throw new ToolInputError(`That booking is already ${booking.status.toLowerCase()}`);
+      return { action: { kind: 'cancel_booking', toolUseId: block.id, booking } };
+    }
+
+    const { roomId, title, date, startTime, endTime, description } = validateInput(createBookingInputSchema, block.input);
+    const start = parseLocalDateTime(date, startTime, 'startTime');
+    const end = parseLocalDateTime(date, endTime, 'endTime');
+    if (!isBefore(start, end)) throw new ToolInputError('endTime must be after startTime');
+    if (isBefore(start, new Date())) throw new ToolInputError('That time has already passed');
+
+    const room = await roomsApi.getById(roomId);
+    if (!room.data) throw new ToolInputError('Room not found');
+    const { violations, conflicts } = await checkBookingRules(room.data, [start], end.getTime() - start.getTime());
+    if (violations.length > 0) {
+      throw new ToolInputError(`${room.data.name}: ${violations.join(' ')}`);
+    }
+    if (conflicts.length > 0) {
+      const { block } = conflicts[0];
+      throw new ToolInputError(
+        `${room.data.name} is already booked ${formatLocal(block.startTime)}-${format(parseISO(block.endTime), 'HH:mm')}, including setup and teardown time`
+      );
+    }
+
+    return {
+      action: {
+        kind: 'create_booking',
+        toolUseId: block.id,
+        roomName: room.data.name,
+        booking: {
+          roomId: room.data.id,
+          title,
+          description: description || undefined,
+          startTime: start.toISOString(),
+          endTime: end.toISOString(),
+        },
+      },
+    };
+  } catch (error: any) {
+    return { result: errorResult(block.id, toolErrorMessage(error)) };
+  }
+}
+
+/**
+ * Carry out a write the user approved
+ */
+export async function runWriteTool(action: PendingAction): Promise<ToolResultBlock> {
+  try {
+    if (action.kind === 'cancel_booking') {
+      await bookingsApi.cancel(action.booking.id);
+      await notificationService.cancelBookingReminders(action.booking.id);
+      return result(action.toolUseId, { cancelled: action.booking.id });
+    }
+
+    const response = await bookingsApi.create(action.booking);
+    if (response.data?.id) {
+      await notificationService.scheduleBookingReminder(
+        response.data.id,
+        action.booking.title,
+        action.roomName,
+        parseISO(action.booking.startTime),
+        15
+      );
+      await notificationService.scheduleReleaseWarning(response.data);
+    }
+    return result(action.toolUseId, { bookingId: response.data?.id, status: response.data?.status });
+  } catch (error: any) {
+    return errorResult(action.toolUseId, toolErrorMessage(error));
+  }
+}
+
+export function declinedResult(toolUseId: string): ToolResultBlock {
+  return errorResult(toolUseId, 'The user declined this action.');
+}
@@ -0,0 +1,76 @@
+import { addMilliseconds, addMinutes, eachDayOfInterval } from 'date-fns';
+import { campusesApi, MY_CAMPUS_QUERY_KEY } from './campuses';
+import { queryClient } from './queryClient';
+import { roomsApi } from './rooms';
+import { useAuthStore } from '../store/auth';
+import { bufferedConflicts, effectivePolicy, seriesViolations } from '../utils/bookingPolicy';
+import { formatDateForQuery } from '../utils/date';
+import type { BusyBlock } from '../utils/availability';
+import type { BookingPolicy, Room } from '../types';
+
+// Bounds the availability requests made for long series
+const MAX_CHECKED_OCCURRENCES = 20;
+
+export interface BookingRulesCheck {
+  policy: BookingPolicy;
+  /** One line per broken rule, naming the dates for a series */
+  violations: string[];
+  /** The first clash for each occurrence that has one, setup and teardown included */
+  conflicts: { start: Date; block: BusyBlock }[];
+}
+
+/**
+ * The booking rules for a room, falling back to its campus defaults. Shares
+ * the campus cache with useRoomPolicy.
+ */
+export async function fetchRoomPolicy(room: Room): Promise<BookingPolicy> {
+  if (room.policy) return room.policy;
+  const campus =
+    room.campusId === useAuthStore.getState().user?.campusId
+      ? await queryClient.fetchQuery({ queryKey: MY_CAMPUS_QUERY_KEY, queryFn: campusesApi.getMy })
+      : await queryClient.fetchQuery({
+          queryKey: ['campuses', room.campusId],
+          queryFn: () => campusesApi.getById(room.campusId),
+        });
+  return effectivePolicy(room, campus);
+}
+
+/**
+ * A room's bookings on every day from start to end, fresh from the server
+ */
+export async function fetchBusy(roomId: string, start: Date, end: Date): Promise<BusyBlock[]> {
+  const days = eachDayOfInterval({ start, end: end > start ? addMilliseconds(end, -1) : start });
+  const responses = await Promise.all(days.map((day) => roomsApi.getAvailability(roomId, formatDateForQuery(day))));
+  const byId = new Map<string, BusyBlock>();
+  for (const response of responses) {
+    for (const block of response.data?.bookings || []) byId.set(block.id, block);
+  }
+  return [...byId.values()];
+}
+
+/**
+ * Check a new booking, or every occurrence of a series, against the room's
+ * rules and schedule before it's sent. Every create path goes through here so
+ * the policy and its buffers apply however a booking is made.
+ */
+export async function checkBookingRules(
+  room: Room,
+  occurrences: Date[],
+  durationMs: number,
+  options: { now?: Date; openEnded?: boolean; excludeBookingId?: string } = {}
+): Promise<BookingRulesCheck> {
+  const { now = new Date(), openEnded = false, excludeBookingId } = options;
+  const policy = await fetchRoomPolicy(room);
+  const violations = seriesViolations(policy, occurrences, durationMs, now, openEnded);
+
+  const padding = policy.bufferBeforeMinutes + policy.bufferAfterMinutes;
+  const conflicts: BookingRulesCheck['conflicts'] = [];
+  for (const start of occurrences.slice(0, MAX_CHECKED_OCCURRENCES)) {
+    const end = addMilliseconds(start, durationMs);
+    const busy = await fetchBusy(room.id, addMinutes(start, -padding), addMinutes(end, padding));
+    const [block] = bufferedConflicts(busy, policy, start, end, excludeBookingId);
+    if (block) conflicts.push({ start, block });
+  }
+
+  return { policy, violations, conflicts };
+}
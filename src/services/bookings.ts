@@ -1,16 +1,21 @@
 import api from './api';
-import type { ApiResponse, Booking, Pagination } from '../types';
+import type { ApiResponse, Booking, BookingStatus, Pagination } from '../types';
 
 export interface BookingFilters {
   roomId?: string;
   userId?: string;
   startDate?: string;
   endDate?: string;
-  status?: 'CONFIRMED' | 'CANCELLED' | 'PENDING';
+  status?: BookingStatus;
   page?: number;
   limit?: number;
 }
 
+export interface AttendeeInput {
+  email: string;
+  name?: string;
+}
+
 export interface CreateBookingData {
   roomId: string;
   title: string;
@@ -18,7 +23,7 @@ export interface CreateBookingData {
   startTime: string;
   endTime: string;
   recurrenceRule?: string;
-  attendees?: { email: string; name?: string }[];
+  attendees?: AttendeeInput[];
 }
 
 export interface UpdateBookingData {
@@ -26,9 +31,14 @@ export interface UpdateBookingData {
   description?: string | null;
   startTime?: string;
   endTime?: string;
-  attendees?: { email: string; name?: string }[];
+  attendees?: AttendeeInput[];
 }
 
+/**
+ * Which part of a recurring series an edit or cancellation applies to
+ */
+export type SeriesScope = 'this' | 'following' | 'all';
+
 export const bookingsApi = {
   getAll: async (
     filters: BookingFilters = {}
@@ -67,9 +77,32 @@ export const bookingsApi = {
     return response.data;
   },
 
-  downloadPdf: async (id: string): Promise<Blob> => {
+  // Recurring series endpoints - respond with every occurrence that changed
+  updateSeries: async (
+    id: string,
+    data: UpdateBookingData,
+    scope: SeriesScope
+  ): Promise<ApiResponse<Booking[]>> => {
+    const response = await api.patch(`/bookings/${id}/series`, data, {
+      params: { scope },
+    });
+    return response.data;
+  },
+
+  cancelSeries: async (
+    id: string,
+    scope: SeriesScope
+  ): Promise<ApiResponse<Booking[]>> => {
+    const response = await api.delete(`/bookings/${id}/series`, {
+      params: { scope },
+    });
+    return response.data;
+  },
+
+  // React Native can't write Blobs to disk, so fetch the raw bytes
+  downloadPdf: async (id: string): Promise<ArrayBuffer> => {
     const response = await api.get(`/bookings/${id}/pdf`, {
-      responseType: 'blob',
+      responseType: 'arraybuffer',
     });
     return response.data;
   },
@@ -1,6 +1,9 @@
 import api from './api';
 import type { ApiResponse, Campus, CampusStats } from '../types';
 
+// The signed-in user's campus, cached once for the AI settings, booking rules and useMyCampus
+export const MY_CAMPUS_QUERY_KEY = ['campuses', 'my'];
+
 export const campusesApi = {
   getActive: async (): Promise<Campus[]> => {
     const response = await api.get<ApiResponse<Campus[]>>('/campuses/active');
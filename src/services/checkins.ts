@@ -1,9 +1,11 @@
 import api from './api';
-import type { ApiResponse } from '../types';
+import type { ApiResponse, Booking } from '../types';
 
 export interface CheckIn {
   id: string;
   checkedInAt: string;
+  /** Set when they ended the meeting early */
+  checkedOutAt?: string | null;
   user: {
     id: string;
     firstName: string;
@@ -31,12 +33,32 @@ export interface MyCheckIn {
   };
 }
 
+export interface CheckOutResult {
+  /** The booking, now ending at the check-out time */
+  booking: Booking;
+  checkedOutAt: string;
+  /** Waitlist entries told the room is free for the rest of the slot */
+  waitlistNotified: number;
+}
+
 export const checkInsApi = {
   checkIn: async (bookingId: string): Promise<ApiResponse<CheckIn>> => {
     const response = await api.post('/checkins', { bookingId });
     return response.data;
   },
 
+  // Ends the meeting now, freeing the rest of the booking
+  checkOut: async (bookingId: string): Promise<ApiResponse<CheckOutResult>> => {
+    const response = await api.post('/checkins/checkout', { bookingId });
+    return response.data;
+  },
+
+  // Organizers can check in an invitee who is in the room but didn't check in themselves
+  checkInAttendee: async (bookingId: string, email: string): Promise<ApiResponse<CheckIn>> => {
+    const response = await api.post('/checkins/attendee', { bookingId, email });
+    return response.data;
+  },
+
   getCheckInStatus: async (bookingId: string): Promise<ApiResponse<CheckInStatus>> => {
     const response = await api.get(`/checkins/booking/${bookingId}`);
     return response.data;
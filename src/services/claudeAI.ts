@@ -1,185 +1,392 @@
-import axios from 'axios';
-import { config } from '../constants/config';
+import {
+  AI_TOOLS,
+  declinedResult,
+  isWriteTool,
+  prepareWriteTool,
+  runReadTool,
+  runWriteTool,
+  type PendingAction,
+  type ToolResultBlock,
+  type ToolUseBlock,
+} from './aiTools';
+import { onlineManager } from '@tanstack/react-query';
+import {
+  getActiveProvider,
+  STOPPED,
+  type ChatMessage,
+  type ContentBlock,
+  type LLMProvider,
+  type TextBlock,
+} from './llmProviders';
+import { answerLocally, answerWithoutModel, describeOutcome, type LocalReply } from './localAssistant';
+import { parseBookingReply, streamingPreview, type ParsedBooking } from '../utils/parsedBooking';
+import { isCompleteBookingRequest, parseBookingPhraseDetailed } from '../utils/bookingPhraseParser';
+import { useAuthStore } from '../store/auth';
+import { useAIConversationStore } from '../store/aiConversations';
 
-// Claude API configuration
-const CLAUDE_API_URL = 'https://api.anthropic.com/v1/messages';
-const CLAUDE_MODEL = 'claude-sonnet-4-20250929';
+export type { ChatMessage, ParsedBooking };
 
-// System prompt that teaches Claude how to handle bookings
-const BOOKING_SYSTEM_PROMPT = `You are a helpful boardroom booking assistant for a company. Your job is to help users book meeting rooms.
+// Upper bound on model calls for one user message, in case the model keeps calling tools
+const MAX_TOOL_STEPS = 6;
 
-When a user wants to book a room, you MUST extract and return the following information in JSON format:
-- action: "book" | "check_availability" | "cancel" | "list" | "help"
-- date: The booking date in YYYY-MM-DD format (e.g., "2024-02-20")
-- startTime: The start time in HH:MM format (e.g., "14:00")
-- endTime: The end time in HH:MM format (e.g., "15:00")
-- duration: Duration in minutes (e.g., 60)
-- numberOfPeople: Number of people attending (e.g., 5)
-- floor: Preferred floor (e.g., "3rd floor", "floor 3")
-- amenities: Array of required amenities (e.g., ["projector", "whiteboard"])
-- roomName: Specific room name if mentioned
+// System prompt that teaches the model how to handle bookings
+const BOOKING_SYSTEM_PROMPT = `You are a helpful boardroom booking assistant for a company. Your job is to help users find, book and manage meeting rooms using the tools provided.
 
-Available amenities: projector, whiteboard, video-conferencing, audio-system, tv-screen, air-conditioning, wifi, phone, printer, coffee-machine, water-dispenser, natural-light, accessibility, standing-desk, recording-equipment
+- To book, find a suitable free room with search_rooms, then call create_booking. The app asks the user to confirm, so don't ask "shall I book it?" yourself.
+- If the user doesn't give a duration, assume 1 hour. If they don't give a title, use "Meeting".
+- If something essential is missing (like the day or time), ask a short clarifying question instead of guessing.
+- If no room fits, say so and suggest the closest alternatives.
+- Resolve relative dates like "tomorrow" or "Friday" against the current date given below.
+- The room list below is for reference; always confirm a room is free with search_rooms or check_availability before booking it.
+- Use the user's local time in all tool calls and replies. Keep replies short and friendly.`;
 
-IMPORTANT:
-1. If the user asks to book a room, extract ALL the booking details and respond with the JSON
-2. If any required info is missing, ask the user for clarification
-3. If the user wants to check availability, list bookings, or cancel, respond with appropriate action
-4. Always be friendly and helpful
+// System prompt for the Dashboard briefing, a one-off request outside the chat
+const BRIEFING_SYSTEM_PROMPT = `You write a short daily briefing for someone's meeting schedule, shown on their home screen.
 
-Respond ONLY with valid JSON, no other text. Example responses:
+- Use two or three plain sentences, no lists or headings.
+- Lead with what needs attention now, then the shape of the rest of the day.
+- Only use the facts given; don't invent meetings, rooms or advice about the agenda.`;
 
-User: "Book a room for 5 people tomorrow at 2pm for 1 hour"
-Response: {"action":"book","date":"2024-02-20","startTime":"14:00","endTime":"15:00","duration":60,"numberOfPeople":5,"amenities":[]}
+export interface AIResponse {
+  success: boolean;
+  message: string;
+  /** Booking request the model described as JSON instead of calling a tool */
+  parsedData?: ParsedBooking;
+  /** A booking change waiting for the user to confirm or decline */
+  pendingAction?: PendingAction;
+  /** True when a booking was created or cancelled while answering */
+  bookingsChanged?: boolean;
+  /** The user stopped generation; message holds whatever had arrived */
+  stopped?: boolean;
+}
+
+export interface StreamOptions {
+  /** Called with the reply text so far as it streams in */
+  onText?: (text: string) => void;
+  /** Aborting stops generation and keeps the partial reply */
+  signal?: AbortSignal;
+}
+
+// A model turn whose tool calls are paused on a confirmation
+interface PendingTurn {
+  blocks: ToolUseBlock[];
+  results: ToolResultBlock[];
+  action: PendingAction;
+  /** Proposed by the phrase parser; the outcome is reported without a model call */
+  local?: boolean;
+}
 
-User: "I need a room with projector for 10 people on Friday"
-Response: {"action":"book","date":"2024-02-23","numberOfPeople":10,"amenities":["projector"],"duration":60,"startTime":"09:00","endTime":"10:00"}
+// Store conversation history
+let conversationHistory: ChatMessage[] = [];
+let pendingTurn: PendingTurn | null = null;
+let bookingsChanged = false;
+// Bumped whenever the history is replaced, so a reply still in flight can tell it belongs to an old conversation
+let historySession = 0;
 
-User: "What's available tomorrow afternoon?"
-Response: {"action":"check_availability","date":"2024-02-20","timeOfDay":"afternoon"}`;
+// Conversations never outlive the session: drop the live one and everything saved
+useAuthStore.subscribe((state, prev) => {
+  if (prev.isAuthenticated && !state.isAuthenticated) {
+    conversationHistory = [];
+    pendingTurn = null;
+    historySession++;
+    useAIConversationStore.getState().clear();
+  }
+});
 
-export interface ChatMessage {
-  role: 'user' | 'assistant';
-  content: string;
+// Falls back to just the date when the caller has no context to offer
+function buildSystemPrompt(context?: string): string {
+  const date = context || `Current date and time: ${new Date().toString()}`;
+  return `${BOOKING_SYSTEM_PROMPT}\n\n${date}`;
 }
 
-export interface ParsedBooking {
-  action: 'book' | 'check_availability' | 'cancel' | 'list' | 'help';
-  date?: string;
-  startTime?: string;
-  endTime?: string;
-  duration?: number;
-  numberOfPeople?: number;
-  floor?: string;
-  amenities?: string[];
-  roomName?: string;
-  timeOfDay?: string;
+// The last few exchanges, starting at a user message so tool calls stay paired with their results
+function recentHistory(): ChatMessage[] {
+  let start = Math.max(0, conversationHistory.length - 20);
+  while (start > 0 && typeof conversationHistory[start].content !== 'string') start--;
+  return conversationHistory.slice(start);
 }
 
-export interface AIResponse {
-  success: boolean;
-  message: string;
-  parsedData?: ParsedBooking;
-  bookingDetails?: {
-    roomName: string;
-    date: string;
-    startTime: string;
-    endTime: string;
-    numberOfPeople: number;
-  };
+function textOf(content: ContentBlock[]): string {
+  return content
+    .filter((block): block is TextBlock => block.type === 'text')
+    .map(block => block.text)
+    .join('\n')
+    .trim();
 }
 
-// Store conversation history
-let conversationHistory: ChatMessage[] = [];
+// A reply to the assistant's question depends on earlier turns the phrase parser can't see
+function isAnswerToQuestion(): boolean {
+  const last = conversationHistory[conversationHistory.length - 1];
+  if (last?.role !== 'assistant') return false;
+  const text = typeof last.content === 'string' ? last.content : textOf(last.content);
+  return text.trim().endsWith('?');
+}
 
-export const claudeAIService = {
-  /**
-   * Send a message to Claude AI and get a response
-   */
-  async sendMessage(
-    message: string,
-    apiKey: string,
-    bookingContext?: {
-      availableRooms?: any[];
-      existingBookings?: any[];
-    }
-  ): Promise<AIResponse> {
-    try {
-      // Add user message to history
-      conversationHistory.push({ role: 'user', content: message });
-
-      // Build context from booking data if available
-      let contextInfo = '';
-      if (bookingContext?.availableRooms) {
-        contextInfo = `\n\nAvailable rooms: ${JSON.stringify(
-          bookingContext.availableRooms.map(r => ({ name: r.name, capacity: r.capacity, floor: r.floor }))
-        )}`;
-      }
-      if (bookingContext?.existingBookings) {
-        contextInfo += `\n\nExisting bookings: ${JSON.stringify(
-          bookingContext.existingBookings.map(b => ({ room: b.roomName, date: b.date, startTime: b.startTime, endTime: b.endTime }))
-        )}`;
+// Add the user's message, answering any confirmation they skipped past with a decline
+function startUserTurn(message: string) {
+  const content: ContentBlock[] = [];
+  if (pendingTurn) {
+    const { blocks, results } = pendingTurn;
+    content.push(...results, ...blocks.slice(results.length).map(block => declinedResult(block.id)));
+    pendingTurn = null;
+  }
+  content.push({ type: 'text', text: message });
+  conversationHistory.push({ role: 'user', content: content.length === 1 ? message : content });
+}
+
+/**
+ * Answer on the device and record the exchange like a model turn, so the
+ * model sees it if the conversation carries on
+ */
+async function replyLocally(message: string, answer: () => Promise<LocalReply>): Promise<AIResponse> {
+  startUserTurn(message);
+  const session = historySession;
+  const reply = await answer();
+  if (session !== historySession) {
+    return { success: true, message: '', stopped: true, bookingsChanged };
+  }
+
+  if (reply.toolUse && reply.action) {
+    conversationHistory.push({ role: 'assistant', content: [{ type: 'text', text: reply.text }, reply.toolUse] });
+    pendingTurn = { blocks: [reply.toolUse], results: [], action: reply.action, local: true };
+  } else {
+    conversationHistory.push({ role: 'assistant', content: reply.text });
+  }
+  return { success: true, message: reply.text, pendingAction: reply.action, bookingsChanged };
+}
+
+// Setup problems are thrown before anything is added to the history
+async function readyProvider(): Promise<LLMProvider> {
+  const provider = await getActiveProvider();
+  const setupIssue = await provider.checkSetup();
+  if (setupIssue) throw new Error(setupIssue);
+  return provider;
+}
+
+function complete(provider: LLMProvider, system: string, { onText, signal }: StreamOptions) {
+  return provider.complete({
+    system,
+    messages: recentHistory(),
+    tools: AI_TOOLS,
+    maxTokens: 1024,
+    onText: onText && (text => onText(streamingPreview(text.trim()))),
+    signal,
+  });
+}
+
+/**
+ * Run the tool calls of one model turn, starting after those already answered.
+ * Stops at the first write so the user can confirm it.
+ */
+async function runTools(blocks: ToolUseBlock[], results: ToolResultBlock[]): Promise<PendingAction | null> {
+  const session = historySession;
+  for (let i = results.length; i < blocks.length; i++) {
+    const block = blocks[i];
+    if (isWriteTool(block.name)) {
+      const prepared = await prepareWriteTool(block);
+      if (session !== historySession) return null;
+      if ('action' in prepared) {
+        pendingTurn = { blocks, results, action: prepared.action };
+        return prepared.action;
       }
+      results.push(prepared.result);
+    } else {
+      results.push(await runReadTool(block));
+    }
+  }
+  if (session === historySession) conversationHistory.push({ role: 'user', content: results });
+  return null;
+}
+
+async function runConversation(provider: LLMProvider, system: string, options: StreamOptions): Promise<AIResponse> {
+  let repairAttempted = false;
+  const session = historySession;
+
+  for (let step = 0; step < MAX_TOOL_STEPS; step++) {
+    if (options.signal?.aborted) {
+      return { success: true, message: '', stopped: true, bookingsChanged };
+    }
+
+    const reply = await complete(provider, system, options);
+    if (session !== historySession) {
+      return { success: true, message: '', stopped: true, bookingsChanged };
+    }
+    if (reply.stop_reason === STOPPED) {
+      if (reply.content.length > 0) conversationHistory.push({ role: 'assistant', content: reply.content });
+      return { success: true, message: streamingPreview(textOf(reply.content)), stopped: true, bookingsChanged };
+    }
+    conversationHistory.push({ role: 'assistant', content: reply.content });
 
-      // Add context to the message if we have booking data
-      const enhancedMessage = contextInfo
-        ? `${message}\n\nContext: ${contextInfo}`
-        : message;
-
-      const response = await axios.post(
-        CLAUDE_API_URL,
-        {
-          model: CLAUDE_MODEL,
-          max_tokens: 1024,
-          system: BOOKING_SYSTEM_PROMPT,
-          messages: [
-            ...conversationHistory.slice(-10), // Last 10 messages for context
-            { role: 'user', content: enhancedMessage }
-          ]
-        },
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            'x-api-key': apiKey,
-            'anthropic-version': '2023-06-01'
-          }
-        }
-      );
-
-      const aiResponse = response.data.content[0].text;
-
-      // Add assistant response to history
-      conversationHistory.push({ role: 'assistant', content: aiResponse });
-
-      // Try to parse JSON from response
-      try {
-        const parsedData = JSON.parse(aiResponse) as ParsedBooking;
+    const toolUses = reply.content.filter((block): block is ToolUseBlock => block.type === 'tool_use');
+    if (reply.stop_reason !== 'tool_use' || toolUses.length === 0) {
+      const text = textOf(reply.content);
+      const parsed = parseBookingReply(text);
 
+      if (parsed.status === 'none') {
+        return { success: true, message: text, bookingsChanged };
+      }
+      if (parsed.status === 'valid') {
         return {
           success: true,
-          message: aiResponse,
-          parsedData
+          message: parsed.prose,
+          parsedData: parsed.data,
+          bookingsChanged,
         };
-      } catch {
-        // If not valid JSON, return as a message
+      }
+      if (repairAttempted) {
         return {
           success: true,
-          message: aiResponse
+          message: parsed.prose || "Sorry, I didn't quite get that. Could you rephrase your request?",
+          bookingsChanged,
         };
       }
-    } catch (error: any) {
-      console.error('Claude API Error:', error.response?.data || error.message);
 
+      // Give the model one chance to fix malformed booking JSON
+      repairAttempted = true;
+      conversationHistory.push({
+        role: 'user',
+        content: `Your last reply contained booking JSON that failed validation: ${parsed.issues}. Use the tools to act on the request, or reply again with corrected JSON only.`,
+      });
+      continue;
+    }
+
+    const pendingAction = await runTools(toolUses, []);
+    if (pendingAction) {
       return {
-        success: false,
-        message: error.response?.data?.error?.message || 'Failed to get response from AI. Please try again.'
+        success: true,
+        message: textOf(reply.content) || 'Please confirm:',
+        pendingAction,
+        bookingsChanged,
       };
     }
-  },
+  }
+  return {
+    success: false,
+    message: "Sorry, I couldn't finish that request. Could you rephrase it?",
+    bookingsChanged,
+  };
+}
+
+/**
+ * Run a step of the conversation, rolling history back if the request fails
+ * so a half-finished tool exchange is never sent to the API again
+ */
+async function withRollback(step: () => Promise<AIResponse>): Promise<AIResponse> {
+  const historyLength = conversationHistory.length;
+  const turn = pendingTurn;
+  const session = historySession;
+  try {
+    return await step();
+  } catch (error: any) {
+    console.error('AI provider error:', error.response?.data || error.message);
+    if (session === historySession) {
+      conversationHistory = conversationHistory.slice(0, historyLength);
+      pendingTurn = turn;
+    }
+
+    return {
+      success: false,
+      message:
+        error.response?.data?.error?.message ||
+        error.response?.data?.message ||
+        'Failed to get response from AI. Please try again.',
+      bookingsChanged,
+    };
+  }
+}
 
+export const claudeAIService = {
   /**
-   * Process a booking request through AI
+   * Send a message to the assistant and get a response. A pending confirmation
+   * that the user ignored is treated as declined.
+   *
+   * Requests the phrase parser fully understands are answered without the model,
+   * and it stands in for the model when none is set up or the device is offline.
    */
-  async processBooking(
+  async sendMessage(
     message: string,
-    apiKey: string,
-    bookingContext?: {
-      availableRooms?: any[];
-      existingBookings?: any[];
+    context?: string,
+    options: StreamOptions = {}
+  ): Promise<AIResponse> {
+    bookingsChanged = false;
+    const phrase = parseBookingPhraseDetailed(message, new Date());
+    const provider = await getActiveProvider();
+    const unavailable =
+      (await provider.checkSetup()) ?? (onlineManager.isOnline() ? null : "You're offline.");
+
+    if (unavailable) {
+      if (!phrase) throw new Error(unavailable);
+      return withRollback(() => replyLocally(message, () => answerWithoutModel(phrase.booking, unavailable)));
+    }
+    if (phrase && isCompleteBookingRequest(phrase) && !isAnswerToQuestion()) {
+      return withRollback(() => replyLocally(message, () => answerLocally(phrase.booking)));
     }
+
+    const system = buildSystemPrompt(context);
+    return withRollback(async () => {
+      startUserTurn(message);
+      return runConversation(provider, system, options);
+    });
+  },
+
+  /**
+   * Carry out or decline the action waiting for confirmation, then let the model continue
+   */
+  async resolvePendingAction(
+    approved: boolean,
+    context?: string,
+    options: StreamOptions = {}
   ): Promise<AIResponse> {
-    const response = await this.sendMessage(message, apiKey, bookingContext);
+    if (!pendingTurn) {
+      return { success: false, message: 'That request has expired. Please ask again.' };
+    }
+    const { blocks, results, action, local } = pendingTurn;
+    const provider = local ? null : await readyProvider();
+    pendingTurn = null;
+    bookingsChanged = false;
+    const session = historySession;
 
-    if (response.parsedData?.action === 'book' && response.parsedData.date) {
-      // Return booking details to be processed by the app
-      return {
-        success: true,
-        message: 'Booking details parsed. Ready to book.',
-        parsedData: response.parsedData
-      };
+    // Done outside the rollback: once a booking is made it must not be offered for confirmation again
+    const outcome = approved ? await runWriteTool(action) : declinedResult(action.toolUseId);
+    if (approved && !outcome.is_error) bookingsChanged = true;
+    if (session !== historySession) {
+      return { success: true, message: '', stopped: true, bookingsChanged };
     }
 
-    return response;
+    const nextAction = await runTools(blocks, [...results, outcome]);
+    if (nextAction) {
+      return { success: true, message: 'Please confirm:', pendingAction: nextAction, bookingsChanged };
+    }
+    if (!provider) {
+      const text = describeOutcome(action, approved, outcome);
+      conversationHistory.push({ role: 'assistant', content: text });
+      return { success: true, message: text, bookingsChanged };
+    }
+    return withRollback(() => runConversation(provider, buildSystemPrompt(context), options));
+  },
+
+  /**
+   * Summarise the day's schedule for the Dashboard, without touching the chat.
+   * Returns null when no model is available or it fails, so the caller can
+   * fall back to its own summary.
+   */
+  async summarizeDay(facts: string, signal?: AbortSignal): Promise<string | null> {
+    try {
+      const provider = await getActiveProvider();
+      if (!onlineManager.isOnline() || (await provider.checkSetup())) return null;
+      const reply = await provider.complete({
+        system: BRIEFING_SYSTEM_PROMPT,
+        messages: [{ role: 'user', content: facts }],
+        tools: [],
+        maxTokens: 300,
+        signal,
+      });
+      if (reply.stop_reason === STOPPED) return null;
+      return textOf(reply.content) || null;
+    } catch (error) {
+      console.error('Error summarizing the day:', error);
+      return null;
+    }
   },
 
   /**
@@ -187,6 +394,8 @@ export const claudeAIService = {
    */
   clearHistory() {
     conversationHistory = [];
+    pendingTurn = null;
+    historySession++;
   },
 
   /**
@@ -194,5 +403,22 @@ export const claudeAIService = {
    */
   getHistory(): ChatMessage[] {
     return conversationHistory;
+  },
+
+  /**
+   * Continue a saved conversation. Tool calls left waiting for confirmation are declined.
+   */
+  loadHistory(history: ChatMessage[]) {
+    conversationHistory = [...history];
+    pendingTurn = null;
+    historySession++;
+
+    const last = history[history.length - 1];
+    if (last?.role === 'assistant' && typeof last.content !== 'string') {
+      const unanswered = last.content.filter((block): block is ToolUseBlock => block.type === 'tool_use');
+      if (unanswered.length > 0) {
+        conversationHistory.push({ role: 'user', content: unanswered.map(block => declinedResult(block.id)) });
+      }
+    }
   }
 };
@@ -0,0 +1,36 @@
+import api from './api';
+import type { ApiResponse, User } from '../types';
+
+export type DirectoryUser = Pick<User, 'id' | 'email' | 'firstName' | 'lastName' | 'department'>;
+
+export interface AttendeeFreeBusy {
+  email: string;
+  busy: {
+    bookingId: string;
+    title: string;
+    startTime: string;
+    endTime: string;
+  }[];
+}
+
+export const directoryApi = {
+  // Active users on the current campus, matched by name or email
+  search: async (query: string, limit = 10): Promise<ApiResponse<DirectoryUser[]>> => {
+    const response = await api.get('/users/directory', {
+      params: { q: query, limit },
+    });
+    return response.data;
+  },
+
+  // External emails the server doesn't know are omitted from the response
+  getFreeBusy: async (
+    emails: string[],
+    startTime: string,
+    endTime: string
+  ): Promise<ApiResponse<AttendeeFreeBusy[]>> => {
+    const response = await api.get('/users/free-busy', {
+      params: { emails: emails.join(','), startTime, endTime },
+    });
+    return response.data;
+  },
+};
@@ -0,0 +1,382 @@
+import * as SecureStore from 'expo-secure-store';
+import { getSelectedCampusId } from './api';
+import { authApi } from './auth';
+import { campusesApi, MY_CAMPUS_QUERY_KEY } from './campuses';
+import { queryClient } from './queryClient';
+import { isAbortError, SseRequestError, streamSse, type SseEvent } from './sse';
+import type { ToolResultBlock, ToolUseBlock } from './aiTools';
+import { config } from '../constants/config';
+import { useAuthStore } from '../store/auth';
+import { useAISettingsStore } from '../store/aiSettings';
+import type { AIProviderId, Campus } from '../types';
+
+// Conversations are kept in Anthropic's message format; other providers translate at the edge
+export type TextBlock = { type: 'text'; text: string };
+export type ContentBlock = TextBlock | ToolUseBlock | ToolResultBlock;
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string | ContentBlock[];
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  input_schema: Record<string, unknown>;
+}
+
+export interface CompletionRequest {
+  system: string;
+  messages: ChatMessage[];
+  tools: ToolDefinition[];
+  maxTokens: number;
+  /** Called with the reply text so far as it streams in */
+  onText?: (text: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface CompletionReply {
+  content: ContentBlock[];
+  /** Anthropic stop reasons ('end_turn', 'tool_use', ...) or STOPPED */
+  stop_reason: string;
+}
+
+export interface LLMProvider {
+  id: AIProviderId;
+  /** What the user still has to set up, or null when the provider is ready */
+  checkSetup(): Promise<string | null>;
+  complete(request: CompletionRequest): Promise<CompletionReply>;
+}
+
+// stop_reason for a response the user cut short
+export const STOPPED = 'stopped';
+
+export const AI_PROVIDER_LABELS: Record<AIProviderId, string> = {
+  anthropic: 'Anthropic (your API key)',
+  proxy: 'Company server',
+  'openai-compatible': 'Local model (OpenAI-compatible)',
+};
+
+export const ANTHROPIC_API_KEY = 'claude_api_key';
+export const LOCAL_LLM_API_KEY = 'local_llm_api_key';
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+const DEFAULT_CLAUDE_MODEL = 'claude-sonnet-4-20250929';
+const PROXY_URL = `${config.apiUrl}/ai/messages`;
+
+function textOf(content: ContentBlock[]): string {
+  return content
+    .filter((block): block is TextBlock => block?.type === 'text')
+    .map(block => block.text)
+    .join('\n');
+}
+
+// On abort keep what was said; tool calls are dropped since they won't run
+function stoppedReply(content: ContentBlock[]): CompletionReply {
+  return {
+    content: content.filter((block): block is TextBlock => block?.type === 'text' && !!block.text),
+    stop_reason: STOPPED,
+  };
+}
+
+/**
+ * Stream a Messages API request and assemble the reply. Shared by the direct
+ * and proxy providers, since the proxy speaks the same protocol.
+ */
+async function streamAnthropic(url: string, headers: Record<string, string>, body: object, request: CompletionRequest) {
+  const content: ContentBlock[] = [];
+  // Tool input arrives as JSON fragments; it's only parsed once the block is complete
+  const partialInputs = new Map<number, string>();
+  let stopReason = 'end_turn';
+
+  const onEvent = ({ data }: SseEvent) => {
+    const event = JSON.parse(data);
+    switch (event.type) {
+      case 'content_block_start':
+        content[event.index] = event.content_block;
+        if (event.content_block.type === 'tool_use') partialInputs.set(event.index, '');
+        break;
+      case 'content_block_delta':
+        if (event.delta.type === 'text_delta') {
+          (content[event.index] as TextBlock).text += event.delta.text;
+          request.onText?.(textOf(content));
+        } else if (event.delta.type === 'input_json_delta') {
+          partialInputs.set(event.index, (partialInputs.get(event.index) || '') + event.delta.partial_json);
+        }
+        break;
+      case 'content_block_stop':
+        if (partialInputs.has(event.index)) {
+          const json = partialInputs.get(event.index);
+          (content[event.index] as ToolUseBlock).input = json ? JSON.parse(json) : {};
+          partialInputs.delete(event.index);
+        }
+        break;
+      case 'message_delta':
+        stopReason = event.delta.stop_reason || stopReason;
+        break;
+      case 'error':
+        throw new SseRequestError(500, data);
+    }
+  };
+
+  try {
+    await streamSse(url, {
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: {
+        ...body,
+        max_tokens: request.maxTokens,
+        system: request.system,
+        ...(request.tools.length > 0 && { tools: request.tools }),
+        messages: request.messages,
+        stream: true,
+      },
+      signal: request.signal,
+      onEvent,
+    });
+  } catch (error) {
+    if (!isAbortError(error)) throw error;
+    return stoppedReply(content);
+  }
+  return { content: content.filter(Boolean), stop_reason: stopReason };
+}
+
+/**
+ * Anthropic's API called straight from the device with the user's own key
+ */
+export function createAnthropicProvider(model = DEFAULT_CLAUDE_MODEL): LLMProvider {
+  return {
+    id: 'anthropic',
+
+    async checkSetup() {
+      const apiKey = await SecureStore.getItemAsync(ANTHROPIC_API_KEY);
+      return apiKey ? null : 'Add your Claude API key in Settings to use the AI assistant.';
+    },
+
+    async complete(request) {
+      const apiKey = await SecureStore.getItemAsync(ANTHROPIC_API_KEY);
+      if (!apiKey) {
+        throw new Error('Claude API key not configured. Please add your API key in settings.');
+      }
+      return streamAnthropic(
+        ANTHROPIC_API_URL,
+        { 'x-api-key': apiKey, 'anthropic-version': '2023-06-01' },
+        { model },
+        request
+      );
+    },
+  };
+}
+
+/**
+ * The backend's /ai/messages endpoint, which holds the key and applies the
+ * campus's usage limits. Requests are authorised with the user's session.
+ */
+export function createProxyProvider(model?: string | null): LLMProvider {
+  const send = (request: CompletionRequest) => {
+    const { accessToken, user } = useAuthStore.getState();
+    const headers: Record<string, string> = { Authorization: `Bearer ${accessToken}` };
+    // Same campus as every other request, so a super-admin's switch is billed to the right campus
+    const campusId = getSelectedCampusId() || user?.campusId;
+    if (campusId) headers['X-Campus-Id'] = campusId;
+    return streamAnthropic(PROXY_URL, headers, model ? { model } : {}, request);
+  };
+
+  return {
+    id: 'proxy',
+
+    async checkSetup() {
+      return useAuthStore.getState().accessToken ? null : 'Sign in to use the AI assistant.';
+    },
+
+    async complete(request) {
+      try {
+        return await send(request);
+      } catch (error) {
+        if (!(error instanceof SseRequestError) || error.response.status !== 401) throw error;
+        // Any API call refreshes an expired token through the axios interceptor
+        await authApi.me();
+        return send(request);
+      }
+    },
+  };
+}
+
+// OpenAI chat format: tool results are separate 'tool' messages and tool calls hang off the assistant message
+function toOpenAIMessages(system: string, messages: ChatMessage[]): object[] {
+  const converted: object[] = [{ role: 'system', content: system }];
+
+  for (const message of messages) {
+    if (typeof message.content === 'string') {
+      converted.push({ role: message.role, content: message.content });
+      continue;
+    }
+
+    if (message.role === 'assistant') {
+      const toolCalls = message.content
+        .filter((block): block is ToolUseBlock => block.type === 'tool_use')
+        .map(block => ({
+          id: block.id,
+          type: 'function',
+          function: { name: block.name, arguments: JSON.stringify(block.input) },
+        }));
+      converted.push({
+        role: 'assistant',
+        content: textOf(message.content) || null,
+        ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+      });
+      continue;
+    }
+
+    for (const block of message.content) {
+      if (block.type === 'tool_result') {
+        converted.push({
+          role: 'tool',
+          tool_call_id: block.tool_use_id,
+          content: block.is_error ? `Error: ${block.content}` : block.content,
+        });
+      }
+    }
+    const text = textOf(message.content);
+    if (text) converted.push({ role: 'user', content: text });
+  }
+  return converted;
+}
+
+const OPENAI_STOP_REASONS: Record<string, string> = {
+  stop: 'end_turn',
+  tool_calls: 'tool_use',
+  length: 'max_tokens',
+};
+
+/**
+ * Any server exposing OpenAI's /chat/completions, such as Ollama, LM Studio or vLLM
+ */
+export function createOpenAICompatibleProvider(baseUrl: string, model: string): LLMProvider {
+  return {
+    id: 'openai-compatible',
+
+    async checkSetup() {
+      if (!baseUrl) return 'Set the local model server address in Settings to use the AI assistant.';
+      if (!model) return 'Set the local model name in Settings to use the AI assistant.';
+      return null;
+    },
+
+    async complete(request) {
+      const apiKey = await SecureStore.getItemAsync(LOCAL_LLM_API_KEY);
+      let text = '';
+      const toolCalls: { id: string; name: string; arguments: string }[] = [];
+      let stopReason = 'end_turn';
+
+      const assemble = (): ContentBlock[] => [
+        ...(text ? [{ type: 'text' as const, text }] : []),
+        ...toolCalls.map(call => ({
+          type: 'tool_use' as const,
+          id: call.id,
+          name: call.name,
+          input: call.arguments ? JSON.parse(call.arguments) : {},
+        })),
+      ];
+
+      try {
+        await streamSse(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+          headers: {
+            'Content-Type': 'application/json',
+            ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+          },
+          body: {
+            model,
+            max_tokens: request.maxTokens,
+            messages: toOpenAIMessages(request.system, request.messages),
+            ...(request.tools.length > 0 && {
+              tools: request.tools.map(tool => ({
+                type: 'function',
+                function: { name: tool.name, description: tool.description, parameters: tool.input_schema },
+              })),
+            }),
+            stream: true,
+          },
+          signal: request.signal,
+          onEvent: ({ data }) => {
+            if (data === '[DONE]') return;
+            const chunk = JSON.parse(data);
+            if (chunk.error) throw new SseRequestError(500, JSON.stringify(chunk));
+            const choice = chunk.choices?.[0];
+            if (!choice) return;
+
+            if (choice.delta?.content) {
+              text += choice.delta.content;
+              request.onText?.(text);
+            }
+            for (const delta of choice.delta?.tool_calls || []) {
+              const call = (toolCalls[delta.index ?? 0] ??= { id: '', name: '', arguments: '' });
+              if (delta.id) call.id = delta.id;
+              if (delta.function?.name) call.name += delta.function.name;
+              if (delta.function?.arguments) call.arguments += delta.function.arguments;
+            }
+            if (choice.finish_reason) {
+              stopReason = OPENAI_STOP_REASONS[choice.finish_reason] || choice.finish_reason;
+            }
+          },
+        });
+      } catch (error) {
+        if (!isAbortError(error)) throw error;
+        return { content: text ? [{ type: 'text', text }] : [], stop_reason: STOPPED };
+      }
+
+      // Some servers report 'stop' even when they called tools
+      const content = assemble();
+      if (content.some(block => block.type === 'tool_use')) stopReason = 'tool_use';
+      return { content, stop_reason: stopReason };
+    },
+  };
+}
+
+/**
+ * Provider settings after applying the campus policy to the user's choice.
+ * The campus decides when it doesn't allow a choice; otherwise the user's pick
+ * wins, then the campus default, then Anthropic.
+ */
+export function resolveProviderSettings(
+  campus: Campus | null | undefined,
+  user: { provider: AIProviderId | null; localBaseUrl: string; localModel: string } = useAISettingsStore.getState()
+) {
+  const campusSettings = campus?.aiSettings;
+  const id: AIProviderId = campusSettings && !campusSettings.allowUserChoice
+    ? campusSettings.provider
+    : user.provider ?? campusSettings?.provider ?? 'anthropic';
+  const campusModel = campusSettings?.provider === id ? campusSettings.model : null;
+
+  return {
+    id,
+    canChoose: !campusSettings || campusSettings.allowUserChoice,
+    model: id === 'openai-compatible' ? user.localModel || campusModel || '' : campusModel,
+    localBaseUrl: user.localBaseUrl || campusSettings?.localBaseUrl || '',
+  };
+}
+
+export function createProvider(settings: ReturnType<typeof resolveProviderSettings>): LLMProvider {
+  switch (settings.id) {
+    case 'proxy':
+      return createProxyProvider(settings.model);
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider(settings.localBaseUrl, settings.model || '');
+    default:
+      return createAnthropicProvider(settings.model || undefined);
+  }
+}
+
+async function fetchMyCampus(): Promise<Campus | null> {
+  try {
+    return await queryClient.fetchQuery({ queryKey: MY_CAMPUS_QUERY_KEY, queryFn: campusesApi.getMy });
+  } catch {
+    // Offline or no campus: fall back to the user's own settings
+    return null;
+  }
+}
+
+/**
+ * The provider the assistant should use right now
+ */
+export async function getActiveProvider(): Promise<LLMProvider> {
+  return createProvider(resolveProviderSettings(await fetchMyCampus()));
+}
@@ -0,0 +1,132 @@
+import { addMinutes, format, parse, parseISO } from 'date-fns';
+import { prepareWriteTool, runReadTool, type PendingAction, type ToolResultBlock, type ToolUseBlock } from './aiTools';
+import { describeWhen, summarizeParsedBooking, type ParsedBooking } from '../utils/parsedBooking';
+
+/**
+ * A reply worked out on the device, without a model call
+ */
+export interface LocalReply {
+  text: string;
+  /** The create_booking call behind a proposed booking, kept in the history so the model can follow on later */
+  toolUse?: ToolUseBlock;
+  action?: PendingAction;
+}
+
+interface RoomResult {
+  id: string;
+  name: string;
+  capacity: number;
+}
+
+// Meetings with a start but no end or duration
+const DEFAULT_DURATION_MINUTES = 60;
+const MAX_LISTED_ROOMS = 5;
+
+let localIdCounter = 0;
+
+function localToolUse(name: string, input: Record<string, any>): ToolUseBlock {
+  return { type: 'tool_use', id: `local_${Date.now()}_${localIdCounter++}`, name, input };
+}
+
+async function findFreeRooms(booking: ParsedBooking): Promise<RoomResult[]> {
+  const result = await runReadTool(
+    localToolUse('search_rooms', {
+      minCapacity: booking.numberOfPeople,
+      amenities: booking.amenities,
+      floor: booking.floor,
+      date: booking.date,
+      startTime: booking.startTime,
+      endTime: booking.endTime,
+    })
+  );
+  if (result.is_error) throw new Error(result.content);
+
+  const rooms: RoomResult[] = JSON.parse(result.content);
+  if (!booking.roomName) return rooms;
+  const name = booking.roomName.toLowerCase();
+  return rooms.filter((room) => room.name.toLowerCase().includes(name));
+}
+
+/**
+ * Fill in the end time from the duration, or assume an hour
+ */
+export function withEndTime(booking: ParsedBooking): ParsedBooking {
+  if (booking.endTime || !booking.date || !booking.startTime) return booking;
+  const start = parse(`${booking.date} ${booking.startTime}`, 'yyyy-MM-dd HH:mm', new Date());
+  const end = addMinutes(start, booking.duration ?? DEFAULT_DURATION_MINUTES);
+  if (format(end, 'yyyy-MM-dd') !== booking.date) return booking;
+  return { ...booking, endTime: format(end, 'HH:mm') };
+}
+
+/**
+ * Answer a request with a known day, start and end: list the free rooms, or
+ * propose the best fit for the user to confirm
+ */
+export async function answerLocally(booking: ParsedBooking): Promise<LocalReply> {
+  const when = describeWhen(booking);
+  const rooms = await findFreeRooms(booking);
+
+  if (booking.action === 'check_availability') {
+    if (rooms.length === 0) return { text: `No matching rooms are free ${when}.` };
+    const listed = rooms.slice(0, MAX_LISTED_ROOMS).map((room) => `• ${room.name} (seats ${room.capacity})`);
+    return { text: `Free ${when}:\n${listed.join('\n')}` };
+  }
+
+  if (rooms.length === 0) {
+    const what = booking.roomName ? `"${booking.roomName}"` : 'matching room';
+    return { text: `Sorry, no ${what} is free ${when}. Would another time work?` };
+  }
+
+  const room = rooms[0];
+  const toolUse = localToolUse('create_booking', {
+    roomId: room.id,
+    title: 'Meeting',
+    date: booking.date,
+    startTime: booking.startTime,
+    endTime: booking.endTime,
+  });
+  const prepared = await prepareWriteTool(toolUse);
+  if ('result' in prepared) return { text: `I couldn't book ${room.name}: ${prepared.result.content}` };
+  return { text: `${room.name} is free ${when}.`, toolUse, action: prepared.action };
+}
+
+/**
+ * Best effort when no model is available: act on simple requests and
+ * otherwise say what was understood
+ */
+export async function answerWithoutModel(booking: ParsedBooking, reason: string): Promise<LocalReply> {
+  const note = `(Only simple requests work right now. ${reason})`;
+  if (booking.action === 'help') return { text: `${summarizeParsedBooking(booking)}\n\n${note}` };
+
+  const filled = withEndTime(booking);
+  const canSearch = filled.action === 'book' || filled.action === 'check_availability';
+  if (canSearch && filled.date && filled.startTime && filled.endTime) {
+    try {
+      return await answerLocally(filled);
+    } catch (error: any) {
+      return { text: `${summarizeParsedBooking(filled)} I couldn't look up rooms: ${error.message}\n\n${note}` };
+    }
+  }
+
+  const hint = canSearch
+    ? 'Tell me the day and time too, e.g. "tomorrow 2-3pm for 6 people".'
+    : 'You can do that from the My Bookings tab.';
+  return { text: `${summarizeParsedBooking(booking)} ${hint}\n\n${note}` };
+}
+
+/**
+ * What to say after the user answered a locally proposed action
+ */
+export function describeOutcome(action: PendingAction, approved: boolean, outcome: ToolResultBlock): string {
+  if (!approved) return action.kind === 'create_booking' ? "OK, I won't book it." : "OK, I'll leave it as it is.";
+  if (outcome.is_error) return `That didn't work: ${outcome.content}`;
+  if (action.kind === 'cancel_booking') return `Cancelled ${action.booking.title}.`;
+
+  const start = parseISO(action.booking.startTime);
+  const end = parseISO(action.booking.endTime);
+  const when = `${action.roomName} on ${format(start, 'EEE, MMM d')} from ${format(start, 'h:mm a')} to ${format(end, 'h:mm a')}`;
+  if (JSON.parse(outcome.content).status === 'PENDING') {
+    return `Requested ${when}. This room needs admin approval, so you'll get a notification when they decide.`;
+  }
+  return `Booked ${when}.`;
+}
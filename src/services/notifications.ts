@@ -2,6 +2,8 @@ import * as Notifications from 'expo-notifications';
 import * as Device from 'expo-device';
 import { Platform } from 'react-native';
 import type * as NotificationTypes from 'expo-notifications';
+import type { Booking } from '../types';
+import { holdsRoom } from '../utils/bookingStatus';
 
 // Configure notification behavior
 Notifications.setNotificationHandler({
@@ -14,8 +16,17 @@ Notifications.setNotificationHandler({
   }),
 });
 
+// How long before an unchecked booking is released the organizer is warned
+export const RELEASE_WARNING_MINUTES = 5;
+
 export interface NotificationData {
-  type: 'booking_reminder' | 'booking_confirmation' | 'waitlist_update';
+  type:
+    | 'booking_reminder'
+    | 'booking_confirmation'
+    | 'booking_decision'
+    | 'release_warning'
+    | 'booking_released'
+    | 'waitlist_update';
   bookingId?: string;
   title: string;
   body: string;
@@ -106,6 +117,53 @@ class NotificationService {
     }
   }
 
+  /**
+   * Warn the organizer shortly before a booking nobody has checked in to is released
+   */
+  async scheduleReleaseWarning(
+    booking: Pick<Booking, 'id' | 'title' | 'room' | 'releaseAt'>
+  ): Promise<string | null> {
+    if (!booking.releaseAt) return null;
+    try {
+      const releaseAt = new Date(booking.releaseAt);
+      const triggerDate = new Date(releaseAt.getTime() - RELEASE_WARNING_MINUTES * 60 * 1000);
+      if (triggerDate <= new Date()) {
+        return null;
+      }
+
+      return await Notifications.scheduleNotificationAsync({
+        content: {
+          title: `Check in to keep ${booking.room?.name || 'your room'}`,
+          body: `${booking.title} will be released in ${RELEASE_WARNING_MINUTES} minutes if nobody checks in`,
+          data: { type: 'release_warning', bookingId: booking.id } as Record<string, unknown>,
+          sound: 'default',
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date: triggerDate,
+          channelId: 'booking-reminders',
+        },
+      });
+    } catch (error) {
+      console.error('Error scheduling release warning:', error);
+      return null;
+    }
+  }
+
+  async cancelReleaseWarning(bookingId: string): Promise<void> {
+    try {
+      const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+      for (const notification of scheduled) {
+        const data = notification.content.data;
+        if (data?.bookingId === bookingId && data?.type === 'release_warning') {
+          await Notifications.cancelScheduledNotificationAsync(notification.identifier);
+        }
+      }
+    } catch (error) {
+      console.error('Error canceling release warning:', error);
+    }
+  }
+
   async cancelBookingReminders(bookingId: string): Promise<void> {
     try {
       const scheduled = await Notifications.getAllScheduledNotificationsAsync();
@@ -121,6 +179,25 @@ class NotificationService {
     }
   }
 
+  // Replace existing reminders for each booking; ones that no longer hold their room just lose theirs
+  async rescheduleBookingReminders(
+    bookings: Pick<Booking, 'id' | 'title' | 'startTime' | 'status' | 'room' | 'releaseAt'>[],
+    minutesBefore: number = 15
+  ): Promise<void> {
+    for (const booking of bookings) {
+      await this.cancelBookingReminders(booking.id);
+      if (!holdsRoom(booking)) continue;
+      await this.scheduleBookingReminder(
+        booking.id,
+        booking.title,
+        booking.room?.name || 'your room',
+        new Date(booking.startTime),
+        minutesBefore
+      );
+      await this.scheduleReleaseWarning(booking);
+    }
+  }
+
   async cancelAllNotifications(): Promise<void> {
     await Notifications.cancelAllScheduledNotificationsAsync();
   }
@@ -0,0 +1,189 @@
+import NetInfo from '@react-native-community/netinfo';
+import { onlineManager } from '@tanstack/react-query';
+import { parseISO } from 'date-fns';
+import { bookingsApi } from './bookings';
+import { checkInsApi } from './checkins';
+import { roomsApi } from './rooms';
+import { checkBookingRules } from './bookingRules';
+import { notificationService } from './notifications';
+import { queryClient, queryPersister } from './queryClient';
+import { useAuthStore } from '../store/auth';
+import { useOfflineQueueStore, type QueuedAction, type QueuedItem } from '../store/offlineQueue';
+import { expandRecurrence, parseRecurrenceRule } from '../utils/recurrence';
+import type { ApiResponse } from '../types';
+
+/**
+ * Returned by mutations that were saved for later instead of being sent
+ */
+export type QueuedResponse = ApiResponse<never> & { queued: true };
+
+export type ReplayStatus = 'synced' | 'conflict' | 'failed';
+
+export interface ReplayResult {
+  label: string;
+  type: QueuedAction['type'];
+  status: ReplayStatus;
+  message?: string;
+}
+
+export function isQueued(response: unknown): response is QueuedResponse {
+  return typeof response === 'object' && response !== null && 'queued' in response;
+}
+
+// Axios errors without a response never reached the server
+export function isNetworkError(error: any): boolean {
+  return !!error?.isAxiosError && !error.response;
+}
+
+/**
+ * Run a request, or queue it when the device is offline or the request can't reach the server
+ */
+export async function sendOrQueue<T>(
+  action: QueuedAction,
+  label: string,
+  send: () => Promise<ApiResponse<T>>
+): Promise<ApiResponse<T> | QueuedResponse> {
+  const queue = () => {
+    useOfflineQueueStore.getState().enqueue(action, label);
+    return {
+      success: true,
+      queued: true,
+      message: "You're offline. This will be sent when you reconnect.",
+    } as QueuedResponse;
+  };
+
+  if (!onlineManager.isOnline()) return queue();
+  try {
+    return await send();
+  } catch (error) {
+    if (isNetworkError(error)) return queue();
+    throw error;
+  }
+}
+
+async function replayCreate(item: Extract<QueuedItem, { type: 'create' }>): Promise<ReplayResult> {
+  const { data } = item;
+  const start = parseISO(data.startTime);
+  const base = { label: item.label, type: item.type };
+
+  if (start < new Date()) {
+    return { ...base, status: 'conflict', message: 'The start time passed before you reconnected' };
+  }
+
+  // The room may have been booked by someone else, or its rules changed, while we were offline
+  const room = await roomsApi.getById(data.roomId);
+  if (!room.data) return { ...base, status: 'conflict', message: 'The room no longer exists' };
+  const rule = parseRecurrenceRule(data.recurrenceRule);
+  const { violations, conflicts } = await checkBookingRules(
+    room.data,
+    rule ? expandRecurrence(rule, start) : [start],
+    parseISO(data.endTime).getTime() - start.getTime(),
+    { openEnded: !!rule && !rule.count && !rule.until }
+  );
+  if (violations.length > 0) {
+    return { ...base, status: 'conflict', message: violations.join(' ') };
+  }
+  if (conflicts.length > 0) {
+    const { block } = conflicts[0];
+    return {
+      ...base,
+      status: 'conflict',
+      message: `Room was booked for "${block.title}" by ${block.bookedBy} in the meantime`,
+    };
+  }
+
+  const response = await bookingsApi.create(data);
+  if (response.data?.id) {
+    await notificationService.scheduleBookingReminder(
+      response.data.id,
+      data.title,
+      response.data.room?.name || '',
+      start,
+      15
+    );
+    await notificationService.scheduleReleaseWarning(response.data);
+  }
+  return { ...base, status: 'synced' };
+}
+
+async function replayItem(item: QueuedItem): Promise<ReplayResult> {
+  const base = { label: item.label, type: item.type };
+  switch (item.type) {
+    case 'create':
+      return replayCreate(item);
+    case 'cancel':
+      if (item.scope === 'this') {
+        await bookingsApi.cancel(item.bookingId);
+      } else {
+        await bookingsApi.cancelSeries(item.bookingId, item.scope);
+      }
+      await notificationService.cancelBookingReminders(item.bookingId);
+      return { ...base, status: 'synced' };
+    case 'checkIn':
+      await checkInsApi.checkIn(item.bookingId);
+      await notificationService.cancelReleaseWarning(item.bookingId);
+      return { ...base, status: 'synced' };
+  }
+}
+
+let isReplaying = false;
+
+/**
+ * Send queued actions in the order they were made. Stops at the first network
+ * or server error so it and the rest stay queued; only a 4xx rejection drops
+ * an action, reported as a conflict.
+ */
+export async function replayOfflineQueue(): Promise<ReplayResult[]> {
+  if (isReplaying) return [];
+  isReplaying = true;
+
+  const results: ReplayResult[] = [];
+  const { items, remove } = useOfflineQueueStore.getState();
+
+  try {
+    for (const item of items) {
+      try {
+        results.push(await replayItem(item));
+      } catch (error: any) {
+        const status: number | undefined = error.response?.status;
+        // Offline, or a server error it may get past next time
+        if (!status || status >= 500) break;
+        results.push({
+          label: item.label,
+          type: item.type,
+          status: status === 404 || status === 409 || status === 400 ? 'conflict' : 'failed',
+          message: error.response?.data?.message || 'The server rejected this change',
+        });
+      }
+      remove(item.id);
+    }
+  } finally {
+    isReplaying = false;
+  }
+
+  if (results.length > 0) {
+    queryClient.invalidateQueries({ queryKey: ['bookings'] });
+    queryClient.invalidateQueries({ queryKey: ['rooms'] });
+    queryClient.invalidateQueries({ queryKey: ['checkins'] });
+  }
+  return results;
+}
+
+/**
+ * Wire React Query's online state to NetInfo and drop cached data on logout
+ */
+export function setupOfflineSupport() {
+  onlineManager.setEventListener((setOnline) =>
+    NetInfo.addEventListener((state) => {
+      setOnline(!!state.isConnected && state.isInternetReachable !== false);
+    })
+  );
+
+  useAuthStore.subscribe((state, prev) => {
+    if (prev.isAuthenticated && !state.isAuthenticated) {
+      queryClient.clear();
+      queryPersister.removeClient();
+      useOfflineQueueStore.getState().clear();
+    }
+  });
+}
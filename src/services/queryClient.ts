@@ -0,0 +1,35 @@
+import { QueryClient } from '@tanstack/react-query';
+import { createAsyncStoragePersister } from '@tanstack/query-async-storage-persister';
+import type { Query } from '@tanstack/react-query';
+import { config } from '../constants/config';
+import { zustandAsyncStorage } from '../utils/storage';
+
+// Data worth showing when there's no signal; everything else is refetched on launch
+const PERSISTED_QUERY_ROOTS = ['bookings', 'rooms', 'favorites', 'checkins', 'waitlist'];
+
+export const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      staleTime: config.queryStaleTime,
+      // Must outlive the persisted cache or restored queries are dropped straight away
+      gcTime: config.offlineCacheMaxAge,
+      retry: 1,
+    },
+  },
+});
+
+export const queryPersister = createAsyncStoragePersister({
+  storage: zustandAsyncStorage,
+  key: 'query-cache',
+  throttleTime: 2000,
+});
+
+export const persistOptions = {
+  persister: queryPersister,
+  maxAge: config.offlineCacheMaxAge,
+  dehydrateOptions: {
+    shouldDehydrateQuery: (query: Query) =>
+      query.state.status === 'success' &&
+      PERSISTED_QUERY_ROOTS.includes(String(query.queryKey[0])),
+  },
+};
@@ -0,0 +1,317 @@
+import { AppState, type AppStateStatus, type NativeEventSubscription } from 'react-native';
+import { onlineManager } from '@tanstack/react-query';
+import { config } from '../constants/config';
+import { queryClient } from './queryClient';
+import { bookingsApi } from './bookings';
+import { notificationService } from './notifications';
+import { useAuthStore } from '../store/auth';
+import { useCampusStore } from '../store/campus';
+import { holdsRoom } from '../utils/bookingStatus';
+import type { WaitlistEntry } from './waitlist';
+import type { ApiResponse, Booking, BookingStatus, Room } from '../types';
+
+export type RealtimeEvent =
+  | { type: 'booking.created'; booking: Booking }
+  | { type: 'booking.updated'; booking: Booking }
+  | { type: 'booking.cancelled'; bookingId: string; roomId: string }
+  | { type: 'room.updated'; room: Room }
+  | { type: 'waitlist.updated'; entry: WaitlistEntry };
+
+// Close code the server uses when the access token is rejected
+const UNAUTHORIZED_CLOSE_CODE = 4001;
+const MIN_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 30000;
+
+type Entity = { id: string };
+
+// React Native's WebSocket takes headers as a third argument, which the DOM typings don't know about
+const NativeWebSocket = WebSocket as unknown as new (
+  url: string,
+  protocols: string | string[] | null,
+  options: { headers: Record<string, string> }
+) => WebSocket;
+
+/**
+ * Replace an entity wherever it appears in cached ApiResponse data, whether
+ * the query holds a single item or a list
+ */
+function patchEntity<T extends Entity>(rootKey: string, entity: T) {
+  queryClient.setQueriesData<ApiResponse<T | T[]>>({ queryKey: [rootKey] }, (old) => {
+    if (!old?.data) return old;
+    if (Array.isArray(old.data)) {
+      if (!old.data.some((item) => item.id === entity.id)) return old;
+      return { ...old, data: old.data.map((item) => (item.id === entity.id ? { ...item, ...entity } : item)) };
+    }
+    return old.data.id === entity.id ? { ...old, data: { ...old.data, ...entity } } : old;
+  });
+}
+
+function invalidateRoomAvailability(roomId: string) {
+  queryClient.invalidateQueries({ queryKey: ['rooms', roomId, 'availability'] });
+  queryClient.invalidateQueries({ queryKey: ['rooms', 'availability'] });
+}
+
+// Status of a booking as last seen in any cached query
+function cachedBookingStatus(bookingId: string): BookingStatus | undefined {
+  for (const [, cached] of queryClient.getQueriesData<ApiResponse<Booking | Booking[]>>({ queryKey: ['bookings'] })) {
+    const data = cached?.data;
+    const found = Array.isArray(data) ? data.find((b) => b.id === bookingId) : data?.id === bookingId ? data : undefined;
+    if (found) return found.status;
+  }
+  return undefined;
+}
+
+// Tell the requester an admin approved or rejected their booking
+function notifyDecision(booking: Booking) {
+  if (booking.userId !== useAuthStore.getState().user?.id) return;
+  notificationService.rescheduleBookingReminders([booking]);
+  const data = { type: 'booking_decision', bookingId: booking.id };
+  if (booking.status === 'CONFIRMED') {
+    notificationService.showLocalNotification(
+      'Booking Approved',
+      `${booking.title} in ${booking.room.name} is confirmed.`,
+      data
+    );
+  } else if (booking.status === 'REJECTED') {
+    const reason = booking.decision?.reason;
+    notificationService.showLocalNotification(
+      'Booking Rejected',
+      reason ? `${booking.title}: ${reason}` : `${booking.title} in ${booking.room.name} wasn't approved.`,
+      data
+    );
+  }
+}
+
+// The user's own bookings awaiting approval, as last seen in any cached query
+function cachedPendingBookingIds(): string[] {
+  const userId = useAuthStore.getState().user?.id;
+  const ids = new Set<string>();
+  for (const [, cached] of queryClient.getQueriesData<ApiResponse<Booking | Booking[]>>({ queryKey: ['bookings'] })) {
+    const data = cached?.data;
+    for (const booking of Array.isArray(data) ? data : data ? [data] : []) {
+      if (booking.status === 'PENDING' && booking.userId === userId) ids.add(booking.id);
+    }
+  }
+  return [...ids];
+}
+
+/**
+ * Decisions made while the socket was closed never arrive as events, so look
+ * up the requests that were still pending and tell the user about any that changed
+ */
+async function catchUpDecisions(pendingIds: string[]) {
+  for (const id of pendingIds) {
+    try {
+      const response = await bookingsApi.getById(id);
+      const booking = response.data;
+      // Skip anything a live event already reported in the meantime
+      if (!booking || booking.status === 'PENDING' || cachedBookingStatus(id) !== 'PENDING') continue;
+      patchEntity('bookings', booking);
+      notifyDecision(booking);
+    } catch {
+      // Deleted or unreachable; list refetches sort the cache out
+    }
+  }
+}
+
+// Drop warnings that no longer apply, e.g. someone else checked in or the booking was cancelled
+function clearStaleReminders(booking: Booking) {
+  if (booking.userId !== useAuthStore.getState().user?.id) return;
+  if (!holdsRoom(booking)) {
+    notificationService.cancelBookingReminders(booking.id);
+  } else if (!booking.releaseAt) {
+    notificationService.cancelReleaseWarning(booking.id);
+  }
+}
+
+// Tell the organizer their room was given up because nobody checked in
+function notifyRelease(booking: Booking) {
+  if (booking.userId !== useAuthStore.getState().user?.id) return;
+  notificationService.rescheduleBookingReminders([booking]);
+  notificationService.showLocalNotification(
+    'Room Released',
+    `Nobody checked in to ${booking.title}, so ${booking.room.name} is free for others now.`,
+    { type: 'booking_released', bookingId: booking.id }
+  );
+}
+
+function applyEvent(event: RealtimeEvent) {
+  switch (event.type) {
+    case 'booking.created':
+      // Which filtered lists a new booking belongs in is the server's call
+      queryClient.invalidateQueries({ queryKey: ['bookings'] });
+      invalidateRoomAvailability(event.booking.roomId);
+      break;
+    case 'booking.updated': {
+      const previousStatus = cachedBookingStatus(event.booking.id);
+      patchEntity('bookings', event.booking);
+      invalidateRoomAvailability(event.booking.roomId);
+      clearStaleReminders(event.booking);
+      if (previousStatus === 'PENDING' && event.booking.status !== 'PENDING') notifyDecision(event.booking);
+      if (previousStatus !== 'NO_SHOW' && event.booking.status === 'NO_SHOW') notifyRelease(event.booking);
+      break;
+    }
+    case 'booking.cancelled':
+      queryClient.setQueriesData<ApiResponse<Booking | Booking[]>>({ queryKey: ['bookings'] }, (old) => {
+        if (!old?.data) return old;
+        const cancel = (b: Booking): Booking => (b.id === event.bookingId ? { ...b, status: 'CANCELLED' } : b);
+        return { ...old, data: Array.isArray(old.data) ? old.data.map(cancel) : cancel(old.data) };
+      });
+      // Only the owner has anything scheduled for it
+      notificationService.cancelBookingReminders(event.bookingId);
+      invalidateRoomAvailability(event.roomId);
+      break;
+    case 'room.updated':
+      patchEntity('rooms', event.room);
+      break;
+    case 'waitlist.updated': {
+      const wasNotified = queryClient
+        .getQueryData<ApiResponse<WaitlistEntry[]>>(['waitlist', 'my'])
+        ?.data?.some((entry) => entry.id === event.entry.id && entry.status === 'NOTIFIED');
+      patchEntity('waitlist', event.entry);
+      // Entries are broadcast campus-wide; only the person waiting hears about the offer
+      const isMine = event.entry.userId === useAuthStore.getState().user?.id;
+      if (isMine && event.entry.status === 'NOTIFIED' && !wasNotified) {
+        notificationService.showLocalNotification(
+          'Room Available',
+          `${event.entry.room.name} is now free for the time you were waiting for.`,
+          { type: 'waitlist_update' }
+        );
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * Keeps one WebSocket open to the realtime endpoint while the user is signed in,
+ * the app is in the foreground and the device is online
+ */
+class RealtimeService {
+  private socket: WebSocket | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryCount = 0;
+  private appState: AppStateStatus = AppState.currentState;
+  private unauthorizedToken: string | null = null;
+  private hasConnected = false;
+  private cleanups: (() => void)[] = [];
+
+  start(): void {
+    if (this.cleanups.length > 0) return;
+
+    const appStateSub: NativeEventSubscription = AppState.addEventListener('change', (state) => {
+      this.appState = state;
+      this.sync();
+    });
+    this.cleanups = [
+      () => appStateSub.remove(),
+      onlineManager.subscribe(() => this.sync()),
+      useAuthStore.subscribe((state, prev) => {
+        if (state.accessToken !== prev.accessToken) this.reconnect();
+      }),
+      useCampusStore.subscribe((state, prev) => {
+        if (state.selectedCampus?.id !== prev.selectedCampus?.id) this.reconnect();
+      }),
+    ];
+    this.sync();
+  }
+
+  stop(): void {
+    this.cleanups.forEach((cleanup) => cleanup());
+    this.cleanups = [];
+    this.disconnect();
+  }
+
+  private shouldConnect(): boolean {
+    const { accessToken, isAuthenticated } = useAuthStore.getState();
+    return (
+      isAuthenticated &&
+      !!accessToken &&
+      accessToken !== this.unauthorizedToken &&
+      this.appState === 'active' &&
+      onlineManager.isOnline()
+    );
+  }
+
+  private sync() {
+    if (this.shouldConnect()) {
+      if (!this.socket && !this.retryTimer) this.connect();
+    } else {
+      this.disconnect();
+    }
+  }
+
+  private reconnect() {
+    this.disconnect();
+    this.retryCount = 0;
+    this.sync();
+  }
+
+  private connect() {
+    const { accessToken, user } = useAuthStore.getState();
+    const campusId = useCampusStore.getState().selectedCampus?.id || user?.campusId;
+    const headers: Record<string, string> = { Authorization: `Bearer ${accessToken}` };
+    if (campusId) headers['X-Campus-Id'] = campusId;
+
+    const socket = new NativeWebSocket(config.realtimeUrl, null, { headers });
+    this.socket = socket;
+
+    socket.onopen = () => {
+      if (this.socket !== socket) return;
+      this.retryCount = 0;
+      // Catch up on anything that changed while we weren't listening, including
+      // decisions on requests pending from before the app was closed
+      catchUpDecisions(cachedPendingBookingIds());
+      if (this.hasConnected) {
+        queryClient.invalidateQueries({ queryKey: ['bookings'] });
+        queryClient.invalidateQueries({ queryKey: ['rooms'] });
+        queryClient.invalidateQueries({ queryKey: ['waitlist'] });
+      }
+      this.hasConnected = true;
+    };
+
+    socket.onmessage = (event) => {
+      try {
+        applyEvent(JSON.parse(event.data) as RealtimeEvent);
+      } catch (error) {
+        console.warn('Ignoring malformed realtime message', error);
+      }
+    };
+
+    socket.onclose = (event) => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      if (event.code === UNAUTHORIZED_CLOSE_CODE) {
+        // Wait for the API client to refresh the token rather than retrying a bad one
+        this.unauthorizedToken = accessToken;
+        return;
+      }
+      this.scheduleRetry();
+    };
+  }
+
+  private scheduleRetry() {
+    if (!this.shouldConnect()) return;
+    const backoff = Math.min(MAX_RETRY_DELAY, MIN_RETRY_DELAY * 2 ** this.retryCount);
+    const delay = backoff / 2 + Math.random() * (backoff / 2);
+    this.retryCount += 1;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.sync();
+    }, delay);
+  }
+
+  private disconnect() {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.close();
+    }
+  }
+}
+
+export const realtimeService = new RealtimeService();
@@ -22,6 +22,10 @@ export interface RoomAvailability {
   }[];
 }
 
+export interface BulkRoomAvailability extends RoomAvailability {
+  roomId: string;
+}
+
 export const roomsApi = {
   getAll: async (
     filters: RoomFilters = {}
@@ -44,4 +48,14 @@ export const roomsApi = {
     });
     return response.data;
   },
+
+  getBulkAvailability: async (
+    roomIds: string[],
+    date: string
+  ): Promise<ApiResponse<BulkRoomAvailability[]>> => {
+    const response = await api.get('/rooms/availability', {
+      params: { roomIds: roomIds.join(','), date },
+    });
+    return response.data;
+  },
 };
@@ -0,0 +1,87 @@
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { bookingsApi } from './bookings';
+import { adminApi } from './admin';
+import { exportFileName, generateIcs } from '../utils/ics';
+import type { Booking, Room } from '../types';
+
+const ICS_MIME_TYPE = 'text/calendar';
+const PDF_MIME_TYPE = 'application/pdf';
+const CSV_MIME_TYPE = 'text/csv';
+
+async function shareFile(
+  fileName: string,
+  content: string | Uint8Array,
+  mimeType: string,
+  dialogTitle: string,
+  uti?: string
+): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  const file = new File(Paths.cache, fileName);
+  if (file.exists) file.delete();
+  file.create();
+  file.write(content);
+
+  await Sharing.shareAsync(file.uri, { mimeType, dialogTitle, UTI: uti });
+}
+
+export const sharingService = {
+  shareBookingIcs: async (booking: Booking): Promise<void> => {
+    const ics = generateIcs([booking], { includeRecurrence: true });
+    await shareFile(
+      exportFileName(booking.title, 'ics'),
+      ics,
+      ICS_MIME_TYPE,
+      'Add to calendar',
+      'com.apple.ical.ics'
+    );
+  },
+
+  // List exports already contain every occurrence, so recurrence rules are left out
+  shareBookingsIcs: async (bookings: Booking[], label: string): Promise<void> => {
+    const ics = generateIcs(bookings, { calendarName: label });
+    await shareFile(
+      exportFileName(label, 'ics'),
+      ics,
+      ICS_MIME_TYPE,
+      'Export bookings',
+      'com.apple.ical.ics'
+    );
+  },
+
+  shareBookingPdf: async (booking: Booking): Promise<void> => {
+    const pdf = await bookingsApi.downloadPdf(booking.id);
+    await shareFile(
+      exportFileName(`${booking.title} confirmation`, 'pdf'),
+      new Uint8Array(pdf),
+      PDF_MIME_TYPE,
+      'Booking confirmation',
+      'com.adobe.pdf'
+    );
+  },
+
+  shareAttendanceCsv: async (booking: Booking, csv: string): Promise<void> => {
+    await shareFile(
+      exportFileName(`${booking.title} attendance`, 'csv'),
+      csv,
+      CSV_MIME_TYPE,
+      'Export attendance',
+      'public.comma-separated-values-text'
+    );
+  },
+
+  // Shared rather than printed directly, so it can go to a printer or be saved
+  shareRoomQrPdf: async (room: Room, link: string): Promise<void> => {
+    const pdf = await adminApi.downloadRoomQrPdf(room.id, link);
+    await shareFile(
+      exportFileName(`${room.name} check-in QR`, 'pdf'),
+      new Uint8Array(pdf),
+      PDF_MIME_TYPE,
+      'Print check-in QR code',
+      'com.adobe.pdf'
+    );
+  },
+};
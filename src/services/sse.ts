@@ -0,0 +1,142 @@
+export interface SseEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * Error for a non-2xx response, shaped like an axios error so callers can read
+ * `error.response.data` the same way
+ */
+export class SseRequestError extends Error {
+  response: { status: number; data: any };
+
+  constructor(status: number, body: string) {
+    let data: any = body;
+    try {
+      data = JSON.parse(body);
+    } catch {
+      // Not JSON; keep the raw text
+    }
+    super(`Request failed with status code ${status}`);
+    this.response = { status, data };
+  }
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * Incremental text/event-stream parser. Feed it chunks as they arrive; it calls
+ * onEvent for each complete event and keeps any trailing partial line.
+ */
+export function createSseParser(onEvent: (event: SseEvent) => void): (chunk: string) => void {
+  let buffer = '';
+  let eventName = '';
+  let dataLines: string[] = [];
+
+  return (chunk) => {
+    buffer += chunk;
+    // A trailing \r may be the first half of \r\n; wait for the next chunk to decide
+    const heldCR = buffer.endsWith('\r');
+    const lines = (heldCR ? buffer.slice(0, -1) : buffer).split(/\r\n|\r|\n/);
+    buffer = (lines.pop() ?? '') + (heldCR ? '\r' : '');
+
+    for (const line of lines) {
+      if (line === '') {
+        if (dataLines.length > 0) {
+          onEvent({ event: eventName || 'message', data: dataLines.join('\n') });
+        }
+        eventName = '';
+        dataLines = [];
+      } else if (line.startsWith(':')) {
+        // Comment / keep-alive
+      } else {
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+        if (field === 'event') eventName = value;
+        else if (field === 'data') dataLines.push(value);
+      }
+    }
+  };
+}
+
+/**
+ * POST a JSON body and read the server-sent-event response as it streams in.
+ * Uses XMLHttpRequest because React Native's fetch doesn't expose the body as a stream.
+ */
+export function streamSse(
+  url: string,
+  options: {
+    headers: Record<string, string>;
+    body: unknown;
+    onEvent: (event: SseEvent) => void;
+    signal?: AbortSignal;
+  }
+): Promise<void> {
+  const { headers, body, onEvent, signal } = options;
+
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    let seen = 0;
+    // Set when onEvent throws; the request is aborted and the promise rejects with it
+    let handlerError: unknown = null;
+
+    const parse = createSseParser((event) => {
+      if (handlerError) return;
+      try {
+        onEvent(event);
+      } catch (error) {
+        handlerError = error;
+        xhr.abort();
+      }
+    });
+
+    const abortError = () => {
+      const error = new Error('Request aborted');
+      error.name = 'AbortError';
+      return error;
+    };
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => xhr.abort();
+    signal?.addEventListener('abort', onAbort);
+
+    const isSuccess = () => xhr.status >= 200 && xhr.status < 300;
+    const flush = () => {
+      if (!isSuccess()) return;
+      const text = xhr.responseText;
+      if (text.length > seen) {
+        parse(text.slice(seen));
+        seen = text.length;
+      }
+    };
+
+    xhr.open('POST', url);
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    xhr.addEventListener('progress', flush);
+    xhr.addEventListener('load', () => {
+      signal?.removeEventListener('abort', onAbort);
+      if (!isSuccess()) {
+        reject(new SseRequestError(xhr.status, xhr.responseText));
+        return;
+      }
+      flush();
+      parse('\n\n');
+      if (handlerError) reject(handlerError);
+      else resolve();
+    });
+    xhr.addEventListener('error', () => {
+      signal?.removeEventListener('abort', onAbort);
+      reject(new Error('Network Error'));
+    });
+    xhr.addEventListener('abort', () => {
+      signal?.removeEventListener('abort', onAbort);
+      reject(handlerError || abortError());
+    });
+    xhr.send(JSON.stringify(body));
+  });
+}
@@ -0,0 +1,77 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { zustandEncryptedStorage } from '../utils/storage';
+import type { ChatMessage, ParsedBooking } from '../services/claudeAI';
+import type { PendingAction } from '../services/aiTools';
+
+export type ActionStatus = 'pending' | 'confirmed' | 'declined';
+
+export interface Message {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  /** Booking request the assistant understood, shown as a summary instead of raw JSON */
+  parsedData?: ParsedBooking;
+  /** Booking change proposed in this message, shown as a confirmation card */
+  action?: PendingAction;
+  actionStatus?: ActionStatus;
+  /** Reply is still arriving */
+  isStreaming?: boolean;
+  /** The user stopped the reply before it finished */
+  stopped?: boolean;
+}
+
+export interface AIConversation {
+  id: string;
+  title: string;
+  updatedAt: number;
+  /** What the chat screen shows */
+  messages: Message[];
+  /** What the model sees, including tool calls and results */
+  history: ChatMessage[];
+}
+
+// Oldest conversations are dropped beyond this
+const MAX_CONVERSATIONS_PER_USER = 20;
+
+interface AIConversationState {
+  /** Conversations keyed by user id, newest first */
+  conversations: Record<string, AIConversation[]>;
+  save: (userId: string, conversation: AIConversation) => void;
+  remove: (userId: string, id: string) => void;
+  clear: () => void;
+}
+
+export const useAIConversationStore = create<AIConversationState>()(
+  persist(
+    (set) => ({
+      conversations: {},
+
+      save: (userId, conversation) =>
+        set((state) => ({
+          conversations: {
+            ...state.conversations,
+            [userId]: [
+              conversation,
+              ...(state.conversations[userId] || []).filter((c) => c.id !== conversation.id),
+            ].slice(0, MAX_CONVERSATIONS_PER_USER),
+          },
+        })),
+
+      remove: (userId, id) =>
+        set((state) => ({
+          conversations: {
+            ...state.conversations,
+            [userId]: (state.conversations[userId] || []).filter((c) => c.id !== id),
+          },
+        })),
+
+      clear: () => set({ conversations: {} }),
+    }),
+    {
+      name: 'ai-conversations-storage',
+      storage: createJSONStorage(() => zustandEncryptedStorage),
+      partialize: (state) => ({ conversations: state.conversations }),
+    }
+  )
+);
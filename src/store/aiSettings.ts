@@ -0,0 +1,40 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { zustandAsyncStorage } from '../utils/storage';
+import type { AIProviderId } from '../types';
+
+interface AISettingsState {
+  /** The user's pick; null follows the campus default */
+  provider: AIProviderId | null;
+  localBaseUrl: string;
+  localModel: string;
+  /** Show the assistant's briefing of the day on the Dashboard */
+  dailyBriefing: boolean;
+  setProvider: (provider: AIProviderId | null) => void;
+  setLocalEndpoint: (baseUrl: string, model: string) => void;
+  setDailyBriefing: (enabled: boolean) => void;
+}
+
+export const useAISettingsStore = create<AISettingsState>()(
+  persist(
+    (set) => ({
+      provider: null,
+      localBaseUrl: '',
+      localModel: '',
+      dailyBriefing: false,
+      setProvider: (provider) => set({ provider }),
+      setLocalEndpoint: (localBaseUrl, localModel) => set({ localBaseUrl, localModel }),
+      setDailyBriefing: (dailyBriefing) => set({ dailyBriefing }),
+    }),
+    {
+      name: 'ai-settings-storage',
+      storage: createJSONStorage(() => zustandAsyncStorage),
+      partialize: (state) => ({
+        provider: state.provider,
+        localBaseUrl: state.localBaseUrl,
+        localModel: state.localModel,
+        dailyBriefing: state.dailyBriefing,
+      }),
+    }
+  )
+);
@@ -0,0 +1,53 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { zustandAsyncStorage } from '../utils/storage';
+import type { CreateBookingData, SeriesScope } from '../services/bookings';
+
+export type QueuedAction =
+  | { type: 'create'; data: CreateBookingData }
+  | { type: 'cancel'; bookingId: string; scope: SeriesScope }
+  | { type: 'checkIn'; bookingId: string };
+
+export type QueuedItem = QueuedAction & {
+  id: string;
+  /** Shown in the sync report, e.g. the booking title */
+  label: string;
+  queuedAt: string;
+};
+
+interface OfflineQueueState {
+  items: QueuedItem[];
+  enqueue: (action: QueuedAction, label: string) => void;
+  remove: (id: string) => void;
+  clear: () => void;
+}
+
+export const useOfflineQueueStore = create<OfflineQueueState>()(
+  persist(
+    (set) => ({
+      items: [],
+
+      enqueue: (action, label) =>
+        set((state) => ({
+          items: [
+            ...state.items,
+            {
+              ...action,
+              id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+              label,
+              queuedAt: new Date().toISOString(),
+            },
+          ],
+        })),
+
+      remove: (id) => set((state) => ({ items: state.items.filter((item) => item.id !== id) })),
+
+      clear: () => set({ items: [] }),
+    }),
+    {
+      name: 'offline-queue-storage',
+      storage: createJSONStorage(() => zustandAsyncStorage),
+      partialize: (state) => ({ items: state.items }),
+    }
+  )
+);
@@ -13,6 +13,9 @@ export interface Campus {
   email: string | null;
   schools: string[];
   logoUrl: string | null;
+  aiSettings?: CampusAISettings | null;
+  /** Defaults for rooms without their own policy; null means no limits */
+  bookingPolicy?: BookingPolicy | null;
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
@@ -22,6 +25,33 @@ export interface Campus {
   };
 }
 
+export type AIProviderId = 'anthropic' | 'proxy' | 'openai-compatible';
+
+export interface CampusAISettings {
+  /** Provider the assistant uses on this campus */
+  provider: AIProviderId;
+  /** Whether users may pick a different provider in Settings */
+  allowUserChoice: boolean;
+  model?: string | null;
+  /** Base URL of an OpenAI-compatible endpoint, e.g. http://10.0.0.5:11434/v1 */
+  localBaseUrl?: string | null;
+}
+
+/** Limits on when and how long a room can be booked; null fields don't limit */
+export interface BookingPolicy {
+  maxDurationMinutes: number | null;
+  /** How many days ahead a booking may start */
+  maxAdvanceDays: number | null;
+  /** Whole hours, 0-24, local to the campus */
+  openHour: number | null;
+  closeHour: number | null;
+  /** Room kept free for setup before and teardown after each booking */
+  bufferBeforeMinutes: number;
+  bufferAfterMinutes: number;
+  /** Minutes after the start a booking is released if nobody has checked in */
+  checkInGraceMinutes: number | null;
+}
+
 export interface User {
   id: string;
   email: string;
@@ -54,11 +84,18 @@ export interface Room {
     code: string;
   };
   isActive: boolean;
+  /** Bookings stay PENDING until a campus admin approves them */
+  requiresApproval?: boolean;
+  /** Null follows the campus defaults */
+  policy?: BookingPolicy | null;
   imageUrl: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+/** NO_SHOW bookings were released because nobody checked in */
+export type BookingStatus = 'CONFIRMED' | 'CANCELLED' | 'PENDING' | 'REJECTED' | 'NO_SHOW';
+
 export interface Booking {
   id: string;
   userId: string;
@@ -67,8 +104,12 @@ export interface Booking {
   description: string | null;
   startTime: string;
   endTime: string;
-  status: 'CONFIRMED' | 'CANCELLED' | 'PENDING';
+  status: BookingStatus;
   recurrenceRule: string | null;
+  /** Set when an admin approves or rejects a booking for a restricted room */
+  decision?: BookingDecision | null;
+  /** When the room is released unless someone checks in; null once they have or if the room never releases */
+  releaseAt?: string | null;
   room: {
     id: string;
     name: string;
@@ -87,6 +128,17 @@ export interface Booking {
   updatedAt: string;
 }
 
+export interface BookingDecision {
+  decidedAt: string;
+  decidedBy: {
+    id: string;
+    firstName: string;
+    lastName: string;
+  };
+  /** Why the booking was rejected */
+  reason: string | null;
+}
+
 export interface Attendee {
   id: string;
   email: string;
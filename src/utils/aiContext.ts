@@ -0,0 +1,90 @@
+import { format, isAfter, parseISO } from 'date-fns';
+import type { Booking, Room } from '../types';
+import { holdsRoom } from './bookingStatus';
+
+export interface AIContextInput {
+  now: Date;
+  /** IANA zone name of the device, e.g. "Asia/Kolkata" */
+  timeZone: string;
+  rooms: Room[];
+  bookings: Booking[];
+}
+
+// Roughly what we can spend on context without crowding out the conversation
+export const AI_CONTEXT_TOKEN_BUDGET = 1500;
+
+// Close enough to the tokenizer for budgeting; English text averages ~4 characters a token
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function roomLine(room: Room): string {
+  const location = [room.building, room.floor && `floor ${room.floor}`].filter(Boolean).join(', ');
+  const amenities = room.amenities.length > 0 ? ` | ${room.amenities.join(', ')}` : '';
+  return `- ${room.id} | ${room.name} | seats ${room.capacity}${location ? ` | ${location}` : ''}${amenities}`;
+}
+
+function bookingLine(booking: Booking): string {
+  const start = parseISO(booking.startTime);
+  const times = `${format(start, 'EEE yyyy-MM-dd HH:mm')}-${format(parseISO(booking.endTime), 'HH:mm')}`;
+  const flags = [booking.status !== 'CONFIRMED' && booking.status, booking.recurrenceRule && 'recurring']
+    .filter(Boolean)
+    .join(', ');
+  return `- ${booking.id} | ${booking.title} | ${booking.room.name} | ${times}${flags ? ` | ${flags}` : ''}`;
+}
+
+/**
+ * Add lines until the budget runs out, noting how many were left off
+ */
+function takeWithinBudget(lines: string[], budget: number, overflowNote: (left: number) => string): string[] {
+  const taken: string[] = [];
+  let used = 0;
+  for (const line of lines) {
+    const cost = estimateTokens(line) + 1;
+    if (used + cost > budget) {
+      taken.push(overflowNote(lines.length - taken.length));
+      break;
+    }
+    taken.push(line);
+    used += cost;
+  }
+  return taken;
+}
+
+/**
+ * Text block for the assistant's system prompt: the current date and time zone,
+ * the user's upcoming bookings (soonest first) and the room catalogue, kept
+ * within a token budget. Bookings get first claim on half the budget and rooms
+ * take whatever is left.
+ */
+export function formatAIContext(input: AIContextInput, tokenBudget = AI_CONTEXT_TOKEN_BUDGET): string {
+  const { now, timeZone, rooms, bookings } = input;
+  const header =
+    `Current date and time: ${format(now, 'EEEE, yyyy-MM-dd HH:mm')} (${timeZone}, UTC${format(now, 'xxx')}). ` +
+    'All times below and in tool calls are in this time zone.';
+
+  let remaining = tokenBudget - estimateTokens(header);
+
+  const upcoming = bookings
+    .filter((b) => holdsRoom(b) && isAfter(parseISO(b.endTime), now))
+    .sort((a, b) => a.startTime.localeCompare(b.startTime));
+  const bookingLines = upcoming.length > 0
+    ? takeWithinBudget(upcoming.map(bookingLine), remaining / 2, (left) => `- ...and ${left} later bookings (use list_my_bookings)`)
+    : ['- none'];
+  remaining -= estimateTokens(bookingLines.join('\n'));
+
+  const activeRooms = rooms.filter((room) => room.isActive);
+  const roomLines = activeRooms.length > 0
+    ? takeWithinBudget(
+        [...activeRooms].sort((a, b) => a.name.localeCompare(b.name)).map(roomLine),
+        remaining,
+        (left) => `- ...and ${left} more rooms (use search_rooms)`
+      )
+    : ['- not loaded (use search_rooms)'];
+
+  return [
+    header,
+    `The user's upcoming bookings (id | title | room | time):\n${bookingLines.join('\n')}`,
+    `Rooms (id | name | seats | location | amenities):\n${roomLines.join('\n')}`,
+  ].join('\n\n');
+}
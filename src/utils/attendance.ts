@@ -0,0 +1,125 @@
+import { differenceInMinutes, format, parseISO } from 'date-fns';
+import type { CheckIn } from '../services/checkins';
+import type { Booking } from '../types';
+
+// Check-ins up to this long after the start still count as on time
+export const LATE_AFTER_MINUTES = 5;
+
+export type AttendanceStatus = 'present' | 'late' | 'absent';
+
+export interface AttendanceRow {
+  email: string;
+  name: string;
+  /** The organizer is listed first and isn't one of booking.attendees */
+  isOrganizer: boolean;
+  /** Checked in without being on the invite list */
+  isUninvited: boolean;
+  status: AttendanceStatus;
+  checkedInAt: string | null;
+  minutesLate: number;
+}
+
+export interface AttendanceSummary {
+  invited: number;
+  present: number;
+  late: number;
+  absent: number;
+  uninvited: number;
+}
+
+function statusFor(checkIn: CheckIn | undefined, start: Date): Pick<AttendanceRow, 'status' | 'checkedInAt' | 'minutesLate'> {
+  if (!checkIn) return { status: 'absent', checkedInAt: null, minutesLate: 0 };
+  const minutesLate = Math.max(0, differenceInMinutes(parseISO(checkIn.checkedInAt), start));
+  return {
+    status: minutesLate > LATE_AFTER_MINUTES ? 'late' : 'present',
+    checkedInAt: checkIn.checkedInAt,
+    minutesLate,
+  };
+}
+
+/**
+ * Everyone invited to a booking matched against who checked in, organizer
+ * first. Matching is by email, so external attendees line up too.
+ */
+export function buildAttendance(booking: Booking, checkIns: CheckIn[]): AttendanceRow[] {
+  const start = parseISO(booking.startTime);
+  const byEmail = new Map(checkIns.map((checkIn) => [checkIn.user.email.toLowerCase(), checkIn]));
+  const organizerCheckIn = checkIns.find((checkIn) => checkIn.user.id === booking.userId);
+  const organizerEmail = (booking.user.email || organizerCheckIn?.user.email || '').toLowerCase();
+  const seen = new Set<string>([organizerEmail]);
+
+  const rows: AttendanceRow[] = [
+    {
+      email: organizerEmail,
+      name: `${booking.user.firstName} ${booking.user.lastName}`,
+      isOrganizer: true,
+      isUninvited: false,
+      ...statusFor(organizerCheckIn, start),
+    },
+  ];
+
+  for (const attendee of booking.attendees) {
+    const email = attendee.email.toLowerCase();
+    if (seen.has(email)) continue;
+    seen.add(email);
+    rows.push({
+      email,
+      name: attendee.name || attendee.email,
+      isOrganizer: false,
+      isUninvited: false,
+      ...statusFor(byEmail.get(email), start),
+    });
+  }
+
+  for (const checkIn of checkIns) {
+    const email = checkIn.user.email.toLowerCase();
+    if (seen.has(email) || checkIn.user.id === booking.userId) continue;
+    seen.add(email);
+    rows.push({
+      email,
+      name: `${checkIn.user.firstName} ${checkIn.user.lastName}`,
+      isOrganizer: false,
+      isUninvited: true,
+      ...statusFor(checkIn, start),
+    });
+  }
+
+  return rows;
+}
+
+export function summarizeAttendance(rows: AttendanceRow[]): AttendanceSummary {
+  const invited = rows.filter((row) => !row.isUninvited);
+  return {
+    invited: invited.length,
+    present: rows.filter((row) => row.status === 'present').length,
+    late: rows.filter((row) => row.status === 'late').length,
+    absent: rows.filter((row) => row.status === 'absent').length,
+    uninvited: rows.length - invited.length,
+  };
+}
+
+function csvField(value: string | number): string {
+  // Spreadsheets run cells starting with these as formulas, and names come from users
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One row per person; times are local, as shown in the app
+ */
+export function attendanceCsv(rows: AttendanceRow[]): string {
+  const header = ['Name', 'Email', 'Role', 'Status', 'Checked in at', 'Minutes late'];
+  const lines = rows.map((row) =>
+    [
+      row.name,
+      row.email,
+      row.isOrganizer ? 'Organizer' : row.isUninvited ? 'Not invited' : 'Attendee',
+      row.status,
+      row.checkedInAt ? format(parseISO(row.checkedInAt), 'yyyy-MM-dd HH:mm') : '',
+      row.status === 'late' ? row.minutesLate : '',
+    ]
+      .map(csvField)
+      .join(',')
+  );
+  return [header.join(','), ...lines].join('\r\n') + '\r\n';
+}
@@ -0,0 +1,152 @@
+import { addMinutes, differenceInMinutes, isAfter, isBefore, parseISO, setHours, startOfDay } from 'date-fns';
+import type { RoomAvailability } from '../services/rooms';
+import type { Room } from '../types';
+
+export type BusyBlock = RoomAvailability['bookings'][number];
+
+export interface TimeSlot {
+  start: Date;
+  end: Date;
+}
+
+export interface SlotSearchOptions {
+  /** First bookable hour of the day (local) */
+  dayStartHour?: number;
+  /** Hour by which bookings must end (local) */
+  dayEndHour?: number;
+  /** Granularity of candidate start times, in minutes */
+  stepMinutes?: number;
+  /** Earliest allowed start, normally "now" */
+  notBefore?: Date;
+}
+
+export const DEFAULT_DAY_START_HOUR = 8;
+export const DEFAULT_DAY_END_HOUR = 20;
+export const DEFAULT_SLOT_STEP_MINUTES = 15;
+
+export function overlaps(aStart: Date, aEnd: Date, bStart: Date, bEnd: Date): boolean {
+  return isBefore(aStart, bEnd) && isAfter(aEnd, bStart);
+}
+
+/**
+ * Bookings that overlap the requested window, optionally ignoring the booking being edited
+ */
+export function findConflicts(
+  busy: BusyBlock[],
+  start: Date,
+  end: Date,
+  excludeBookingId?: string
+): BusyBlock[] {
+  return busy.filter(
+    (block) =>
+      block.id !== excludeBookingId &&
+      overlaps(start, end, parseISO(block.startTime), parseISO(block.endTime))
+  );
+}
+
+/**
+ * Free gaps between busy blocks within the bookable part of a day
+ */
+export function findFreeGaps(
+  busy: BusyBlock[],
+  day: Date,
+  options: SlotSearchOptions = {}
+): TimeSlot[] {
+  const { dayStartHour = DEFAULT_DAY_START_HOUR, dayEndHour = DEFAULT_DAY_END_HOUR } = options;
+  const dayStart = setHours(startOfDay(day), dayStartHour);
+  const dayEnd = setHours(startOfDay(day), dayEndHour);
+
+  const blocks = busy
+    .map((block) => ({ start: parseISO(block.startTime), end: parseISO(block.endTime) }))
+    .filter((block) => overlaps(block.start, block.end, dayStart, dayEnd))
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const gaps: TimeSlot[] = [];
+  let cursor = dayStart;
+
+  for (const block of blocks) {
+    if (isAfter(block.start, cursor)) {
+      gaps.push({ start: cursor, end: block.start });
+    }
+    if (isAfter(block.end, cursor)) {
+      cursor = block.end;
+    }
+  }
+
+  if (isBefore(cursor, dayEnd)) {
+    gaps.push({ start: cursor, end: dayEnd });
+  }
+
+  return gaps;
+}
+
+/**
+ * Free slots of the same length as the request, closest to the requested start first
+ */
+export function suggestNearestSlots(
+  busy: BusyBlock[],
+  start: Date,
+  end: Date,
+  options: SlotSearchOptions & { limit?: number; excludeBookingId?: string } = {}
+): TimeSlot[] {
+  const {
+    dayStartHour = DEFAULT_DAY_START_HOUR,
+    dayEndHour = DEFAULT_DAY_END_HOUR,
+    stepMinutes = DEFAULT_SLOT_STEP_MINUTES,
+    notBefore,
+    limit = 3,
+    excludeBookingId,
+  } = options;
+
+  const duration = differenceInMinutes(end, start);
+  if (duration <= 0) return [];
+
+  const relevant = busy.filter((block) => block.id !== excludeBookingId);
+  const dayStart = setHours(startOfDay(start), dayStartHour);
+  const dayEnd = setHours(startOfDay(start), dayEndHour);
+
+  const candidates: TimeSlot[] = [];
+  for (let slotStart = dayStart; !isAfter(addMinutes(slotStart, duration), dayEnd); slotStart = addMinutes(slotStart, stepMinutes)) {
+    const slotEnd = addMinutes(slotStart, duration);
+    if (notBefore && isBefore(slotStart, notBefore)) continue;
+    if (slotStart.getTime() === start.getTime()) continue;
+    if (findConflicts(relevant, slotStart, slotEnd).length > 0) continue;
+    candidates.push({ start: slotStart, end: slotEnd });
+  }
+
+  return candidates
+    .sort(
+      (a, b) =>
+        Math.abs(a.start.getTime() - start.getTime()) - Math.abs(b.start.getTime() - start.getTime()) ||
+        a.start.getTime() - b.start.getTime()
+    )
+    .slice(0, limit)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+export interface RoomRankingOptions {
+  /** Expected attendees; rooms closest to this size rank higher */
+  headcount?: number;
+  favoriteIds?: string[];
+  /** Preferred amenities; more matches rank higher */
+  amenities?: string[];
+}
+
+/**
+ * Orders rooms by fit: favorites first, then capacity closest to the headcount, then amenity matches
+ */
+export function rankRooms(rooms: Room[], options: RoomRankingOptions = {}): Room[] {
+  const { headcount, favoriteIds = [], amenities = [] } = options;
+  const capacityGap = (room: Room) =>
+    headcount ? Math.abs(room.capacity - headcount) : room.capacity;
+  const amenityMatches = (room: Room) =>
+    amenities.filter((amenity) => room.amenities.includes(amenity)).length;
+
+  return [...rooms].sort(
+    (a, b) =>
+      Number(favoriteIds.includes(b.id)) - Number(favoriteIds.includes(a.id)) ||
+      capacityGap(a) - capacityGap(b) ||
+      amenityMatches(b) - amenityMatches(a) ||
+      a.name.localeCompare(b.name)
+  );
+}
@@ -0,0 +1,356 @@
+import { addDays, addMinutes, format, getDay, isBefore, startOfDay, type Day } from 'date-fns';
+import { config } from '../constants/config';
+import { parsedBookingSchema, type ParsedBooking } from './parsedBooking';
+
+type Amenity = (typeof config.amenities)[number];
+type Meridiem = 'am' | 'pm';
+
+export interface PhraseParseResult {
+  booking: ParsedBooking;
+  /** Words the parser didn't understand; empty when the whole message was accounted for */
+  leftover: string[];
+}
+
+const WEEKDAYS: [RegExp, Day][] = [
+  [/^sun(day)?$/, 0],
+  [/^mon(day)?$/, 1],
+  [/^tue(s|sday)?$/, 2],
+  [/^wed(nesday)?$/, 3],
+  [/^thu(r|rs|rsday)?$/, 4],
+  [/^fri(day)?$/, 5],
+  [/^sat(urday)?$/, 6],
+];
+const WEEKDAY_PATTERN = 'sun(?:day)?|mon(?:day)?|tue(?:s|sday)?|wed(?:nesday)?|thu(?:r|rs|rsday)?|fri(?:day)?|sat(?:urday)?';
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_PATTERN = 'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t|tember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?';
+
+const TIME_PATTERN = String.raw`(\d{1,2})(?:[:.](\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)?`;
+const AMOUNT_PATTERN = String.raw`(\d+(?:\.\d+)?|an?|one|two|three|half an?)`;
+const UNIT_PATTERN = String.raw`(hours?|hrs?|h|minutes?|mins?|m)`;
+
+const AMENITY_KEYWORDS: [RegExp, Amenity][] = [
+  [/\bprojectors?\b/, 'projector'],
+  [/\bwhite ?boards?\b/, 'whiteboard'],
+  [/\b(video|vc|zoom|teams|webex)\b/, 'video-conferencing'],
+  [/\b(tv|screen|display|monitor)s?\b/, 'tv-screen'],
+  [/\b(speakers?|audio|sound system)\b/, 'audio-system'],
+  [/\b(ac|a\/c|air ?con(ditioning)?)\b/, 'air-conditioning'],
+  [/\bwi-?fi\b/, 'wifi'],
+  [/\b(speaker ?phone|conference phone|phone)\b/, 'phone'],
+  [/\bprinter\b/, 'printer'],
+  [/\bcoffee( machine)?\b/, 'coffee-machine'],
+  [/\bwater( dispenser)?\b/, 'water-dispenser'],
+  [/\b(natural light|daylight|windows?)\b/, 'natural-light'],
+  [/\b(accessible|accessibility|wheelchair)\b/, 'accessibility'],
+  [/\bstanding desks?\b/, 'standing-desk'],
+  [/\brecord(ing)?( equipment)?\b/, 'recording-equipment'],
+];
+
+const TIME_OF_DAY: [RegExp, string][] = [
+  [/\bmorning\b/, 'morning'],
+  [/\b(lunch ?time|lunch)\b/, 'lunch'],
+  [/\bafternoon\b/, 'afternoon'],
+  [/\b(evening|tonight)\b/, 'evening'],
+];
+
+// Words that carry no booking detail; anything else left over means the parser may have missed something
+const FILLER_WORDS = new Set([
+  'a', 'an', 'the', 'i', 'we', 'me', 'us', 'my', 'our', 'please', 'pls', 'can', 'could', 'would', 'you', 'like',
+  'to', 'for', 'with', 'and', 'on', 'at', 'in', 'from', 'of', 'is', 'are', 'there', 'any', 'some', 'that', 'has',
+  'have', 'book', 'reserve', 'need', 'want', 'get', 'find', 'room', 'rooms', 'meeting', 'meetings', 'space',
+  'boardroom', 'conference', 'hi', 'hello', 'hey', 'thanks', 'thank', 'it', 'one', 'something', 'which', 'what',
+  'available', 'free', 'open', 'check', 'show', 'list', 'cancel', 'bookings', 'booking', 'help', 'around', 'about',
+]);
+
+// "the big room" describes a room rather than naming it
+const GENERIC_ROOM_WORDS = new Set(['big', 'small', 'large', 'quiet', 'same', 'other', 'usual', 'board', 'huddle', 'video']);
+
+function amount(value: string): number {
+  if (/^half/.test(value)) return 0.5;
+  if (value === 'a' || value === 'an' || value === 'one') return 1;
+  if (value === 'two') return 2;
+  if (value === 'three') return 3;
+  return parseFloat(value);
+}
+
+function toMinutesOfUnit(value: string, unit: string): number {
+  return Math.round(amount(value) * (unit.startsWith('h') ? 60 : 1));
+}
+
+function formatMinutes(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+function normalizeMeridiem(value?: string): Meridiem | undefined {
+  if (!value) return undefined;
+  return value.startsWith('a') ? 'am' : 'pm';
+}
+
+/**
+ * Minutes after midnight. Without am/pm, 1-7 are read as afternoon, since
+ * nobody books a meeting room at 3am.
+ */
+function clockMinutes(hourText: string, minuteText: string | undefined, meridiem?: Meridiem): number | null {
+  let hour = parseInt(hourText, 10);
+  const minute = minuteText ? parseInt(minuteText, 10) : 0;
+  if (hour > 23 || minute > 59) return null;
+  if (meridiem) {
+    if (hour === 0 || hour > 12) return null;
+    hour = (hour % 12) + (meridiem === 'pm' ? 12 : 0);
+  } else if (hour >= 1 && hour <= 7) {
+    hour += 12;
+  }
+  return hour * 60 + minute;
+}
+
+// Round up to the next 5 minutes so "in 30 minutes" gives a tidy start time
+function roundUpToFive(date: Date): Date {
+  const extra = (5 - (date.getMinutes() % 5)) % 5;
+  const rounded = addMinutes(date, extra);
+  rounded.setSeconds(0, 0);
+  return rounded;
+}
+
+function upcomingWeekday(now: Date, day: Day): Date {
+  const ahead = (day - getDay(now) + 7) % 7 || 7;
+  return addDays(startOfDay(now), ahead);
+}
+
+/**
+ * Working copy of the message; each recognised phrase is cut out so it isn't read twice
+ */
+class Remaining {
+  constructor(public text: string) {}
+
+  take(pattern: RegExp): RegExpMatchArray | null {
+    const match = this.text.match(pattern);
+    if (match) this.remove(match[0]);
+    return match;
+  }
+
+  remove(fragment: string) {
+    this.text = this.text.replace(fragment, ' ');
+  }
+}
+
+function parseDate(rest: Remaining, now: Date): Date | undefined {
+  const today = startOfDay(now);
+  let match: RegExpMatchArray | null;
+
+  if (rest.take(/\b(the )?day after (tomorrow|tmrw|tmr)\b/)) return addDays(today, 2);
+  if (rest.take(/\b(tomorrow|tmrw|tmr)\b/)) return addDays(today, 1);
+  if (rest.take(/\b(today|tonight|now|right now|asap)\b/)) return today;
+  if ((match = rest.take(/\bin (\d+|a|one|two|three) days?\b/))) return addDays(today, amount(match[1]));
+
+  if ((match = rest.take(new RegExp(String.raw`\b(?:(next|this|coming) )?(${WEEKDAY_PATTERN})\b`)))) {
+    const day = WEEKDAYS.find(([pattern]) => pattern.test(match![2]))![1];
+    // "this Friday" on a Friday means today; otherwise always look ahead
+    if (match[1] === 'this' && getDay(now) === day) return today;
+    return upcomingWeekday(now, day);
+  }
+
+  if ((match = rest.take(/\b(\d{4})-(\d{2})-(\d{2})\b/))) {
+    const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+    return date.getMonth() === Number(match[2]) - 1 ? date : undefined;
+  }
+
+  const dayFirst = new RegExp(String.raw`\b(\d{1,2})(?:st|nd|rd|th)? (?:of )?(${MONTH_PATTERN})\b`);
+  const monthFirst = new RegExp(String.raw`\b(${MONTH_PATTERN}) (\d{1,2})(?:st|nd|rd|th)?\b`);
+  let day: number | undefined;
+  let month: number | undefined;
+  if ((match = rest.take(dayFirst))) {
+    day = Number(match[1]);
+    month = MONTHS.indexOf(match[2].slice(0, 3));
+  } else if ((match = rest.take(monthFirst))) {
+    day = Number(match[2]);
+    month = MONTHS.indexOf(match[1].slice(0, 3));
+  }
+  if (day !== undefined && month !== undefined) {
+    // A date that has already passed this year means next year
+    let date = new Date(now.getFullYear(), month, day);
+    if (isBefore(date, today)) date = new Date(now.getFullYear() + 1, month, day);
+    return date.getDate() === day ? date : undefined;
+  }
+  return undefined;
+}
+
+function parseTimes(rest: Remaining): { start?: number; end?: number } {
+  // Ranges: "2-3pm", "from 11 to 1pm", "between 9:30 and 10:30"
+  const range = rest.text.match(
+    new RegExp(String.raw`\b(from |between )?${TIME_PATTERN}\s*(?:-|–|to|until|till|and)\s*${TIME_PATTERN}(?!\s*(?:people|persons|ppl|pax|days?|hours?|hrs?|minutes?|mins?))`)
+  );
+  if (range) {
+    const [, lead, startHour, startMinute, startMer, endHour, endMinute, endMer] = range;
+    // Bare numbers like "2 and 3" need a lead-in word to count as times
+    if (lead || startMer || endMer || startMinute || endMinute) {
+      rest.remove(range[0]);
+      const endMeridiem = normalizeMeridiem(endMer);
+      const startMeridiem = normalizeMeridiem(startMer);
+      let start = clockMinutes(startHour, startMinute, startMeridiem ?? endMeridiem);
+      let end = clockMinutes(endHour, endMinute, endMeridiem ?? startMeridiem);
+      // "11-1pm" is 11am to 1pm
+      if (start !== null && end !== null && start >= end && !startMeridiem && endMeridiem === 'pm' && start >= 12 * 60) {
+        start -= 12 * 60;
+      }
+      // "10-2" is 10am to 2pm
+      if (start !== null && end !== null && end <= start && !endMeridiem && end + 12 * 60 < 24 * 60) {
+        end += 12 * 60;
+      }
+      if (start !== null && end !== null && start < end) return { start, end };
+      if (start !== null) return { start };
+    }
+  }
+
+  if (rest.take(/\b(noon|midday)\b/)) return { start: 12 * 60 };
+
+  const single =
+    rest.take(new RegExp(String.raw`\b(?:at|@|from|starting|starting at|by)\s+${TIME_PATTERN}(?!\s*(?:people|persons|ppl|pax))`)) ||
+    rest.take(new RegExp(String.raw`\b(\d{1,2})(?:[:.](\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)`)) ||
+    rest.take(/\b(\d{1,2})[:](\d{2})()\b/);
+  if (single) {
+    const start = clockMinutes(single[1], single[2], normalizeMeridiem(single[3]));
+    if (start !== null) return { start };
+  }
+  return {};
+}
+
+function detectAction(text: string, hasDetails: boolean): ParsedBooking['action'] | null {
+  if (/^\s*(help\b|\?|what can you do|how does this work)/.test(text)) return 'help';
+  if (/\bcancel\b/.test(text)) return 'cancel';
+  if (/\b(my (bookings|meetings|reservations)|what (have i|did i) book(ed)?\b|show (me )?(my )?bookings|list (my )?bookings)\b/.test(text)) {
+    return 'list';
+  }
+  if (/\b(book|reserve|schedule|grab)\b/.test(text)) return 'book';
+  if (/\b(available|availability|free|open)\b/.test(text) || /^(what|which|are there|is there|any)\b.*\brooms?\b/.test(text)) {
+    return 'check_availability';
+  }
+  if (/\b(need|want|get|find)\b.*\b(room|space|boardroom)\b/.test(text) || hasDetails) return 'book';
+  return null;
+}
+
+/**
+ * Rule-based reading of common booking phrases, e.g. "tomorrow 2-3pm for 6 people
+ * with projector", "next Monday morning" or "in 30 minutes for an hour". Dates are
+ * resolved against `now`, so results depend only on the inputs.
+ *
+ * Returns null when the message doesn't look like a booking request.
+ */
+export function parseBookingPhraseDetailed(message: string, now: Date): PhraseParseResult | null {
+  const text = message.toLowerCase().replace(/\s+/g, ' ').trim();
+  const rest = new Remaining(` ${text} `);
+  let match: RegExpMatchArray | null;
+
+  // "in 30 minutes" / "in an hour" sets the start relative to now
+  let relativeStart: Date | undefined;
+  if ((match = rest.take(new RegExp(String.raw`\bin ${AMOUNT_PATTERN} ?${UNIT_PATTERN}\b`)))) {
+    relativeStart = roundUpToFive(addMinutes(now, toMinutesOfUnit(match[1], match[2])));
+  } else if (/\b(now|right now|asap)\b/.test(text)) {
+    relativeStart = roundUpToFive(now);
+  }
+
+  // Dates first, so "2026-10-20" isn't read as times or a room number
+  const date = parseDate(rest, now) ?? (relativeStart && startOfDay(relativeStart));
+
+  let duration: number | undefined;
+  if ((match = rest.take(new RegExp(String.raw`\bfor ${AMOUNT_PATTERN} ?${UNIT_PATTERN}\b(?: and a half)?`)))) {
+    duration = toMinutesOfUnit(match[1], match[2]) + (match[0].endsWith('and a half') ? 30 : 0);
+  } else if ((match = rest.take(new RegExp(String.raw`\b${AMOUNT_PATTERN} ?${UNIT_PATTERN} (?:long|meeting|slot|session)\b`)))) {
+    duration = toMinutesOfUnit(match[1], match[2]);
+  }
+
+  let numberOfPeople: number | undefined;
+  if ((match = rest.take(/\b(\d+) ?(people|persons|person|ppl|pax|attendees|guests|participants|of us)\b/))) {
+    numberOfPeople = Number(match[1]);
+  } else if ((match = rest.take(/\b(team|group) of (\d+)\b/))) {
+    numberOfPeople = Number(match[2]);
+  }
+
+  let floor: string | undefined;
+  if ((match = rest.take(/\b(\d+)(?:st|nd|rd|th)? floor\b/) || rest.take(/\bfloor (\w+)\b/))) {
+    floor = match[1];
+  } else if (rest.take(/\bground floor\b/)) {
+    floor = '0';
+  }
+
+  // "the Everest room", "room 101", "room B"
+  let roomName: string | undefined;
+  const namedRoom = rest.text.match(/\b(?:in|the) ([a-z][\w-]*) room\b/);
+  if (namedRoom && !FILLER_WORDS.has(namedRoom[1]) && !GENERIC_ROOM_WORDS.has(namedRoom[1])) {
+    roomName = rest.take(/\b(?:in|the) ([a-z][\w-]*) room\b/)![1];
+  } else if ((match = rest.take(/\broom (\d+[a-z]?|[a-z]\d*)\b/)) && !FILLER_WORDS.has(match[1])) {
+    roomName = match[1];
+  }
+
+  const amenities = AMENITY_KEYWORDS.filter(([pattern]) => rest.take(pattern)).map(([, amenity]) => amenity);
+
+  const times = relativeStart
+    ? { start: relativeStart.getHours() * 60 + relativeStart.getMinutes(), end: undefined }
+    : parseTimes(rest);
+
+  // A bare "for 4" once times and durations are gone is a headcount
+  if (!numberOfPeople && (match = rest.take(/\bfor (\d{1,3})\b(?!\s*(?:am|pm|a\.m\.|p\.m\.|[:.]\d|-))/))) {
+    numberOfPeople = Number(match[1]);
+  }
+
+  let timeOfDay: string | undefined;
+  if (times.start === undefined) {
+    timeOfDay = TIME_OF_DAY.find(([pattern]) => rest.take(pattern))?.[1];
+  } else {
+    TIME_OF_DAY.forEach(([pattern]) => rest.take(pattern));
+  }
+
+  let end = times.end;
+  if (end === undefined && times.start !== undefined && duration && times.start + duration < 24 * 60) {
+    end = times.start + duration;
+  }
+
+  // A time without a day means the next time it comes round
+  let day = date;
+  if (!day && times.start !== undefined) {
+    const minutesNow = now.getHours() * 60 + now.getMinutes();
+    day = times.start > minutesNow ? startOfDay(now) : addDays(startOfDay(now), 1);
+  }
+
+  const hasDetails =
+    !!day || times.start !== undefined || !!duration || !!numberOfPeople || amenities.length > 0 || !!timeOfDay;
+  const action = detectAction(text, hasDetails);
+  if (!action) return null;
+
+  const parsed = parsedBookingSchema.safeParse({
+    action,
+    date: day && format(day, 'yyyy-MM-dd'),
+    startTime: times.start !== undefined ? formatMinutes(times.start) : undefined,
+    endTime: end !== undefined ? formatMinutes(end) : undefined,
+    duration: duration ?? (times.start !== undefined && end !== undefined ? end - times.start : undefined),
+    numberOfPeople,
+    floor,
+    amenities: amenities.length > 0 ? amenities : undefined,
+    roomName,
+    timeOfDay,
+  });
+  if (!parsed.success) return null;
+
+  const leftover = rest.text
+    .split(/[^a-z0-9']+/)
+    .filter((word) => word && !FILLER_WORDS.has(word));
+  return { booking: parsed.data, leftover };
+}
+
+export function parseBookingPhrase(message: string, now: Date): ParsedBooking | null {
+  return parseBookingPhraseDetailed(message, now)?.booking ?? null;
+}
+
+/**
+ * A booking or availability request with everything needed to look for a room:
+ * the day and a start and end time. Unknown words mean the message might say
+ * more than the parser saw, so those are left to the model.
+ */
+export function isCompleteBookingRequest(result: PhraseParseResult): boolean {
+  return (
+    (result.booking.action === 'book' || result.booking.action === 'check_availability') &&
+    !!result.booking.date &&
+    !!result.booking.startTime &&
+    !!result.booking.endTime &&
+    result.leftover.length === 0
+  );
+}
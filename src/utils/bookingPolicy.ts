@@ -0,0 +1,215 @@
+import { addDays, addHours, addMinutes, differenceInMinutes, endOfDay, format, isAfter, isSameDay, setHours, startOfDay } from 'date-fns';
+import { findConflicts, type BusyBlock, type SlotSearchOptions } from './availability';
+import type { BookingPolicy, Campus, Room } from '../types';
+
+// What applies when neither the room nor its campus sets any rules
+export const NO_POLICY: BookingPolicy = {
+  maxDurationMinutes: null,
+  maxAdvanceDays: null,
+  openHour: null,
+  closeHour: null,
+  bufferBeforeMinutes: 0,
+  bufferAfterMinutes: 0,
+  checkInGraceMinutes: null,
+};
+
+/**
+ * The rules for booking a room: its own policy, or else its campus defaults
+ */
+export function effectivePolicy(
+  room: Pick<Room, 'policy'> | null | undefined,
+  campus: Pick<Campus, 'bookingPolicy'> | null | undefined
+): BookingPolicy {
+  return room?.policy ?? campus?.bookingPolicy ?? NO_POLICY;
+}
+
+function hourLabel(hour: number): string {
+  if (hour >= 24) return 'midnight';
+  return format(setHours(startOfDay(new Date()), hour), 'h a');
+}
+
+function durationLabel(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest} min`;
+  const unit = `${hours} hour${hours === 1 ? '' : 's'}`;
+  return rest ? `${unit} ${rest} min` : unit;
+}
+
+/**
+ * Last day a booking may start on under the advance window, if there is one
+ */
+export function latestBookableDate(policy: BookingPolicy, now: Date): Date | undefined {
+  return policy.maxAdvanceDays === null ? undefined : endOfDay(addDays(now, policy.maxAdvanceDays));
+}
+
+/**
+ * One short line per rule, for explaining the policy next to the pickers
+ */
+export function describePolicy(policy: BookingPolicy): string[] {
+  const lines: string[] = [];
+  if (policy.maxDurationMinutes !== null) lines.push(`Up to ${durationLabel(policy.maxDurationMinutes)} per booking`);
+  if (policy.maxAdvanceDays !== null) lines.push(`Up to ${policy.maxAdvanceDays} days ahead`);
+  if (policy.openHour !== null || policy.closeHour !== null) {
+    lines.push(`Open ${hourLabel(policy.openHour ?? 0)} to ${hourLabel(policy.closeHour ?? 24)}`);
+  }
+  const { bufferBeforeMinutes: before, bufferAfterMinutes: after } = policy;
+  if (before > 0 || after > 0) {
+    const parts = [before > 0 && `${before} min setup`, after > 0 && `${after} min teardown`].filter(Boolean);
+    lines.push(`${parts.join(' and ')} kept free around each booking`);
+  }
+  if (policy.checkInGraceMinutes !== null) {
+    lines.push(`Released if nobody checks in within ${policy.checkInGraceMinutes} min of the start`);
+  }
+  return lines;
+}
+
+/**
+ * Why a booking from start to end isn't allowed, if it isn't
+ */
+export function policyViolations(policy: BookingPolicy, start: Date, end: Date, now: Date): string[] {
+  const problems: string[] = [];
+  const duration = differenceInMinutes(end, start);
+
+  if (policy.maxDurationMinutes !== null && duration > policy.maxDurationMinutes) {
+    problems.push(`Bookings can be at most ${durationLabel(policy.maxDurationMinutes)}.`);
+  }
+
+  const latest = latestBookableDate(policy, now);
+  if (latest && isAfter(start, latest)) {
+    problems.push(`Bookings can be made at most ${policy.maxAdvanceDays} days ahead (until ${format(latest, 'MMM d')}).`);
+  }
+
+  if (policy.openHour !== null || policy.closeHour !== null) {
+    const open = setHours(startOfDay(start), policy.openHour ?? 0);
+    const close = addHours(startOfDay(start), policy.closeHour ?? 24);
+    const withinDay = isSameDay(start, addMinutes(end, -1));
+    if (start < open || end > close || !withinDay) {
+      problems.push(`This room can be booked from ${hourLabel(policy.openHour ?? 0)} to ${hourLabel(policy.closeHour ?? 24)}.`);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Widen each booking by the setup and teardown time. One booking's teardown
+ * and the next one's setup both need the room, so neighbours must be at least
+ * both buffers apart.
+ */
+export function withBuffers(busy: BusyBlock[], policy: BookingPolicy): BusyBlock[] {
+  const padding = policy.bufferBeforeMinutes + policy.bufferAfterMinutes;
+  if (padding === 0) return busy;
+  return busy.map((block) => ({
+    ...block,
+    startTime: addMinutes(new Date(block.startTime), -padding).toISOString(),
+    endTime: addMinutes(new Date(block.endTime), padding).toISOString(),
+  }));
+}
+
+/**
+ * Bookings that clash with start to end once setup and teardown time is
+ * counted. The request is widened rather than the bookings, so the real
+ * times of what's in the way are returned.
+ */
+export function bufferedConflicts(
+  busy: BusyBlock[],
+  policy: BookingPolicy,
+  start: Date,
+  end: Date,
+  excludeBookingId?: string
+): BusyBlock[] {
+  const padding = policy.bufferBeforeMinutes + policy.bufferAfterMinutes;
+  return findConflicts(busy, addMinutes(start, -padding), addMinutes(end, padding), excludeBookingId);
+}
+
+function datesLabel(dates: Date[]): string {
+  const shown = dates.slice(0, 3).map((date) => format(date, 'MMM d'));
+  return dates.length > 3 ? `${shown.join(', ')} and ${dates.length - 3} more` : shown.join(', ');
+}
+
+/**
+ * Rule breaks across every occurrence of a series, one line per rule with the
+ * dates that break it. A series with no end always outruns an advance limit.
+ */
+export function seriesViolations(
+  policy: BookingPolicy,
+  occurrences: Date[],
+  durationMs: number,
+  now: Date,
+  openEnded = false
+): string[] {
+  const datesByProblem = new Map<string, Date[]>();
+  for (const start of occurrences) {
+    for (const problem of policyViolations(policy, start, new Date(start.getTime() + durationMs), now)) {
+      datesByProblem.set(problem, [...(datesByProblem.get(problem) ?? []), start]);
+    }
+  }
+
+  const lines =
+    occurrences.length > 1
+      ? [...datesByProblem].map(([problem, dates]) => `${problem.replace(/\.$/, '')}: ${datesLabel(dates)}.`)
+      : [...datesByProblem.keys()];
+  if (openEnded && policy.maxAdvanceDays !== null && occurrences.length > 1) {
+    lines.push(`Repeating bookings need an end date within ${policy.maxAdvanceDays} days.`);
+  }
+  return lines;
+}
+
+/**
+ * Limit slot suggestions to the bookable hours
+ */
+export function slotOptions(policy: BookingPolicy): SlotSearchOptions {
+  return {
+    ...(policy.openHour !== null && { dayStartHour: policy.openHour }),
+    ...(policy.closeHour !== null && { dayEndHour: policy.closeHour }),
+  };
+}
+
+// Policy fields as typed into a form; blank means no limit
+export type PolicyFormValues = Record<keyof BookingPolicy, string>;
+
+export function policyToForm(policy: BookingPolicy | null | undefined): PolicyFormValues {
+  const value = policy ?? NO_POLICY;
+  const text = (n: number | null) => (n === null ? '' : String(n));
+  return {
+    maxDurationMinutes: text(value.maxDurationMinutes),
+    maxAdvanceDays: text(value.maxAdvanceDays),
+    openHour: text(value.openHour),
+    closeHour: text(value.closeHour),
+    bufferBeforeMinutes: value.bufferBeforeMinutes ? String(value.bufferBeforeMinutes) : '',
+    bufferAfterMinutes: value.bufferAfterMinutes ? String(value.bufferAfterMinutes) : '',
+    checkInGraceMinutes: text(value.checkInGraceMinutes),
+  };
+}
+
+/**
+ * Parse the policy form, returning an error per bad field
+ */
+export function formToPolicy(values: PolicyFormValues): { policy: BookingPolicy; errors: Partial<PolicyFormValues> } {
+  const errors: Partial<PolicyFormValues> = {};
+  const number = (field: keyof BookingPolicy, min: number, max: number): number | null => {
+    const text = values[field].trim();
+    if (!text) return null;
+    const value = Number(text);
+    if (!Number.isInteger(value) || value < min || value > max) {
+      errors[field] = `Enter a whole number from ${min} to ${max}`;
+      return null;
+    }
+    return value;
+  };
+
+  const policy: BookingPolicy = {
+    maxDurationMinutes: number('maxDurationMinutes', 15, 24 * 60),
+    maxAdvanceDays: number('maxAdvanceDays', 0, 730),
+    openHour: number('openHour', 0, 23),
+    closeHour: number('closeHour', 1, 24),
+    bufferBeforeMinutes: number('bufferBeforeMinutes', 0, 240) ?? 0,
+    bufferAfterMinutes: number('bufferAfterMinutes', 0, 240) ?? 0,
+    checkInGraceMinutes: number('checkInGraceMinutes', 5, 120),
+  };
+  if (policy.openHour !== null && policy.closeHour !== null && policy.closeHour <= policy.openHour && !errors.closeHour) {
+    errors.closeHour = 'Must be after the opening hour';
+  }
+  return { policy, errors };
+}
@@ -0,0 +1,20 @@
+import { isAfter, isBefore, parseISO } from 'date-fns';
+import type { Booking } from '../types';
+
+/**
+ * Whether a booking still holds its room; cancelled, rejected and released ones don't
+ */
+export function holdsRoom(booking: Pick<Booking, 'status'>): boolean {
+  return booking.status !== 'CANCELLED' && booking.status !== 'REJECTED' && booking.status !== 'NO_SHOW';
+}
+
+/**
+ * A confirmed booking that has started and not yet ended, so it can be ended early
+ */
+export function isInProgress(booking: Pick<Booking, 'status' | 'startTime' | 'endTime'>, now: Date): boolean {
+  return (
+    booking.status === 'CONFIRMED' &&
+    !isBefore(now, parseISO(booking.startTime)) &&
+    isAfter(parseISO(booking.endTime), now)
+  );
+}
@@ -0,0 +1,156 @@
+import { addMinutes, differenceInMinutes, format, isAfter, isBefore, isSameDay, parseISO } from 'date-fns';
+import type { Booking } from '../types';
+import { holdsRoom } from './bookingStatus';
+
+export type BriefingActionKind = 'check_in' | 'extend' | 'find_room' | 'cancel';
+
+export interface BriefingNote {
+  kind: 'not_checked_in' | 'overlap' | 'building_change' | 'back_to_back' | 'gap';
+  text: string;
+  /** The meeting the actions apply to */
+  booking: Booking;
+  actions: BriefingActionKind[];
+  /** Where to look for a room with find_room: the building of the meeting before */
+  nearBuilding?: string;
+}
+
+export interface DailyBriefing {
+  meetings: Booking[];
+  notes: BriefingNote[];
+  /** Plain overview of the day, used when no model is available */
+  summary: string;
+  /** The same schedule written out for the model to summarise */
+  facts: string;
+}
+
+// Meetings this close together leave no time to get between them
+const BACK_TO_BACK_MINUTES = 5;
+// Time to allow for walking to another building
+const TRAVEL_MINUTES = 15;
+// Free time worth pointing out; always long enough to extend into
+const MIN_GAP_MINUTES = 60;
+export const EXTEND_MINUTES = 30;
+
+function time(iso: string): string {
+  return format(parseISO(iso), 'h:mm a');
+}
+
+function place(booking: Booking): string {
+  const building = booking.room.building;
+  return building ? `${booking.room.name} (${building})` : booking.room.name;
+}
+
+function isInProgress(booking: Booking, now: Date): boolean {
+  return isBefore(parseISO(booking.startTime), now) && isAfter(parseISO(booking.endTime), now);
+}
+
+// Compare two meetings in a row; at most one note for the pair
+function pairNote(first: Booking, next: Booking): BriefingNote | null {
+  const gap = differenceInMinutes(parseISO(next.startTime), parseISO(first.endTime));
+  const from = first.room.building;
+  const to = next.room.building;
+
+  if (gap < 0) {
+    return {
+      kind: 'overlap',
+      text: `${next.title} overlaps ${first.title}.`,
+      booking: next,
+      actions: ['cancel'],
+    };
+  }
+  if (from && to && from !== to && gap < TRAVEL_MINUTES) {
+    return {
+      kind: 'building_change',
+      text: `${next.title} is in ${to}, ${gap === 0 ? 'straight after' : `${gap} min after`} ${first.title} in ${from}.`,
+      booking: next,
+      actions: ['find_room'],
+      nearBuilding: from,
+    };
+  }
+  if (gap <= BACK_TO_BACK_MINUTES) {
+    return {
+      kind: 'back_to_back',
+      text: `${first.title} runs straight into ${next.title}.`,
+      booking: first,
+      actions: [],
+    };
+  }
+  if (gap >= MIN_GAP_MINUTES) {
+    const hours = Math.floor(gap / 60);
+    const minutes = gap % 60;
+    const length = minutes ? `${hours}h ${minutes}m` : `${hours}h`;
+    return {
+      kind: 'gap',
+      text: `You're free for ${length} after ${first.title}, until ${time(next.startTime)}.`,
+      booking: first,
+      actions: ['extend'],
+    };
+  }
+  return null;
+}
+
+/**
+ * Work out what's worth knowing about the user's meetings today: back-to-back
+ * runs, building changes, gaps and meetings they haven't checked in to
+ */
+export function buildDailyBriefing(bookings: Booking[], checkedInIds: Set<string>, now: Date): DailyBriefing {
+  const meetings = bookings
+    .filter((booking) => holdsRoom(booking) && isSameDay(parseISO(booking.startTime), now))
+    .sort((a, b) => parseISO(a.startTime).getTime() - parseISO(b.startTime).getTime());
+  const remaining = meetings.filter((booking) => isAfter(parseISO(booking.endTime), now));
+
+  const notes: BriefingNote[] = [];
+  remaining.forEach((booking, index) => {
+    if (isInProgress(booking, now) && !checkedInIds.has(booking.id)) {
+      notes.push({
+        kind: 'not_checked_in',
+        text: booking.releaseAt
+          ? `You haven't checked in to ${booking.title} yet. The room is released at ${time(booking.releaseAt)}.`
+          : `You haven't checked in to ${booking.title} yet.`,
+        booking,
+        actions: ['check_in', 'cancel'],
+      });
+    }
+    const next = remaining[index + 1];
+    const note = next && pairNote(booking, next);
+    if (note) notes.push(note);
+  });
+
+  let summary: string;
+  if (meetings.length === 0) {
+    summary = 'Nothing booked today.';
+  } else if (remaining.length === 0) {
+    summary = `Your ${meetings.length === 1 ? 'meeting' : `${meetings.length} meetings`} for today ${meetings.length === 1 ? 'is' : 'are'} over.`;
+  } else {
+    const lastEnd = meetings
+      .map((booking) => booking.endTime)
+      .reduce((latest, end) => (isAfter(parseISO(end), parseISO(latest)) ? end : latest));
+    const count = `${meetings.length} meeting${meetings.length === 1 ? '' : 's'} today`;
+    const next = remaining[0];
+    const lead = isInProgress(next, now) ? `Now: ${next.title}` : `Next: ${next.title} at ${time(next.startTime)}`;
+    summary = `${count}, ${time(meetings[0].startTime)} to ${time(lastEnd)}. ${lead} in ${place(next)}.`;
+  }
+
+  const lines = meetings.map((booking) => {
+    const status = !isAfter(parseISO(booking.endTime), now)
+      ? 'ended'
+      : isInProgress(booking, now)
+        ? `in progress, ${checkedInIds.has(booking.id) ? 'checked in' : 'not checked in'}`
+        : 'upcoming';
+    return `- ${time(booking.startTime)}-${time(booking.endTime)} ${booking.title} in ${place(booking)}, ${status}`;
+  });
+  const facts = [
+    'Meetings today:',
+    ...(lines.length > 0 ? lines : ['- none']),
+    ...(notes.length > 0 ? ['Worth knowing:', ...notes.map((note) => `- ${note.text}`)] : []),
+  ].join('\n');
+
+  return { meetings, notes, summary, facts };
+}
+
+/**
+ * The new end time when a meeting is extended from the briefing
+ */
+export function extendedEndTime(booking: Booking): string {
+  return addMinutes(parseISO(booking.endTime), EXTEND_MINUTES).toISOString();
+}
@@ -0,0 +1,42 @@
+import { addMinutes, parseISO } from 'date-fns';
+import type { BusyBlock, TimeSlot } from './availability';
+import { bufferedConflicts, policyViolations } from './bookingPolicy';
+import type { Booking, BookingPolicy } from '../types';
+
+// Quick extensions offered for a meeting that's running over
+export const EXTEND_OPTIONS = [15, 30, 60];
+
+/**
+ * The time an extension adds on after the meeting's current end
+ */
+export function extensionWindow(booking: Pick<Booking, 'endTime'>, minutes: number): TimeSlot {
+  const start = parseISO(booking.endTime);
+  return { start, end: addMinutes(start, minutes) };
+}
+
+/**
+ * The first booking in the way of extending, counting the room's setup and teardown time
+ */
+export function extensionBlocker(
+  busy: BusyBlock[],
+  policy: BookingPolicy,
+  booking: Pick<Booking, 'id' | 'endTime'>,
+  minutes: number
+): BusyBlock | undefined {
+  const { start, end } = extensionWindow(booking, minutes);
+  return bufferedConflicts(busy, policy, start, end, booking.id).sort(
+    (a, b) => parseISO(a.startTime).getTime() - parseISO(b.startTime).getTime()
+  )[0];
+}
+
+/**
+ * Rules the extended booking would break, e.g. running past closing or the longest allowed booking
+ */
+export function extensionViolations(
+  policy: BookingPolicy,
+  booking: Pick<Booking, 'startTime' | 'endTime'>,
+  minutes: number,
+  now: Date
+): string[] {
+  return policyViolations(policy, parseISO(booking.startTime), extensionWindow(booking, minutes).end, now);
+}
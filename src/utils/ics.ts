@@ -0,0 +1,341 @@
+import { addMinutes, differenceInMinutes, endOfDay, parseISO } from 'date-fns';
+import { formatExDate, formatRecurrenceRule, parseRecurrenceRule, type RecurrenceRule } from './recurrence';
+import type { Booking, BookingStatus } from '../types';
+import type { AttendeeInput } from '../services/bookings';
+
+const PRODUCT_ID = '-//Boardroom Booking//Mobile//EN';
+const UID_DOMAIN = 'boardroom-booking';
+// RFC 5545 limits content lines to 75 octets; continuation lines start with a space
+const MAX_LINE_LENGTH = 75;
+
+// Calendars only know tentative, confirmed and cancelled events
+const ICS_STATUS: Record<BookingStatus, string> = {
+  CONFIRMED: 'CONFIRMED',
+  PENDING: 'TENTATIVE',
+  CANCELLED: 'CANCELLED',
+  REJECTED: 'CANCELLED',
+  NO_SHOW: 'CANCELLED',
+};
+
+export interface IcsOptions {
+  /** Shown as the calendar name by clients that support X-WR-CALNAME */
+  calendarName?: string;
+  /**
+   * Emit RRULE/EXDATE for recurring bookings. Leave off when exporting a list
+   * that already contains each occurrence, or clients will duplicate them.
+   */
+  includeRecurrence?: boolean;
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function escapeParam(value: string): string {
+  // Parameter values can't be backslash-escaped; quote them and drop quotes instead
+  return `"${value.replace(/"/g, "'")}"`;
+}
+
+function foldLine(line: string): string {
+  if (line.length <= MAX_LINE_LENGTH) return line;
+  const chunks = [line.slice(0, MAX_LINE_LENGTH)];
+  for (let i = MAX_LINE_LENGTH; i < line.length; i += MAX_LINE_LENGTH - 1) {
+    chunks.push(' ' + line.slice(i, i + MAX_LINE_LENGTH - 1));
+  }
+  return chunks.join('\r\n');
+}
+
+function roomLocation(room: Booking['room']): string {
+  return [room.name, room.building, room.floor ? `Floor ${room.floor}` : null]
+    .filter(Boolean)
+    .join(', ');
+}
+
+function recurrenceLines(booking: Booking, start: Date): string[] {
+  if (!booking.recurrenceRule) return [];
+
+  const rule = parseRecurrenceRule(booking.recurrenceRule);
+  if (!rule) {
+    // Pass rules we can't parse through untouched rather than dropping them
+    const ruleLine = booking.recurrenceRule
+      .split(/\r?\n/)
+      .find((line) => line.trim() && !line.startsWith('EXDATE'));
+    return ruleLine ? [`RRULE:${ruleLine.trim().replace(/^RRULE:/, '')}`] : [];
+  }
+
+  // UNTIL and EXDATE must use the same value type as the UTC DTSTART
+  let rrule = formatRecurrenceRule({ ...rule, until: undefined, exDates: [] });
+  if (rule.until && !rule.count) {
+    rrule += `;UNTIL=${formatUtc(endOfDay(rule.until))}`;
+  }
+
+  const lines = [`RRULE:${rrule}`];
+  if (rule.exDates.length > 0) {
+    const exDates = rule.exDates.map((day) => {
+      const excluded = parseISO(day);
+      excluded.setHours(start.getHours(), start.getMinutes(), 0, 0);
+      return formatUtc(excluded);
+    });
+    lines.push(`EXDATE:${exDates.join(',')}`);
+  }
+  return lines;
+}
+
+function eventLines(booking: Booking, options: IcsOptions, stamp: string): string[] {
+  const start = parseISO(booking.startTime);
+  const end = parseISO(booking.endTime);
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${booking.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatUtc(start)}`,
+    `DTEND:${formatUtc(end)}`,
+    `SUMMARY:${escapeText(booking.title)}`,
+    `LOCATION:${escapeText(roomLocation(booking.room))}`,
+    `STATUS:${ICS_STATUS[booking.status]}`,
+  ];
+
+  if (booking.description) {
+    lines.push(`DESCRIPTION:${escapeText(booking.description)}`);
+  }
+  if (booking.updatedAt) {
+    lines.push(`LAST-MODIFIED:${formatUtc(parseISO(booking.updatedAt))}`);
+  }
+  if (booking.user?.email) {
+    const organizer = `${booking.user.firstName} ${booking.user.lastName}`.trim();
+    lines.push(`ORGANIZER;CN=${escapeParam(organizer)}:mailto:${booking.user.email}`);
+  }
+  for (const attendee of booking.attendees || []) {
+    const cn = attendee.name ? `;CN=${escapeParam(attendee.name)}` : '';
+    lines.push(`ATTENDEE${cn};ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION:mailto:${attendee.email}`);
+  }
+  if (options.includeRecurrence) {
+    lines.push(...recurrenceLines(booking, start));
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Build an iCalendar (RFC 5545) document for one or more bookings
+ */
+export function generateIcs(bookings: Booking[], options: IcsOptions = {}): string {
+  const stamp = formatUtc(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ];
+  if (options.calendarName) {
+    lines.push(`X-WR-CALNAME:${escapeText(options.calendarName)}`);
+  }
+  for (const booking of bookings) {
+    lines.push(...eventLines(booking, options, stamp));
+  }
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * A filesystem-safe name for an exported file, e.g. "weekly-sync.ics"
+ */
+export function exportFileName(label: string, extension: string): string {
+  const slug = label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40);
+  return `${slug || 'booking'}.${extension}`;
+}
+
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  start: Date;
+  end: Date;
+  /** Parsed RRULE with EXDATEs folded in, when the event repeats */
+  recurrence: RecurrenceRule | null;
+  attendees: AttendeeInput[];
+}
+
+export interface SkippedIcsEvent {
+  summary: string;
+  reason: string;
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r\n/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter((line) => line.trim().length > 0);
+}
+
+function parseProperty(line: string): IcsProperty | null {
+  // The value starts at the first colon outside a quoted parameter
+  let inQuotes = false;
+  let split = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      split = i;
+      break;
+    }
+  }
+  if (split === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, split).split(';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(split + 1) };
+}
+
+function unescapeText(value: string): string {
+  return value
+    .replace(/\\n/gi, '\n')
+    .replace(/\\([,;\\])/g, '$1');
+}
+
+/**
+ * Date-times in UTC ("Z") are exact; floating and TZID times are read as device-local time
+ */
+function parseIcsDate(value: string): Date | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, y, mo, d, h = '0', mi = '0', se = '0', utc] = match;
+  const parts = [Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(se)] as const;
+  return utc ? new Date(Date.UTC(...parts)) : new Date(...parts);
+}
+
+function parseDuration(value: string): number | null {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, sign, w = '0', d = '0', h = '0', m = '0'] = match;
+  const minutes = Number(w) * 7 * 24 * 60 + Number(d) * 24 * 60 + Number(h) * 60 + Number(m);
+  return sign === '-' ? -minutes : minutes;
+}
+
+function parseEvent(props: IcsProperty[]): IcsEvent | SkippedIcsEvent {
+  const get = (name: string) => props.find((p) => p.name === name);
+  const summary = get('SUMMARY') ? unescapeText(get('SUMMARY')!.value) : 'Untitled event';
+
+  if (get('STATUS')?.value.toUpperCase() === 'CANCELLED') {
+    return { summary, reason: 'Event is cancelled' };
+  }
+  if (get('RECURRENCE-ID')) {
+    return { summary, reason: 'Changes to single occurrences are not imported' };
+  }
+
+  const dtStart = get('DTSTART');
+  if (!dtStart) return { summary, reason: 'Missing start time' };
+  if (dtStart.params.VALUE === 'DATE' || /^\d{8}$/.test(dtStart.value)) {
+    return { summary, reason: 'All-day events can’t be booked' };
+  }
+
+  const start = parseIcsDate(dtStart.value);
+  if (!start) return { summary, reason: 'Unreadable start time' };
+
+  let end: Date | null = null;
+  const dtEnd = get('DTEND');
+  const duration = get('DURATION');
+  if (dtEnd) {
+    end = parseIcsDate(dtEnd.value);
+  } else if (duration) {
+    const minutes = parseDuration(duration.value);
+    end = minutes !== null ? addMinutes(start, minutes) : null;
+  }
+  if (!end || differenceInMinutes(end, start) <= 0) {
+    return { summary, reason: 'Missing or invalid end time' };
+  }
+
+  let recurrence: RecurrenceRule | null = null;
+  const rrule = get('RRULE');
+  if (rrule) {
+    recurrence = parseRecurrenceRule(rrule.value);
+    if (!recurrence) {
+      return { summary, reason: `Unsupported repeat rule (${rrule.value})` };
+    }
+    for (const exDate of props.filter((p) => p.name === 'EXDATE')) {
+      for (const value of exDate.value.split(',')) {
+        const date = parseIcsDate(value.trim());
+        if (date) recurrence.exDates.push(formatExDate(date));
+      }
+    }
+  }
+
+  const attendees: AttendeeInput[] = props
+    .filter((p) => p.name === 'ATTENDEE' && /^mailto:/i.test(p.value))
+    .map((p) => ({
+      email: p.value.replace(/^mailto:/i, '').trim(),
+      ...(p.params.CN ? { name: p.params.CN } : {}),
+    }));
+
+  return {
+    uid: get('UID')?.value || `${start.getTime()}-${summary}`,
+    summary,
+    description: get('DESCRIPTION') ? unescapeText(get('DESCRIPTION')!.value) : undefined,
+    location: get('LOCATION') ? unescapeText(get('LOCATION')!.value) : undefined,
+    start,
+    end,
+    recurrence,
+    attendees,
+  };
+}
+
+/**
+ * Parse the VEVENTs of an iCalendar document into bookable events.
+ * Events that can't become room bookings are returned in skipped with a reason.
+ */
+export function parseIcs(text: string): { events: IcsEvent[]; skipped: SkippedIcsEvent[] } {
+  const events: IcsEvent[] = [];
+  const skipped: SkippedIcsEvent[] = [];
+  let current: IcsProperty[] | null = null;
+  let nestedDepth = 0;
+
+  for (const line of unfoldLines(text)) {
+    const prop = parseProperty(line);
+    if (!prop) continue;
+
+    if (prop.name === 'BEGIN' && prop.value.toUpperCase() === 'VEVENT') {
+      current = [];
+      nestedDepth = 0;
+    } else if (current && prop.name === 'BEGIN') {
+      // VALARM and other sub-components don't describe the event itself
+      nestedDepth++;
+    } else if (current && prop.name === 'END' && nestedDepth > 0) {
+      nestedDepth--;
+    } else if (current && prop.name === 'END' && prop.value.toUpperCase() === 'VEVENT') {
+      const result = parseEvent(current);
+      if ('reason' in result) skipped.push(result);
+      else events.push(result);
+      current = null;
+    } else if (current && nestedDepth === 0) {
+      current.push(prop);
+    }
+  }
+
+  return { events, skipped };
+}
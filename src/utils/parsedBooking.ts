@@ -0,0 +1,175 @@
+import { format, isValid, parse } from 'date-fns';
+import { z } from 'zod';
+import { config } from '../constants/config';
+
+const DATE_FORMAT = 'yyyy-MM-dd';
+
+function isRealDate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && isValid(parse(value, DATE_FORMAT, new Date()));
+}
+
+// "Video Conferencing" and "video_conferencing" both mean video-conferencing
+function normalizeAmenity(value: unknown): unknown {
+  return typeof value === 'string' ? value.trim().toLowerCase().replace(/[\s_]+/g, '-') : value;
+}
+
+// Models often send null for "not given"; treat it as missing
+function dropNulls(value: unknown): unknown {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return value;
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== null));
+}
+
+export const localDateSchema = z.string().refine(isRealDate, 'must be a real date in YYYY-MM-DD format');
+export const localTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'must be a 24-hour time in HH:MM format');
+export const amenitySchema = z.preprocess(normalizeAmenity, z.enum(config.amenities));
+
+export const parsedBookingSchema = z.preprocess(
+  dropNulls,
+  z
+    .object({
+      action: z.enum(['book', 'check_availability', 'cancel', 'list', 'help']),
+      date: localDateSchema.optional(),
+      startTime: localTimeSchema.optional(),
+      endTime: localTimeSchema.optional(),
+      duration: z.number().int().positive().max(24 * 60).optional(),
+      numberOfPeople: z.number().int().positive().max(1000).optional(),
+      floor: z.string().optional(),
+      amenities: z.array(amenitySchema).optional(),
+      roomName: z.string().optional(),
+      timeOfDay: z.string().optional(),
+    })
+    .refine((b) => !b.startTime || !b.endTime || b.startTime < b.endTime, {
+      message: 'must be after startTime',
+      path: ['endTime'],
+    })
+);
+
+export type ParsedBooking = z.infer<typeof parsedBookingSchema>;
+
+export type ParsedReply =
+  | { status: 'none' }
+  | { status: 'valid'; data: ParsedBooking; prose: string }
+  | { status: 'invalid'; issues: string; prose: string };
+
+/**
+ * Find the first complete JSON object in a reply, preferring a fenced code block.
+ * Returns the object's source and the text around it.
+ */
+export function extractJson(text: string): { json: string; prose: string } | null {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced && fenced[1].trim().startsWith('{')) {
+    return { json: fenced[1].trim(), prose: text.replace(fenced[0], '').trim() };
+  }
+
+  const start = text.indexOf('{');
+  if (start === -1) return null;
+
+  // Walk to the matching brace, ignoring braces inside strings
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      return {
+        json: text.slice(start, i + 1),
+        prose: `${text.slice(0, start).trimEnd()} ${text.slice(i + 1).trimStart()}`.trim(),
+      };
+    }
+  }
+  // Unbalanced: likely truncated, let the caller ask for a repair
+  return { json: text.slice(start), prose: text.slice(0, start).trim() };
+}
+
+/**
+ * Check a model reply for a ParsedBooking, validating it if there is one
+ */
+export function parseBookingReply(text: string): ParsedReply {
+  const extracted = extractJson(text);
+  if (!extracted) return { status: 'none' };
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(extracted.json);
+  } catch {
+    // Stray braces in ordinary prose aren't a failed booking
+    if (!/"action"\s*:/.test(extracted.json)) return { status: 'none' };
+    return { status: 'invalid', issues: 'The JSON could not be parsed.', prose: extracted.prose };
+  }
+
+  // Plain JSON that isn't trying to be a booking is left alone
+  if (typeof raw !== 'object' || raw === null || !('action' in raw)) return { status: 'none' };
+
+  const result = parsedBookingSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join('.') || 'value'} ${issue.message}`)
+      .join('; ');
+    return { status: 'invalid', issues, prose: extracted.prose };
+  }
+  return { status: 'valid', data: result.data, prose: extracted.prose };
+}
+
+/**
+ * The part of a still-streaming reply that's safe to show: everything before
+ * a JSON payload, which may be incomplete and would otherwise flash as raw JSON
+ */
+export function streamingPreview(text: string): string {
+  const cut = text.search(/```|\{/);
+  return (cut === -1 ? text : text.slice(0, cut)).trimEnd();
+}
+
+function formatTime(time: string): string {
+  return format(parse(time, 'HH:mm', new Date()), 'h:mm a');
+}
+
+/**
+ * When a ParsedBooking is for, e.g. "on Thu, Oct 15 from 2:00 PM to 3:00 PM"
+ */
+export function describeWhen(booking: ParsedBooking): string {
+  return [
+    booking.date && `on ${format(parse(booking.date, DATE_FORMAT, new Date()), 'EEE, MMM d')}`,
+    booking.startTime && booking.endTime
+      ? `from ${formatTime(booking.startTime)} to ${formatTime(booking.endTime)}`
+      : booking.startTime
+        ? `at ${formatTime(booking.startTime)}`
+        : booking.timeOfDay && `in the ${booking.timeOfDay}`,
+    !booking.endTime && booking.duration && `for ${booking.duration} minutes`,
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
+
+/**
+ * One-line, human description of a ParsedBooking for the chat
+ */
+export function summarizeParsedBooking(booking: ParsedBooking): string {
+  const when = describeWhen(booking);
+  const needs = [
+    booking.numberOfPeople && `for ${booking.numberOfPeople} ${booking.numberOfPeople === 1 ? 'person' : 'people'}`,
+    booking.roomName && `in ${booking.roomName}`,
+    booking.floor && `on ${booking.floor}`,
+    booking.amenities?.length && `with ${booking.amenities.join(', ')}`,
+  ]
+    .filter(Boolean)
+    .join(' ');
+
+  switch (booking.action) {
+    case 'book':
+      return `Book a room ${[needs, when].filter(Boolean).join(' ')}`.trim() + '.';
+    case 'check_availability':
+      return `Check which rooms are free ${[when, needs].filter(Boolean).join(' ')}`.trim() + '.';
+    case 'cancel':
+      return `Cancel your booking ${when}`.trim() + '.';
+    case 'list':
+      return `Show your bookings ${when}`.trim() + '.';
+    case 'help':
+      return 'I can find free rooms, book them, list your bookings and cancel them. What do you need?';
+  }
+}
@@ -0,0 +1,365 @@
+import { addDays, addMonths, addWeeks, endOfDay, format, getDaysInMonth, isAfter, isBefore, parse, startOfDay, startOfMonth, startOfWeek } from 'date-fns';
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface RecurrenceByDay {
+  weekday: Weekday;
+  /** Ordinal within the month (1-4, or -1 for last). Only used with MONTHLY. */
+  nth?: number;
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: RecurrenceByDay[];
+  byMonthDay?: number;
+  /** Last day (inclusive) on which an occurrence may start */
+  until?: Date;
+  count?: number;
+  /** Skipped occurrences, as local yyyy-MM-dd dates */
+  exDates: string[];
+}
+
+export const WEEKDAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+export const WEEKDAY_LABELS: Record<Weekday, { short: string; long: string }> = {
+  MO: { short: 'Mon', long: 'Monday' },
+  TU: { short: 'Tue', long: 'Tuesday' },
+  WE: { short: 'Wed', long: 'Wednesday' },
+  TH: { short: 'Thu', long: 'Thursday' },
+  FR: { short: 'Fri', long: 'Friday' },
+  SA: { short: 'Sat', long: 'Saturday' },
+  SU: { short: 'Sun', long: 'Sunday' },
+};
+
+const ORDINAL_LABELS: Record<number, string> = {
+  1: 'first',
+  2: 'second',
+  3: 'third',
+  4: 'fourth',
+  [-1]: 'last',
+};
+
+// Hard stop for open-ended rules so expansion always terminates
+const MAX_EXPANSION_DAYS = 366 * 2;
+
+/**
+ * Weekday code for a date (date-fns getDay is 0 = Sunday)
+ */
+export function weekdayOf(date: Date): Weekday {
+  return WEEKDAYS[(date.getDay() + 6) % 7];
+}
+
+/**
+ * Which occurrence of its weekday a date is within the month (1-5)
+ */
+export function nthWeekdayOf(date: Date): number {
+  return Math.floor((date.getDate() - 1) / 7) + 1;
+}
+
+/**
+ * Whether a date is the last occurrence of its weekday within the month
+ */
+export function isLastWeekdayOfMonth(date: Date): boolean {
+  return date.getDate() + 7 > getDaysInMonth(date);
+}
+
+/**
+ * "the second Tuesday", "the last Friday"
+ */
+export function describeNthWeekday(nth: number, weekday: Weekday): string {
+  return `the ${ORDINAL_LABELS[nth] ?? `${nth}th`} ${WEEKDAY_LABELS[weekday].long}`;
+}
+
+export function formatExDate(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+function parseRuleDate(value: string): Date | undefined {
+  // A trailing Z is a UTC time, e.g. UNTIL=20261231T235959Z
+  const utc = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+  if (utc) {
+    const [year, month, day, hours, minutes, seconds] = utc.slice(1).map(Number);
+    return new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds));
+  }
+  const parsed = value.includes('T')
+    ? parse(value, "yyyyMMdd'T'HHmmss", new Date())
+    : parse(value, 'yyyyMMdd', new Date());
+  return isNaN(parsed.getTime()) ? undefined : parsed;
+}
+
+function parseByDay(value: string): RecurrenceByDay | null {
+  const match = value.trim().match(/^([+-]?\d)?(MO|TU|WE|TH|FR|SA|SU)$/);
+  if (!match) return null;
+  const nth = match[1] ? parseInt(match[1], 10) : undefined;
+  return { weekday: match[2] as Weekday, ...(nth ? { nth } : {}) };
+}
+
+/**
+ * Parse a recurrence rule as stored on a booking.
+ * Accepts a bare "FREQ=..." value or RFC 5545 "RRULE:" / "EXDATE:" lines.
+ * Returns null when the rule uses something this client cannot expand.
+ */
+export function parseRecurrenceRule(value: string | null | undefined): RecurrenceRule | null {
+  if (!value) return null;
+
+  const lines = value.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+  const ruleLine = lines.find((line) => !line.startsWith('EXDATE'));
+  if (!ruleLine) return null;
+
+  const rule: RecurrenceRule = { freq: 'DAILY', interval: 1, byDay: [], exDates: [] };
+  let hasFreq = false;
+
+  for (const part of ruleLine.replace(/^RRULE:/, '').split(';')) {
+    const [key, rawValue] = part.split('=');
+    if (!key || rawValue === undefined) continue;
+
+    switch (key.toUpperCase()) {
+      case 'FREQ':
+        if (rawValue !== 'DAILY' && rawValue !== 'WEEKLY' && rawValue !== 'MONTHLY') return null;
+        rule.freq = rawValue;
+        hasFreq = true;
+        break;
+      case 'INTERVAL':
+        rule.interval = Math.max(1, parseInt(rawValue, 10) || 1);
+        break;
+      case 'BYDAY': {
+        const days = rawValue.split(',').map(parseByDay);
+        if (days.some((d) => d === null)) return null;
+        rule.byDay = days as RecurrenceByDay[];
+        break;
+      }
+      case 'BYMONTHDAY':
+        rule.byMonthDay = parseInt(rawValue, 10) || undefined;
+        break;
+      case 'UNTIL':
+        rule.until = parseRuleDate(rawValue);
+        break;
+      case 'COUNT':
+        rule.count = parseInt(rawValue, 10) || undefined;
+        break;
+      default:
+        // WKST and friends don't change how we expand bookings
+        break;
+    }
+  }
+
+  for (const line of lines) {
+    if (!line.startsWith('EXDATE')) continue;
+    const values = line.slice(line.indexOf(':') + 1).split(',');
+    for (const v of values) {
+      const date = parseRuleDate(v.trim());
+      if (date) rule.exDates.push(formatExDate(date));
+    }
+  }
+
+  return hasFreq ? rule : null;
+}
+
+/**
+ * Serialize a rule for the API. Rules without exceptions keep the bare
+ * "FREQ=..." form the backend has always received.
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map((d) => `${d.nth ?? ''}${d.weekday}`).join(',')}`);
+  }
+  if (rule.byMonthDay) parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  if (rule.count) {
+    parts.push(`COUNT=${rule.count}`);
+  } else if (rule.until) {
+    parts.push(`UNTIL=${format(rule.until, 'yyyyMMdd')}`);
+  }
+
+  const rrule = parts.join(';');
+  if (rule.exDates.length === 0) return rrule;
+
+  const exDates = rule.exDates.map((d) => d.replace(/-/g, '')).join(',');
+  return `RRULE:${rrule}\nEXDATE;VALUE=DATE:${exDates}`;
+}
+
+function withTimeOf(day: Date, time: Date): Date {
+  const result = new Date(day);
+  result.setHours(time.getHours(), time.getMinutes(), 0, 0);
+  return result;
+}
+
+function nthWeekdayInMonth(month: Date, weekday: Weekday, nth: number): Date | null {
+  const first = startOfMonth(month);
+  const offset = (WEEKDAYS.indexOf(weekday) - WEEKDAYS.indexOf(weekdayOf(first)) + 7) % 7;
+
+  if (nth > 0) {
+    const day = 1 + offset + (nth - 1) * 7;
+    return day <= getDaysInMonth(month) ? addDays(first, day - 1) : null;
+  }
+
+  // Negative ordinals count back from the last matching weekday
+  let day = 1 + offset;
+  while (day + 7 <= getDaysInMonth(month)) day += 7;
+  day += (nth + 1) * 7;
+  return day >= 1 ? addDays(first, day - 1) : null;
+}
+
+/**
+ * Candidate days for one period (day, week or month) of the rule, in order.
+ */
+function candidatesForPeriod(rule: RecurrenceRule, periodStart: Date, dtStart: Date): Date[] {
+  switch (rule.freq) {
+    case 'DAILY': {
+      if (rule.byDay.length > 0 && !rule.byDay.some((d) => d.weekday === weekdayOf(periodStart))) {
+        return [];
+      }
+      return [periodStart];
+    }
+    case 'WEEKLY': {
+      const days = rule.byDay.length > 0 ? rule.byDay.map((d) => d.weekday) : [weekdayOf(dtStart)];
+      return WEEKDAYS.filter((w) => days.includes(w)).map((w) => addDays(periodStart, WEEKDAYS.indexOf(w)));
+    }
+    case 'MONTHLY': {
+      if (rule.byDay.length > 0) {
+        return rule.byDay
+          .map((d) => nthWeekdayInMonth(periodStart, d.weekday, d.nth ?? nthWeekdayOf(dtStart)))
+          .filter((d): d is Date => d !== null)
+          .sort((a, b) => a.getTime() - b.getTime());
+      }
+      const monthDay = rule.byMonthDay ?? dtStart.getDate();
+      // Months without that day are skipped, as RFC 5545 specifies
+      return monthDay <= getDaysInMonth(periodStart) ? [addDays(periodStart, monthDay - 1)] : [];
+    }
+  }
+}
+
+/**
+ * Every date a rule generates from dtStart, skipped ones included, up to the
+ * rule's end or the horizon
+ */
+function* generateOccurrences(rule: RecurrenceRule, dtStart: Date, horizon: Date): Generator<Date> {
+  const firstDay = startOfDay(dtStart);
+  const until = rule.until ? endOfDay(rule.until) : undefined;
+  let generated = 0;
+
+  let period =
+    rule.freq === 'WEEKLY'
+      ? startOfWeek(firstDay, { weekStartsOn: 1 })
+      : rule.freq === 'MONTHLY'
+        ? startOfMonth(firstDay)
+        : firstDay;
+
+  while (!isAfter(period, horizon)) {
+    for (const day of candidatesForPeriod(rule, period, dtStart)) {
+      if (isBefore(day, firstDay)) continue;
+
+      const occurrence = withTimeOf(day, dtStart);
+      if (until && isAfter(occurrence, until)) return;
+      if (rule.count && generated >= rule.count) return;
+
+      generated++;
+      yield occurrence;
+    }
+
+    period =
+      rule.freq === 'WEEKLY'
+        ? addWeeks(period, rule.interval)
+        : rule.freq === 'MONTHLY'
+          ? addMonths(period, rule.interval)
+          : addDays(period, rule.interval);
+  }
+}
+
+/**
+ * Expand a rule into occurrence start times, beginning at dtStart, or at
+ * `from` for a series that started in the past. Skipped dates (exDates) and
+ * dates before `from` still consume COUNT, matching RFC 5545.
+ */
+export function expandRecurrence(
+  rule: RecurrenceRule,
+  dtStart: Date,
+  options: { limit?: number; includeExcluded?: boolean; from?: Date } = {}
+): Date[] {
+  const { limit = 100, includeExcluded = false, from } = options;
+  const horizon = addDays(startOfDay(from && isAfter(from, dtStart) ? from : dtStart), MAX_EXPANSION_DAYS);
+  const occurrences: Date[] = [];
+
+  for (const occurrence of generateOccurrences(rule, dtStart, horizon)) {
+    if (from && isBefore(occurrence, from)) continue;
+    if (includeExcluded || !rule.exDates.includes(formatExDate(occurrence))) {
+      occurrences.push(occurrence);
+      if (occurrences.length >= limit) break;
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * How much of a rule's COUNT is used up before a date, skipped dates included
+ */
+export function occurrencesBefore(rule: RecurrenceRule, dtStart: Date, before: Date): number {
+  let used = 0;
+  for (const occurrence of generateOccurrences(rule, dtStart, before)) {
+    if (!isBefore(occurrence, before)) break;
+    used++;
+  }
+  return used;
+}
+
+function joinWithAnd(items: string[]): string {
+  if (items.length <= 1) return items.join('');
+  return `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+}
+
+/**
+ * Human-readable summary, e.g. "Every 2 weeks on Mon and Wed, until Dec 31, 2026"
+ */
+export function describeRecurrence(rule: RecurrenceRule, dtStart?: Date): string {
+  const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month' }[rule.freq];
+  let text =
+    rule.interval > 1
+      ? `Every ${rule.interval} ${unit}s`
+      : { DAILY: 'Daily', WEEKLY: 'Weekly', MONTHLY: 'Monthly' }[rule.freq];
+
+  const weekdays = rule.byDay.map((d) => d.weekday);
+  const isWorkweek =
+    weekdays.length === 5 && ['MO', 'TU', 'WE', 'TH', 'FR'].every((w) => weekdays.includes(w as Weekday));
+
+  if (rule.freq === 'MONTHLY') {
+    if (rule.byDay.length > 0) {
+      const parts = rule.byDay.map((d) =>
+        describeNthWeekday(d.nth ?? (dtStart ? nthWeekdayOf(dtStart) : 1), d.weekday)
+      );
+      text += ` on ${joinWithAnd(parts)}`;
+    } else if (rule.byMonthDay || dtStart) {
+      text += ` on day ${rule.byMonthDay ?? dtStart!.getDate()}`;
+    }
+  } else if (isWorkweek) {
+    text += ' on weekdays';
+  } else if (weekdays.length > 0) {
+    text += ` on ${joinWithAnd(WEEKDAYS.filter((w) => weekdays.includes(w)).map((w) => WEEKDAY_LABELS[w].short))}`;
+  } else if (rule.freq === 'WEEKLY' && dtStart) {
+    text += ` on ${WEEKDAY_LABELS[weekdayOf(dtStart)].short}`;
+  }
+
+  if (rule.count) {
+    text += `, ${rule.count} time${rule.count === 1 ? '' : 's'}`;
+  } else if (rule.until) {
+    text += `, until ${format(rule.until, 'MMM d, yyyy')}`;
+  }
+
+  if (rule.exDates.length > 0) {
+    text += ` (${rule.exDates.length} skipped)`;
+  }
+
+  return text;
+}
+
+/**
+ * Describe a stored rule string, falling back to the raw value if it can't be parsed
+ */
+export function describeRecurrenceRule(value: string, dtStart?: Date): string {
+  const rule = parseRecurrenceRule(value);
+  return rule ? describeRecurrence(rule, dtStart) : value;
+}
@@ -0,0 +1,49 @@
+import { addMinutes, isAfter, isBefore, parseISO, startOfMinute } from 'date-fns';
+import { findConflicts, type BusyBlock } from './availability';
+import { holdsRoom } from './bookingStatus';
+import { policyViolations, withBuffers } from './bookingPolicy';
+import type { Booking, BookingPolicy } from '../types';
+
+// How early before the start a scanned code checks the user in
+export const EARLY_CHECK_IN_MINUTES = 15;
+
+// Lengths offered for an ad-hoc booking when the room is free
+export const AD_HOC_DURATIONS = [15, 30, 60];
+
+/**
+ * The booking a scan in this room is for: the user's meeting in progress,
+ * otherwise the next one starting soon
+ */
+export function findCheckInBooking(bookings: Booking[], roomId: string, now: Date): Booking | undefined {
+  const soon = addMinutes(now, EARLY_CHECK_IN_MINUTES);
+  const candidates = bookings
+    .filter(
+      (booking) =>
+        booking.roomId === roomId &&
+        holdsRoom(booking) &&
+        !isAfter(parseISO(booking.startTime), soon) &&
+        isAfter(parseISO(booking.endTime), now)
+    )
+    .sort((a, b) => parseISO(a.startTime).getTime() - parseISO(b.startTime).getTime());
+  return candidates.find((booking) => !isBefore(now, parseISO(booking.startTime))) ?? candidates[0];
+}
+
+/**
+ * Which ad-hoc lengths fit from now, given the room's bookings and rules.
+ * Empty when the room is in use, about to be, or closed.
+ */
+export function adHocDurations(busy: BusyBlock[], policy: BookingPolicy, now: Date): number[] {
+  const start = startOfMinute(now);
+  const padded = withBuffers(busy, policy);
+  return AD_HOC_DURATIONS.filter((minutes) => {
+    const end = addMinutes(start, minutes);
+    return findConflicts(padded, start, end).length === 0 && policyViolations(policy, start, end, now).length === 0;
+  });
+}
+
+/**
+ * The booking using the room right now, if any
+ */
+export function currentOccupant(busy: BusyBlock[], now: Date): BusyBlock | undefined {
+  return findConflicts(busy, now, addMinutes(now, 1))[0];
+}
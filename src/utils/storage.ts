@@ -1,5 +1,8 @@
 import * as SecureStore from 'expo-secure-store';
+import * as Crypto from 'expo-crypto';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { gcm } from '@noble/ciphers/aes';
+import { bytesToHex, bytesToUtf8, hexToBytes, utf8ToBytes } from '@noble/ciphers/utils';
 
 // Secure storage for sensitive data (tokens)
 export const secureStorage = {
@@ -65,3 +68,51 @@ export const zustandAsyncStorage = {
     }
   },
 };
+
+const ENCRYPTION_KEY_NAME = 'storage-encryption-key';
+let encryptionKey: Promise<Uint8Array> | null = null;
+
+// SecureStore only suits small values, so it holds the key and the data lives in AsyncStorage
+function getEncryptionKey(): Promise<Uint8Array> {
+  if (!encryptionKey) {
+    encryptionKey = (async () => {
+      const stored = await secureStorage.getItem(ENCRYPTION_KEY_NAME);
+      if (stored) return hexToBytes(stored);
+      const key = Crypto.getRandomBytes(32);
+      await secureStorage.setItem(ENCRYPTION_KEY_NAME, bytesToHex(key));
+      return key;
+    })();
+  }
+  return encryptionKey;
+}
+
+// Zustand storage adapter for AsyncStorage with AES-GCM encryption (for sensitive stores too large for SecureStore)
+export const zustandEncryptedStorage = {
+  getItem: async (name: string): Promise<string | null> => {
+    try {
+      const payload = await AsyncStorage.getItem(name);
+      if (!payload) return null;
+      const [nonce, data] = payload.split(':');
+      return bytesToUtf8(gcm(await getEncryptionKey(), hexToBytes(nonce)).decrypt(hexToBytes(data)));
+    } catch {
+      // Unreadable (e.g. the key was lost); start fresh
+      return null;
+    }
+  },
+  setItem: async (name: string, value: string): Promise<void> => {
+    try {
+      const nonce = Crypto.getRandomBytes(12);
+      const data = gcm(await getEncryptionKey(), nonce).encrypt(utf8ToBytes(value));
+      await AsyncStorage.setItem(name, `${bytesToHex(nonce)}:${bytesToHex(data)}`);
+    } catch {
+      // Fallback silently
+    }
+  },
+  removeItem: async (name: string): Promise<void> => {
+    try {
+      await AsyncStorage.removeItem(name);
+    } catch {
+      // Fallback silently
+    }
+  },
+};